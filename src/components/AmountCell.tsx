@@ -0,0 +1,65 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import { EditableCell } from "@/components/EditableCell";
+import { ProvenanceHoverCard } from "@/components/ProvenanceHoverCard";
+import { formatUsd, type NormalizedAmount } from "@/lib/amounts";
+import type { FundraiseData } from "@/types/fundraise";
+
+const usdHint = (amount: NormalizedAmount | null | undefined) =>
+  amount && amount.currency !== "USD" && amount.usd_value !== null
+    ? `≈ ${formatUsd(amount.usd_value)} (${amount.fx_year} rate)`
+    : null;
+
+interface AmountCellProps {
+  row: FundraiseData;
+}
+
+/**
+ * The uploaded amount, with the amount found during enrichment underneath
+ * when there is one. Both can be corrected by hand.
+ */
+export const AmountCell = ({ row }: AmountCellProps) => {
+  const extracted = row.amount_extracted;
+  const userHint = usdHint(row.amount_user);
+  const extractedHint = usdHint(extracted);
+  const enriched = row.status === "completed" || row.status === "needs_review";
+
+  return (
+    <div className="space-y-1">
+      <EditableCell row={row} field="amount_raised">
+        {row.amount_raised}
+      </EditableCell>
+      {userHint && <div className="text-xs text-gray-500">{userHint}</div>}
+
+      {extracted && extracted.original_text !== row.amount_raised ? (
+        <EditableCell row={row} field="amount_extracted">
+          <ProvenanceHoverCard
+            provenance={row.field_provenance?.amount_extracted}
+          >
+            <div className="text-xs text-gray-400">
+              Found: {extracted.original_text}
+              {extractedHint && ` ${extractedHint}`}
+            </div>
+          </ProvenanceHoverCard>
+        </EditableCell>
+      ) : (
+        !extracted &&
+        enriched && (
+          <EditableCell row={row} field="amount_extracted">
+            <div className="text-xs text-gray-500">Found: N/A</div>
+          </EditableCell>
+        )
+      )}
+
+      {row.amount_mismatch && (
+        <Badge
+          className="bg-orange-500/20 text-orange-400 border border-orange-500/30 text-xs"
+          title="The uploaded and extracted amounts differ by more than 10%"
+        >
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Mismatch
+        </Badge>
+      )}
+    </div>
+  );
+};
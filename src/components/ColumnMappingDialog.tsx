@@ -0,0 +1,336 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, Save, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useMappingProfiles,
+  useSaveMappingProfile,
+} from "@/hooks/use-mapping-profiles";
+import {
+  TARGET_FIELDS,
+  assignColumn,
+  findMatchingProfile,
+  guessColumnMapping,
+  mapSourceRows,
+  mappingFromProfile,
+  missingRequiredFields,
+} from "@/lib/column-mapping";
+import type {
+  ColumnMapping,
+  ImportDraftRow,
+  ParsedTable,
+  TargetField,
+} from "@/types/import";
+
+const PREVIEW_ROWS = 5;
+
+// Radix Select items cannot have an empty value
+const IGNORE = "__ignore__";
+const NO_PROFILE = "__none__";
+
+interface SheetMappingState {
+  mapping: ColumnMapping;
+  profileId: string;
+  profileName: string;
+  detectedProfile: string | null;
+}
+
+interface ColumnMappingDialogProps {
+  table: ParsedTable | null;
+  open: boolean;
+  // Where this sheet sits among the sheets being imported
+  sheetIndex: number;
+  sheetCount: number;
+  // Upload-wide number of the table's first row
+  firstRow: number;
+  onBack?: () => void;
+  onCancel: () => void;
+  onConfirm: (rows: ImportDraftRow[]) => void;
+}
+
+export const ColumnMappingDialog = ({
+  table,
+  open,
+  sheetIndex,
+  sheetCount,
+  firstRow,
+  onBack,
+  onCancel,
+  onConfirm,
+}: ColumnMappingDialogProps) => {
+  const { data: profiles = [], isLoading: profilesLoading } =
+    useMappingProfiles();
+  const saveProfile = useSaveMappingProfile();
+  const { toast } = useToast();
+
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [profileId, setProfileId] = useState<string>(NO_PROFILE);
+  const [profileName, setProfileName] = useState("");
+  const [detectedProfile, setDetectedProfile] = useState<string | null>(null);
+  const initializedFor = useRef<ParsedTable | null>(null);
+  // Choices made for each sheet, kept while stepping back and forth
+  const savedSheets = useRef(new WeakMap<ParsedTable, SheetMappingState>());
+
+  useEffect(() => {
+    if (table && initializedFor.current === table) {
+      savedSheets.current.set(table, {
+        mapping,
+        profileId,
+        profileName,
+        detectedProfile,
+      });
+    }
+  }, [table, mapping, profileId, profileName, detectedProfile]);
+
+  // Each new sheet starts from the best saved profile, or from a guess based
+  // on the header names when none fits.
+  useEffect(() => {
+    if (!table || profilesLoading || initializedFor.current === table) return;
+    initializedFor.current = table;
+
+    const saved = savedSheets.current.get(table);
+    if (saved) {
+      setMapping(saved.mapping);
+      setProfileId(saved.profileId);
+      setProfileName(saved.profileName);
+      setDetectedProfile(saved.detectedProfile);
+      return;
+    }
+
+    const profile = findMatchingProfile(table.columns, profiles);
+    setMapping(
+      profile
+        ? mappingFromProfile(profile, table.columns)
+        : guessColumnMapping(table.columns)
+    );
+    setProfileId(profile?.id ?? NO_PROFILE);
+    setProfileName(profile?.name ?? "");
+    setDetectedProfile(profile?.name ?? null);
+  }, [table, profiles, profilesLoading]);
+
+  const rows = useMemo(
+    () => (table ? mapSourceRows(table, mapping, firstRow) : []),
+    [table, mapping, firstRow]
+  );
+  const withCompany = rows.filter((row) => row.values.company_name).length;
+  const missing = missingRequiredFields(mapping);
+
+  const handleProfileChange = (value: string) => {
+    if (!table) return;
+    const profile = profiles.find((candidate) => candidate.id === value);
+
+    setProfileId(value);
+    setProfileName(profile?.name ?? "");
+    setMapping(
+      profile
+        ? mappingFromProfile(profile, table.columns)
+        : guessColumnMapping(table.columns)
+    );
+  };
+
+  const handleColumnChange = (column: string, value: string) => {
+    setMapping((current) =>
+      assignColumn(
+        current,
+        column,
+        value === IGNORE ? null : (value as TargetField)
+      )
+    );
+  };
+
+  const handleSaveProfile = async () => {
+    if (!table || !profileName.trim()) return;
+
+    try {
+      const saved = await saveProfile.mutateAsync({
+        name: profileName.trim(),
+        source_columns: table.columns,
+        mapping,
+      });
+      setProfileId(saved.id);
+      toast({
+        title: "Mapping profile saved",
+        description: `Files with the same columns will use "${saved.name}" automatically`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save mapping profile",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open && table !== null}
+      onOpenChange={(isOpen) => !isOpen && onCancel()}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            Map columns from {table?.fileName}
+            {table?.sheetName ? `, sheet "${table.sheetName}"` : ""}
+            {sheetCount > 1 ? ` (${sheetIndex + 1} of ${sheetCount})` : ""}
+          </DialogTitle>
+          <DialogDescription>
+            Choose which field each column fills. Ignored columns are not
+            imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-muted-foreground">Profile</span>
+          <Select value={profileId} onValueChange={handleProfileChange}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROFILE}>Guess from headers</SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {detectedProfile && (
+            <Badge className="bg-green-500/20 text-green-300 border border-green-500/30 font-normal">
+              <Wand2 className="h-3 w-3 mr-1" />
+              Detected "{detectedProfile}"
+            </Badge>
+          )}
+        </div>
+
+        <div className="max-h-[50vh] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {table?.columns.map((column) => (
+                  <TableHead key={column} className="min-w-[180px] align-top">
+                    <div className="py-2 space-y-2">
+                      <div className="font-medium truncate" title={column}>
+                        {column}
+                      </div>
+                      <Select
+                        value={mapping[column] ?? IGNORE}
+                        onValueChange={(value) =>
+                          handleColumnChange(column, value)
+                        }
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE}>Ignore</SelectItem>
+                          {TARGET_FIELDS.map(({ field, label, required }) => (
+                            <SelectItem key={field} value={field}>
+                              {label}
+                              {required ? " *" : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {table?.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                <TableRow key={index}>
+                  {table.columns.map((column) => (
+                    <TableCell
+                      key={column}
+                      className={`text-xs ${mapping[column] ? "" : "text-muted-foreground"}`}
+                    >
+                      {row[column] === undefined || row[column] === null
+                        ? ""
+                        : String(row[column])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+          {missing.length > 0 ? (
+            <span className="flex items-center gap-2 text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              Map a column to {missing.map(({ label }) => label).join(", ")}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">
+              {withCompany} of {rows.length} rows have a company name
+            </span>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Input
+              value={profileName}
+              onChange={(event) => setProfileName(event.target.value)}
+              placeholder="Profile name, e.g. Crunchbase export"
+              className="h-9 w-64"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSaveProfile}
+              disabled={!profileName.trim() || saveProfile.isPending}
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save profile
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          {onBack ? (
+            <Button variant="outline" onClick={onBack}>
+              Previous sheet
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={() => onConfirm(rows)}
+            disabled={missing.length > 0 || withCompany === 0}
+          >
+            {sheetIndex < sheetCount - 1
+              ? "Next sheet"
+              : `Review ${firstRow + rows.length} rows`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
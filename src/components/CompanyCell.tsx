@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Building2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useUpdateCompany } from "@/hooks/use-companies";
+import { useToast } from "@/hooks/use-toast";
+import type { Company, FundraiseData } from "@/types/fundraise";
+
+const splitList = (text: string) =>
+  text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+interface CompanyCellProps {
+  row: FundraiseData;
+  company?: Company;
+}
+
+/**
+ * The uploaded company name. Rows linked to a company can edit its aliases
+ * and domains, which uploads and article matching use to recognise it.
+ */
+export const CompanyCell = ({ row, company }: CompanyCellProps) => {
+  const [aliases, setAliases] = useState("");
+  const [domains, setDomains] = useState("");
+  const updateCompany = useUpdateCompany();
+  const { toast } = useToast();
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open || !company) return;
+    setAliases(company.aliases.join(", "));
+    setDomains(company.domains.join(", "));
+  };
+
+  const handleSave = async () => {
+    if (!company) return;
+
+    try {
+      await updateCompany.mutateAsync({
+        id: company.id,
+        aliases: splitList(aliases),
+        domains: splitList(domains),
+      });
+      toast({ title: `Saved ${company.name}` });
+    } catch (error) {
+      toast({
+        title: "Could not save company",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-1">
+      <span>{row.company_name}</span>
+      {company && (
+        <Popover onOpenChange={handleOpenChange}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5 text-gray-500 hover:text-white"
+              title="Company aliases and domains"
+            >
+              <Building2 className="h-3 w-3" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 space-y-3">
+            <div>
+              <div className="font-medium">{company.name}</div>
+              <div className="text-xs text-muted-foreground">
+                Matched as "{company.normalized_name}"
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`aliases-${row.id}`}>Aliases</Label>
+              <Input
+                id={`aliases-${row.id}`}
+                value={aliases}
+                onChange={(e) => setAliases(e.target.value)}
+                placeholder="Rocket Lab USA, RKLB"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`domains-${row.id}`}>Domains</Label>
+              <Input
+                id={`domains-${row.id}`}
+                value={domains}
+                onChange={(e) => setDomains(e.target.value)}
+                placeholder="rocketlabusa.com"
+              />
+            </div>
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={updateCompany.isPending}
+            >
+              {updateCompany.isPending ? "Saving..." : "Save"}
+            </Button>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
@@ -1,180 +1,228 @@
 // Hello 
-import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import { ExternalLink, Eye, Download } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { Eye, ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
 import {
-  Table,
   TableBody,
-  TableCell,
   TableHead,
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-
-interface FundraiseData {
-  id: string;
-  company_name: string;
-  date_raised: string;
-  amount_raised: string;
-  investors: string;
-  press_url_1?: string;
-  press_url_2?: string;
-  press_url_3?: string;
-  investor_contacts?: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
-}
+import { DataTableRow } from "@/components/DataTableRow";
+import { DataTableToolbar } from "@/components/DataTableToolbar";
+import { EnrichmentTraceSheet } from "@/components/EnrichmentTraceSheet";
+import { ExportDialog } from "@/components/ExportDialog";
+import { useTableFilters } from "@/hooks/use-table-filters";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { applyTableFilters, type SortColumn } from "@/lib/table-filters";
+import type {
+  Company,
+  FundraiseData,
+  InvestorContact,
+  InvestorFirm,
+  RoundInvestor,
+} from "@/types/fundraise";
 
 interface DataTableProps {
   data: FundraiseData[];
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  contactsByRound?: Map<string, InvestorContact[]>;
+  companiesById?: Map<string, Company>;
+  investorsByRound?: Map<string, RoundInvestor[]>;
+  firmsById?: Map<string, InvestorFirm>;
 }
 
-export const DataTable = ({ data }: DataTableProps) => {
-  const getStatusBadge = (status: string) => {
-    const variants = {
-      pending: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
-      processing: "bg-blue-500/20 text-blue-400 border-blue-500/30",
-      completed: "bg-green-500/20 text-green-400 border-green-500/30",
-      error: "bg-red-500/20 text-red-400 border-red-500/30",
-    };
+// Shared defaults, so memoized rows see the same objects on every render
+const NO_CONTACTS: InvestorContact[] = [];
+const NO_INVESTORS: RoundInvestor[] = [];
+const NO_CONTACTS_BY_ROUND = new Map<string, InvestorContact[]>();
+const NO_COMPANIES = new Map<string, Company>();
+const NO_INVESTORS_BY_ROUND = new Map<string, RoundInvestor[]>();
+const NO_FIRMS = new Map<string, InvestorFirm>();
 
-    return (
-      <Badge className={`${variants[status as keyof typeof variants]} border`}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
-      </Badge>
-    );
+const COLUMN_COUNT = 10;
+
+// Height of a row before it is measured
+const ESTIMATED_ROW_HEIGHT = 57;
+
+export const DataTable = ({
+  data,
+  selectedIds = [],
+  onSelectionChange,
+  contactsByRound = NO_CONTACTS_BY_ROUND,
+  companiesById = NO_COMPANIES,
+  investorsByRound = NO_INVESTORS_BY_ROUND,
+  firmsById = NO_FIRMS,
+}: DataTableProps) => {
+  const [filters, setFilters] = useTableFilters();
+  // Looked up by id so the open trace follows realtime updates to the row
+  const [traceRowId, setTraceRowId] = useState<string | null>(null);
+  const traceRow = traceRowId ? data.find((row) => row.id === traceRowId) ?? null : null;
+  const rows = useMemo(
+    () => applyTableFilters(data, filters, { contactsByRound, investorsByRound, firmsById }),
+    [data, filters, contactsByRound, investorsByRound, firmsById]
+  );
+  const rowIds = useMemo(() => rows.map((row) => row.id), [rows]);
+  const { scrollRef, measureElement, indexes, paddingTop, paddingBottom } = useVirtualRows({
+    keys: rowIds,
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+  });
+
+  const selected = new Set(selectedIds);
+  const allSelected = rows.length > 0 && rows.every((row) => selected.has(row.id));
+
+  // Read through a ref so toggling one row does not re-render the others
+  const selectedIdsRef = useRef(selectedIds);
+  selectedIdsRef.current = selectedIds;
+
+  const toggleRow = useCallback(
+    (id: string, checked: boolean) => {
+      const next = new Set(selectedIdsRef.current);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      onSelectionChange?.([...next]);
+    },
+    [onSelectionChange]
+  );
+
+  // Rows hidden by the filters keep their selection
+  const toggleAll = (checked: boolean) => {
+    const next = new Set(selected);
+    for (const row of rows) {
+      if (checked) {
+        next.add(row.id);
+      } else {
+        next.delete(row.id);
+      }
+    }
+    onSelectionChange?.([...next]);
   };
 
-  const renderPressUrl = (url: string | undefined, index: number) => {
-    if (!url || url === 'N/A') {
-      return <span className="text-gray-500 text-xs">N/A</span>;
+  // Clicking a column header sorts ascending, then descending, then not at all
+  const toggleSort = (column: SortColumn) => {
+    const { sort } = filters;
+    if (sort?.column !== column) {
+      setFilters({ sort: { column, direction: 'asc' } });
+    } else if (sort.direction === 'asc') {
+      setFilters({ sort: { column, direction: 'desc' } });
+    } else {
+      setFilters({ sort: null });
     }
-    
+  };
+
+  const renderSortableHead = (column: SortColumn, label: string, className = '') => {
+    const direction = filters.sort?.column === column ? filters.sort.direction : null;
+    const Icon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+
     return (
-      <a
-        href={url}
-        target="_blank"
-        rel="noopener noreferrer"
-        className="text-blue-400 hover:text-blue-300 text-xs flex items-center gap-1 max-w-[120px] truncate"
-        title={url}
+      <TableHead
+        className={`text-gray-300 ${className}`}
+        aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : undefined}
       >
-        <ExternalLink className="h-3 w-3 flex-shrink-0" />
-        Press {index}
-      </a>
+        <button
+          type="button"
+          onClick={() => toggleSort(column)}
+          className="flex items-center gap-1 hover:text-white"
+        >
+          {label}
+          <Icon className={`h-3 w-3 ${direction ? 'text-white' : 'text-gray-500'}`} />
+        </button>
+      </TableHead>
     );
   };
 
-  const exportToCSV = () => {
-    const headers = [
-      'Company Name',
-      'Date Raised',
-      'Amount Raised',
-      'Original Investors',
-      'Press URL 1',
-      'Press URL 2',
-      'Press URL 3',
-      'Investor Names',
-      'Status'
-    ];
-
-    const csvContent = [
-      headers.join(','),
-      ...data.map(row => [
-        row.company_name,
-        row.date_raised,
-        row.amount_raised,
-        row.investors,
-        row.press_url_1 || '',
-        row.press_url_2 || '',
-        row.press_url_3 || '',
-        row.investor_contacts || '',
-        row.status
-      ].map(field => `"${field}"`).join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'space_fundraises_enriched.csv';
-    a.click();
-    window.URL.revokeObjectURL(url);
-  };
-
   return (
     <div className="bg-black/20 backdrop-blur-sm border border-gray-700 rounded-xl p-6">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-white">Fundraise Data</h2>
-        <Button
-          onClick={exportToCSV}
-          className="bg-gradient-to-r from-purple-500 to-pink-600 hover:from-purple-600 hover:to-pink-700 text-white border-0"
-        >
-          <Download className="h-4 w-4 mr-2" />
-          Export CSV
-        </Button>
+        <ExportDialog
+          rows={data}
+          visibleRows={rows}
+          selectedIds={selectedIds}
+          context={{ contactsByRound, companiesById, investorsByRound, firmsById }}
+        />
       </div>
 
-      <div className="overflow-x-auto">
-        <Table>
-          <TableHeader>
+      {data.length > 0 && (
+        <DataTableToolbar
+          filters={filters}
+          onChange={setFilters}
+          visibleCount={rows.length}
+          totalCount={data.length}
+        />
+      )}
+
+      {/* Only the rows scrolled into view are rendered */}
+      <div ref={scrollRef} className="relative max-h-[75vh] overflow-auto">
+        <table className="w-full caption-bottom text-sm">
+          <TableHeader className="sticky top-0 z-10 bg-gray-900">
             <TableRow className="border-gray-700">
-              <TableHead className="text-gray-300 min-w-[150px]">Company</TableHead>
-              <TableHead className="text-gray-300">Date</TableHead>
-              <TableHead className="text-gray-300">Amount Raised</TableHead>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  aria-label="Select all rows"
+                  className="border-gray-500"
+                />
+              </TableHead>
+              {renderSortableHead('company_name', 'Company', 'min-w-[150px]')}
+              {renderSortableHead('date_raised', 'Date')}
+              {renderSortableHead('amount', 'Amount Raised')}
               <TableHead className="text-gray-300 min-w-[150px]">Original Investors</TableHead>
               <TableHead className="text-gray-300 min-w-[120px]">Press URL 1</TableHead>
               <TableHead className="text-gray-300 min-w-[120px]">Press URL 2</TableHead>
               <TableHead className="text-gray-300 min-w-[120px]">Press URL 3</TableHead>
               <TableHead className="text-gray-300 min-w-[200px]">Investor Names</TableHead>
-              <TableHead className="text-gray-300">Status</TableHead>
+              {renderSortableHead('status', 'Status')}
             </TableRow>
           </TableHeader>
           <TableBody>
-            {data.map((row) => (
-              <TableRow key={row.id} className="border-gray-700 hover:bg-gray-800/30">
-                <TableCell className="font-medium text-white">
-                  {row.company_name}
-                </TableCell>
-                <TableCell className="text-gray-300">{row.date_raised}</TableCell>
-                <TableCell className="text-gray-300 font-medium">
-                  {row.amount_raised}
-                </TableCell>
-                <TableCell className="text-gray-300 max-w-xs truncate">
-                  {row.investors}
-                </TableCell>
-                <TableCell>
-                  {renderPressUrl(row.press_url_1, 1)}
-                </TableCell>
-                <TableCell>
-                  {renderPressUrl(row.press_url_2, 2)}
-                </TableCell>
-                <TableCell>
-                  {renderPressUrl(row.press_url_3, 3)}
-                </TableCell>
-                <TableCell className="text-gray-300 max-w-xs">
-                  {row.investor_contacts && row.investor_contacts !== 'N/A' ? (
-                    <div className="text-xs leading-relaxed">
-                      {row.investor_contacts.length > 150 
-                        ? `${row.investor_contacts.substring(0, 150)}...`
-                        : row.investor_contacts
-                      }
-                    </div>
-                  ) : (
-                    <span className="text-gray-500">N/A</span>
-                  )}
-                </TableCell>
-                <TableCell>{getStatusBadge(row.status)}</TableCell>
-              </TableRow>
+            {paddingTop > 0 && (
+              <tr aria-hidden="true">
+                <td colSpan={COLUMN_COUNT} style={{ height: paddingTop }} />
+              </tr>
+            )}
+            {indexes.map((index) => rows[index]).map((row) => (
+              <DataTableRow
+                key={row.id}
+                ref={measureElement}
+                row={row}
+                selected={selected.has(row.id)}
+                onToggle={toggleRow}
+                onOpenTrace={setTraceRowId}
+                company={row.company_id ? companiesById.get(row.company_id) : undefined}
+                investors={investorsByRound.get(row.id) ?? NO_INVESTORS}
+                contacts={contactsByRound.get(row.id) ?? NO_CONTACTS}
+                firmsById={firmsById}
+              />
             ))}
+            {paddingBottom > 0 && (
+              <tr aria-hidden="true">
+                <td colSpan={COLUMN_COUNT} style={{ height: paddingBottom }} />
+              </tr>
+            )}
           </TableBody>
-        </Table>
+        </table>
       </div>
 
+      <EnrichmentTraceSheet row={traceRow} onClose={() => setTraceRowId(null)} />
+
       {data.length === 0 && (
         <div className="text-center py-12">
           <Eye className="h-12 w-12 text-gray-600 mx-auto mb-4" />
           <p className="text-gray-400">No data uploaded yet</p>
         </div>
       )}
+
+      {data.length > 0 && rows.length === 0 && (
+        <div className="text-center py-12">
+          <p className="text-gray-400">No rows match the search and filters</p>
+        </div>
+      )}
     </div>
   );
 };
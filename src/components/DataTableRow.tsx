@@ -0,0 +1,208 @@
+import { forwardRef, memo } from "react";
+import { AlertTriangle, ExternalLink, ListTree } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TableCell, TableRow } from "@/components/ui/table";
+import { AmountCell } from "@/components/AmountCell";
+import { CompanyCell } from "@/components/CompanyCell";
+import { EditHistoryPopover } from "@/components/EditHistoryPopover";
+import { EditableCell } from "@/components/EditableCell";
+import { InvestorContactsCell } from "@/components/InvestorContactsCell";
+import { InvestorsCell } from "@/components/InvestorsCell";
+import { ProvenanceHoverCard } from "@/components/ProvenanceHoverCard";
+import type {
+  Company,
+  FundraiseData,
+  InvestorContact,
+  InvestorFirm,
+  RoundInvestor,
+} from "@/types/fundraise";
+
+const getStatusBadge = (status: string, reviewReasons?: string[]) => {
+  const variants = {
+    pending: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+    processing: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+    completed: "bg-green-500/20 text-green-400 border-green-500/30",
+    needs_review: "bg-orange-500/20 text-orange-400 border-orange-500/30",
+    error: "bg-red-500/20 text-red-400 border-red-500/30",
+  };
+
+  return (
+    <Badge
+      className={`${variants[status as keyof typeof variants]} border`}
+      title={status === "needs_review" ? reviewReasons?.join("\n") : undefined}
+    >
+      {status === "needs_review"
+        ? "Needs review"
+        : status.charAt(0).toUpperCase() + status.slice(1)}
+    </Badge>
+  );
+};
+
+const renderPressUrl = (row: FundraiseData, index: 1 | 2 | 3) => {
+  const url = row[`press_url_${index}`];
+  if (!url || url === "N/A") {
+    return <span className="text-gray-500 text-xs">N/A</span>;
+  }
+
+  return (
+    <ProvenanceHoverCard
+      provenance={row.field_provenance?.[`press_url_${index}`]}
+    >
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-400 hover:text-blue-300 text-xs flex items-center gap-1 max-w-[120px] truncate"
+        title={url}
+      >
+        <ExternalLink className="h-3 w-3 flex-shrink-0" />
+        Press {index}
+      </a>
+    </ProvenanceHoverCard>
+  );
+};
+
+const renderExtractionErrors = (row: FundraiseData) => {
+  const errors = row.extraction_errors ?? [];
+  if (errors.length === 0) return null;
+
+  const details = errors
+    .map(
+      (error) =>
+        `${error.task} (${error.provider}/${error.model}): ${error.message}`
+    )
+    .join("\n");
+
+  return (
+    <span
+      className="text-yellow-400"
+      title={`${errors.length} invalid model answer(s):\n${details}`}
+      aria-label={`${errors.length} invalid model answers`}
+    >
+      <AlertTriangle className="h-4 w-4" />
+    </span>
+  );
+};
+
+interface DataTableRowProps {
+  row: FundraiseData;
+  selected: boolean;
+  onToggle: (id: string, checked: boolean) => void;
+  onOpenTrace: (id: string) => void;
+  company?: Company;
+  investors: RoundInvestor[];
+  contacts: InvestorContact[];
+  firmsById: Map<string, InvestorFirm>;
+}
+
+/**
+ * One round in DataTable. Rows only render again when their own data
+ * changes, so realtime updates during enrichment touch one row at a time.
+ */
+export const DataTableRow = memo(
+  forwardRef<HTMLTableRowElement, DataTableRowProps>(
+    (
+      {
+        row,
+        selected,
+        onToggle,
+        onOpenTrace,
+        company,
+        investors,
+        contacts,
+        firmsById,
+      },
+      ref
+    ) => (
+      <TableRow
+        ref={ref}
+        data-key={row.id}
+        data-state={selected ? "selected" : undefined}
+        className="border-gray-700 hover:bg-gray-800/30 data-[state=selected]:bg-blue-500/10"
+      >
+        <TableCell>
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onToggle(row.id, checked === true)}
+            aria-label={`Select ${row.company_name}`}
+            className="border-gray-500"
+          />
+        </TableCell>
+        <TableCell className="font-medium text-white">
+          <EditableCell row={row} field="company_name">
+            <CompanyCell row={row} company={company} />
+          </EditableCell>
+          {row.source_sheet && (
+            <div className="text-xs font-normal text-gray-500">
+              Sheet: {row.source_sheet}
+            </div>
+          )}
+        </TableCell>
+        <TableCell className="text-gray-300">
+          <EditableCell row={row} field="date_raised">
+            {row.date_raised}
+          </EditableCell>
+        </TableCell>
+        <TableCell className="text-gray-300 font-medium">
+          <AmountCell row={row} />
+        </TableCell>
+        <TableCell className="text-gray-300">
+          <EditableCell row={row} field="investors">
+            <InvestorsCell
+              row={row}
+              investors={investors}
+              firmsById={firmsById}
+            />
+          </EditableCell>
+        </TableCell>
+        <TableCell>
+          <EditableCell row={row} field="press_url_1">
+            {renderPressUrl(row, 1)}
+          </EditableCell>
+        </TableCell>
+        <TableCell>
+          <EditableCell row={row} field="press_url_2">
+            {renderPressUrl(row, 2)}
+          </EditableCell>
+        </TableCell>
+        <TableCell>
+          <EditableCell row={row} field="press_url_3">
+            {renderPressUrl(row, 3)}
+          </EditableCell>
+        </TableCell>
+        <TableCell className="text-gray-300 max-w-xs">
+          <EditableCell row={row} field="investor_contacts">
+            <ProvenanceHoverCard
+              provenance={row.field_provenance?.investor_contacts}
+            >
+              <InvestorContactsCell
+                row={row}
+                contacts={contacts}
+                firmsById={firmsById}
+              />
+            </ProvenanceHoverCard>
+          </EditableCell>
+        </TableCell>
+        <TableCell>
+          <div className="flex items-center gap-2">
+            {getStatusBadge(row.status, row.review_reasons)}
+            {renderExtractionErrors(row)}
+            <EditHistoryPopover row={row} />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-gray-500 hover:text-white"
+              title="Enrichment trace"
+              onClick={() => onOpenTrace(row.id)}
+            >
+              <ListTree className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
+    )
+  )
+);
+DataTableRow.displayName = "DataTableRow";
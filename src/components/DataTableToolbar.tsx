@@ -0,0 +1,142 @@
+import { Filter, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  EMPTY_FILTERS,
+  FUNDRAISE_STATUSES,
+  hasActiveFilters,
+  type TableFilters,
+} from "@/lib/table-filters";
+
+const inputClassName =
+  "bg-gray-800/50 border-gray-600 text-gray-200 placeholder:text-gray-500";
+
+const toNumber = (value: string) =>
+  value.trim() === "" || !Number.isFinite(Number(value)) ? null : Number(value);
+
+interface DataTableToolbarProps {
+  filters: TableFilters;
+  onChange: (update: Partial<TableFilters>) => void;
+  visibleCount: number;
+  totalCount: number;
+}
+
+/**
+ * Search box and status, date and amount filters above the table.
+ */
+export const DataTableToolbar = ({
+  filters,
+  onChange,
+  visibleCount,
+  totalCount,
+}: DataTableToolbarProps) => {
+  const toggleStatus = (status: TableFilters["statuses"][number]) =>
+    onChange({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter((s) => s !== status)
+        : [...filters.statuses, status],
+    });
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2">
+      <div className="relative min-w-[240px] flex-1">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
+        <Input
+          value={filters.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder="Search companies, investors and contacts"
+          aria-label="Search"
+          className={`${inputClassName} pl-9`}
+        />
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            className="bg-gray-800/50 border-gray-600 text-gray-200 hover:bg-gray-800 hover:text-white"
+          >
+            <Filter className="h-4 w-4 mr-2" />
+            Status
+            {filters.statuses.length > 0 && ` (${filters.statuses.length})`}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {FUNDRAISE_STATUSES.map(({ status, label }) => (
+            <DropdownMenuCheckboxItem
+              key={status}
+              checked={filters.statuses.includes(status)}
+              onCheckedChange={() => toggleStatus(status)}
+              // Keep the menu open to pick several statuses
+              onSelect={(e) => e.preventDefault()}
+            >
+              {label}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <div className="flex items-center gap-1 text-sm text-gray-400">
+        <Input
+          type="date"
+          value={filters.dateFrom ?? ""}
+          onChange={(e) => onChange({ dateFrom: e.target.value || null })}
+          aria-label="Raised on or after"
+          className={`${inputClassName} w-[150px]`}
+        />
+        to
+        <Input
+          type="date"
+          value={filters.dateTo ?? ""}
+          onChange={(e) => onChange({ dateTo: e.target.value || null })}
+          aria-label="Raised on or before"
+          className={`${inputClassName} w-[150px]`}
+        />
+      </div>
+
+      <div className="flex items-center gap-1 text-sm text-gray-400">
+        <Input
+          type="number"
+          min={0}
+          value={filters.amountMin ?? ""}
+          onChange={(e) => onChange({ amountMin: toNumber(e.target.value) })}
+          placeholder="Min $M"
+          aria-label="Minimum amount in millions of USD"
+          className={`${inputClassName} w-[100px]`}
+        />
+        to
+        <Input
+          type="number"
+          min={0}
+          value={filters.amountMax ?? ""}
+          onChange={(e) => onChange({ amountMax: toNumber(e.target.value) })}
+          placeholder="Max $M"
+          aria-label="Maximum amount in millions of USD"
+          className={`${inputClassName} w-[100px]`}
+        />
+      </div>
+
+      {hasActiveFilters(filters) && (
+        <>
+          <Button
+            variant="ghost"
+            onClick={() => onChange({ ...EMPTY_FILTERS, sort: filters.sort })}
+            className="text-gray-300 hover:bg-gray-800 hover:text-white"
+          >
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+          <span className="text-sm text-gray-400">
+            {visibleCount} of {totalCount} rows
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
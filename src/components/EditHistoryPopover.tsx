@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useFundraiseEdits } from "@/hooks/use-fundraise-edits";
+import { EDITABLE_FIELD_LABELS, formatEditValue } from "@/lib/edits-api";
+import type { FundraiseData } from "@/types/fundraise";
+
+interface EditHistoryPopoverProps {
+  row: FundraiseData;
+}
+
+/**
+ * Who changed which values of a row by hand, newest first.
+ */
+export const EditHistoryPopover = ({ row }: EditHistoryPopoverProps) => {
+  const [open, setOpen] = useState(false);
+  const {
+    data: edits = [],
+    isLoading,
+    error,
+  } = useFundraiseEdits(row.id, open);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-gray-500 hover:text-white"
+          title="Edit history"
+        >
+          <History className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[28rem] space-y-3" align="end">
+        <div className="font-medium">Edit history</div>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : edits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No values of this row were changed by hand.
+          </p>
+        ) : (
+          <ul className="max-h-80 space-y-3 overflow-y-auto text-sm">
+            {edits.map((edit) => (
+              <li key={edit.id} className="space-y-1 border-l-2 pl-3">
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    {EDITABLE_FIELD_LABELS[edit.field] ?? edit.field} ·{" "}
+                    {edit.edited_by ?? "Unknown"}
+                  </span>
+                  <span>{new Date(edit.edited_at).toLocaleString()}</span>
+                </div>
+                <div className="break-words">
+                  <span className="text-muted-foreground line-through">
+                    {formatEditValue(edit.old_value)}
+                  </span>{" "}
+                  → {formatEditValue(edit.new_value)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
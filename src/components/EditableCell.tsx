@@ -0,0 +1,146 @@
+import { useState, type ReactNode } from "react";
+import { Lock, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useEditFundraiseData,
+  useEditorName,
+} from "@/hooks/use-fundraise-edits";
+import { useToast } from "@/hooks/use-toast";
+import { EDITABLE_FIELD_LABELS, editableValue } from "@/lib/edits-api";
+import type { EditableField, FundraiseData } from "@/types/fundraise";
+
+const MULTILINE_FIELDS: EditableField[] = ["investors", "investor_contacts"];
+
+const HINTS: Partial<Record<EditableField, string>> = {
+  amount_extracted: "e.g. $12 million. Leave empty to clear it.",
+  investor_contacts:
+    "Replaces the contacts extracted for this round. Leave empty to clear it.",
+  investors: "Firms are linked again from the new text.",
+};
+
+interface EditableCellProps {
+  row: FundraiseData;
+  field: EditableField;
+  children: ReactNode;
+}
+
+/**
+ * A table cell that can be corrected by hand. Saved corrections are logged
+ * under the editor's name and kept when the row is enriched again.
+ */
+export const EditableCell = ({ row, field, children }: EditableCellProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [editorName, setEditorName] = useEditorName();
+  const editRow = useEditFundraiseData();
+  const { toast } = useToast();
+
+  const label = EDITABLE_FIELD_LABELS[field];
+  const locked = row.locked_fields?.includes(field);
+  const multiline = MULTILINE_FIELDS.includes(field);
+  const canSave = editorName.trim() !== "" && !editRow.isPending;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(editableValue(row, field));
+    setOpen(next);
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    try {
+      await editRow.mutateAsync({
+        row,
+        values: { [field]: draft },
+        editedBy: editorName.trim(),
+      });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: `Could not save ${label.toLowerCase()}`,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="group flex items-start gap-1">
+      <div className="min-w-0">{children}</div>
+      {locked && (
+        <span
+          className="mt-1 flex-shrink-0 text-gray-500"
+          title="Corrected by hand; re-enrichment keeps this value"
+          aria-label="Corrected by hand"
+        >
+          <Lock className="h-3 w-3" />
+        </span>
+      )}
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-5 flex-shrink-0 text-gray-500 opacity-0 hover:text-white group-hover:opacity-100 focus-visible:opacity-100"
+            title={`Edit ${label.toLowerCase()}`}
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-96 space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor={`${field}-${row.id}`}>{label}</Label>
+            {multiline ? (
+              <Textarea
+                id={`${field}-${row.id}`}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={4}
+              />
+            ) : (
+              <Input
+                id={`${field}-${row.id}`}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleSave();
+                  }
+                }}
+              />
+            )}
+            {HINTS[field] && (
+              <p className="text-xs text-muted-foreground">{HINTS[field]}</p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`editor-${field}-${row.id}`}>Your name</Label>
+            <Input
+              id={`editor-${field}-${row.id}`}
+              value={editorName}
+              onChange={(e) => setEditorName(e.target.value)}
+              placeholder="Shown in the edit history"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!canSave}>
+              {editRow.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useEnrichmentHistory } from "@/hooks/use-enrichment-job";
+import { SEARCH_PROVIDER_LABELS } from "@/lib/search-providers";
+import type { EnrichmentJob, EnrichmentJobStatus } from "@/types/enrichment";
+
+const statusStyles: Record<EnrichmentJobStatus, string> = {
+  queued: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+  running: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  paused: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  cancelled: "bg-orange-500/20 text-orange-400 border-orange-500/30",
+  completed: "bg-green-500/20 text-green-400 border-green-500/30",
+  failed: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+const formatDuration = (job: EnrichmentJob) => {
+  if (!job.started_at) return "—";
+  const end = job.finished_at ? new Date(job.finished_at) : new Date();
+  const minutes = Math.round(
+    (end.getTime() - new Date(job.started_at).getTime()) / 60000
+  );
+  return minutes < 60
+    ? `${minutes} min`
+    : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const describeOptions = (job: EnrichmentJob) =>
+  [
+    job.options.stages?.join(" + "),
+    job.options.searchProviders
+      ?.map((id) => SEARCH_PROVIDER_LABELS[id])
+      .join(", "),
+    job.options.overwriteEdits && "overwrote hand corrections",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+interface EnrichmentHistoryDialogProps {
+  projectId: string;
+}
+
+/**
+ * The project's enrichment runs, newest first, with what each one did.
+ */
+export const EnrichmentHistoryDialog = ({
+  projectId,
+}: EnrichmentHistoryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const {
+    data: jobs = [],
+    isLoading,
+    error,
+  } = useEnrichmentHistory(projectId, open);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-800"
+        >
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Enrichment history</DialogTitle>
+          <DialogDescription>
+            Runs of this project, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            This project has not been enriched yet.
+          </p>
+        ) : (
+          <div className="max-h-[55vh] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Options</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(job.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        className={`${statusStyles[job.status]} border`}
+                        title={job.last_error ?? undefined}
+                      >
+                        {job.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {job.completed_items} / {job.total_items}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {job.failed_items}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {job.skipped_items}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDuration(job)}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {describeOptions(job)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,242 @@
+import type { ReactNode } from "react";
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { TraceModelOutcome, TraceStepStatus } from "@/types/enrichment";
+import type { FundraiseData } from "@/types/fundraise";
+
+const stepStyles: Record<TraceStepStatus, string> = {
+  ok: "bg-green-500/20 text-green-400 border-green-500/30",
+  skipped: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+  failed: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+const outcomeStyles: Record<TraceModelOutcome, string> = {
+  accepted: "bg-green-500/20 text-green-400 border-green-500/30",
+  unaccepted: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  failed: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+const outcomeLabels: Record<TraceModelOutcome, string> = {
+  accepted: "Used",
+  unaccepted: "Nothing found",
+  failed: "Invalid",
+};
+
+const formatTime = (at: string) => new Date(at).toLocaleTimeString();
+
+const duration = (from: string, to: string) => {
+  const ms = new Date(to).getTime() - new Date(from).getTime();
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const Section = ({
+  title,
+  count,
+  children,
+}: {
+  title: string;
+  count?: number;
+  children: ReactNode;
+}) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-medium">
+      {title}
+      {count !== undefined && (
+        <span className="ml-1 text-muted-foreground">({count})</span>
+      )}
+    </h3>
+    {children}
+  </section>
+);
+
+interface EnrichmentTraceSheetProps {
+  row: FundraiseData | null;
+  onClose: () => void;
+}
+
+/**
+ * What the last enrichment run did for a row: its steps, the search queries,
+ * each candidate URL with its score or why it was rejected, and the model
+ * calls, so an "N/A" can be explained.
+ */
+export const EnrichmentTraceSheet = ({
+  row,
+  onClose,
+}: EnrichmentTraceSheetProps) => {
+  const trace = row?.enrichment_trace;
+
+  return (
+    <Sheet open={row !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full space-y-6 overflow-y-auto sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>{row?.company_name}</SheetTitle>
+          <SheetDescription>
+            {trace
+              ? `Enriched ${new Date(trace.started_at).toLocaleString()}` +
+                (trace.finished_at
+                  ? ` in ${duration(trace.started_at, trace.finished_at)}`
+                  : "") +
+                ` · Stages: ${trace.stages.join(", ")}`
+              : "How this row was enriched"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {!trace ? (
+          <p className="text-sm text-muted-foreground">
+            This row has not been enriched since traces were recorded. Enrich it
+            again to see what was searched and why.
+          </p>
+        ) : (
+          <>
+            {row.review_reasons && row.review_reasons.length > 0 && (
+              <Section title="Sent to review">
+                <ul className="list-disc space-y-1 pl-5 text-sm">
+                  {row.review_reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </Section>
+            )}
+
+            <Section title="Steps" count={trace.steps.length}>
+              <ol className="space-y-2 text-sm">
+                {trace.steps.map((step, i) => (
+                  <li key={i} className="space-y-1 border-l-2 pl-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{step.name}</span>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {formatTime(step.started_at)} ·{" "}
+                        {duration(step.started_at, step.finished_at)}
+                        <Badge className={`${stepStyles[step.status]} border`}>
+                          {step.status}
+                        </Badge>
+                      </div>
+                    </div>
+                    {step.detail && (
+                      <p className="break-words text-muted-foreground">
+                        {step.detail}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </Section>
+
+            <Section title="Search queries" count={trace.queries.length}>
+              {trace.queries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No search queries were sent.
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {trace.queries.map((query, i) => (
+                    <li key={i} className="flex justify-between gap-2">
+                      <span className="break-words">
+                        <span className="text-muted-foreground">
+                          {query.provider}:
+                        </span>{" "}
+                        {query.query}
+                      </span>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {query.results} results
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="Candidate URLs" count={trace.candidates.length}>
+              {trace.candidates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No candidate URLs were found.
+                </p>
+              ) : (
+                <ul className="space-y-3 text-sm">
+                  {trace.candidates.map((candidate, i) => (
+                    <li key={i} className="space-y-1 border-l-2 pl-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <a
+                          href={candidate.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex min-w-0 items-center gap-1 text-blue-400 hover:text-blue-300"
+                          title={candidate.url}
+                        >
+                          <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                          <span className="truncate">
+                            {candidate.title || candidate.url}
+                          </span>
+                        </a>
+                        <Badge
+                          className={`${
+                            candidate.accepted
+                              ? stepStyles.ok
+                              : stepStyles.failed
+                          } shrink-0 border`}
+                        >
+                          {candidate.accepted ? "Kept" : "Rejected"}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {candidate.provider} #{candidate.rank}
+                        {candidate.score !== null &&
+                          ` · Score ${candidate.score}`}
+                        {candidate.reason && ` · ${candidate.reason}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="Model calls" count={trace.model_calls.length}>
+              {trace.model_calls.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No models were called.
+                </p>
+              ) : (
+                <ul className="space-y-3 text-sm">
+                  {trace.model_calls.map((call, i) => (
+                    <li key={i} className="space-y-1 border-l-2 pl-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <span>
+                          {call.task}{" "}
+                          <span className="text-muted-foreground">
+                            ({call.provider}/{call.model})
+                          </span>
+                        </span>
+                        <Badge
+                          className={`${outcomeStyles[call.outcome]} shrink-0 border`}
+                        >
+                          {outcomeLabels[call.outcome]}
+                        </Badge>
+                      </div>
+                      {call.url && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          {call.url}
+                        </p>
+                      )}
+                      {call.message && (
+                        <p className="break-words text-xs text-muted-foreground">
+                          {call.message}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  EXPORT_FORMATS,
+  EXPORT_LAYOUTS,
+  buildExport,
+  defaultExportFileName,
+  downloadExport,
+  type ExportContext,
+  type ExportFormat,
+  type ExportLayout,
+} from "@/lib/export";
+import type { FundraiseData } from "@/types/fundraise";
+
+type ExportScope = "all" | "filtered" | "selected";
+
+const allColumnIds = (layout: ExportLayout) =>
+  EXPORT_LAYOUTS[layout].columns.map((column) => column.id);
+
+interface ExportDialogProps {
+  rows: FundraiseData[];
+  // The rows left by the table's search and filters, in table order
+  visibleRows: FundraiseData[];
+  selectedIds: string[];
+  context: ExportContext;
+}
+
+/**
+ * Exports the table's rounds, or the investor people found for them, as CSV,
+ * XLSX or JSON, with a choice of columns and of which rows to include.
+ */
+export const ExportDialog = ({
+  rows,
+  visibleRows,
+  selectedIds,
+  context,
+}: ExportDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [layout, setLayout] = useState<ExportLayout>("rounds");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [scope, setScope] = useState<ExportScope>("all");
+  const [columnIds, setColumnIds] = useState(() => allColumnIds("rounds"));
+  const [fileName, setFileName] = useState("");
+
+  const selected = new Set(selectedIds);
+  const selectedRows = rows.filter((row) => selected.has(row.id));
+  const filtered = visibleRows.length !== rows.length;
+  const scopedRows = {
+    all: rows,
+    filtered: visibleRows,
+    selected: selectedRows,
+  }[scope];
+  const { columns, description, perContact } = EXPORT_LAYOUTS[layout];
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setScope(
+        selectedRows.length > 0 ? "selected" : filtered ? "filtered" : "all"
+      );
+      setFileName(defaultExportFileName(layout));
+    }
+    setOpen(next);
+  };
+
+  const changeLayout = (next: ExportLayout) => {
+    setLayout(next);
+    setColumnIds(allColumnIds(next));
+    setFileName(defaultExportFileName(next));
+  };
+
+  const toggleColumn = (id: string, checked: boolean) =>
+    setColumnIds((current) =>
+      checked ? [...current, id] : current.filter((c) => c !== id)
+    );
+
+  const handleExport = () => {
+    try {
+      const file = buildExport({
+        rows: scopedRows,
+        layout,
+        format,
+        columnIds,
+        context,
+      });
+      if (file.count === 0) {
+        throw new Error(
+          perContact
+            ? "No investor contacts were found for these rows"
+            : "There are no rows to export"
+        );
+      }
+      downloadExport(file, fileName.trim() || defaultExportFileName(layout));
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Could not export",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button className="bg-gradient-to-r from-purple-500 to-pink-600 hover:from-purple-600 hover:to-pink-700 text-white border-0">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label>Layout</Label>
+            <Select
+              value={layout}
+              onValueChange={(value) => changeLayout(value as ExportLayout)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_LAYOUTS) as ExportLayout[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {EXPORT_LAYOUTS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {EXPORT_FORMATS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Rows</Label>
+            <Select
+              value={scope}
+              onValueChange={(value) => setScope(value as ExportScope)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All rows ({rows.length})</SelectItem>
+                <SelectItem value="filtered" disabled={!filtered}>
+                  Filtered rows ({visibleRows.length})
+                </SelectItem>
+                <SelectItem
+                  value="selected"
+                  disabled={selectedRows.length === 0}
+                >
+                  Selected rows ({selectedRows.length})
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Columns</Label>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setColumnIds(allColumnIds(layout))}
+              >
+                All
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setColumnIds([])}
+              >
+                None
+              </Button>
+            </div>
+          </div>
+          <div className="grid max-h-64 grid-cols-2 gap-2 overflow-y-auto rounded-md border p-3">
+            {columns.map((column) => (
+              <label
+                key={column.id}
+                className="flex items-center gap-2 text-sm"
+              >
+                <Checkbox
+                  checked={columnIds.includes(column.id)}
+                  onCheckedChange={(checked) =>
+                    toggleColumn(column.id, checked === true)
+                  }
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+          {perContact && (
+            <p className="text-xs text-muted-foreground">
+              Rounds without extracted investor contacts are left out.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="export-file-name">File name</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="export-file-name"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+            />
+            <span className="text-sm text-muted-foreground">
+              .{EXPORT_FORMATS[format].extension}
+            </span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={columnIds.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,233 +1,206 @@
 import { useState, useCallback } from "react";
-import { Upload, FileSpreadsheet, AlertCircle } from "lucide-react";
-import * as XLSX from "xlsx";
-import Papa from "papaparse";
+import {
+  Upload,
+  FileSpreadsheet,
+  AlertCircle,
+  ClipboardPaste,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ColumnMappingDialog } from "@/components/ColumnMappingDialog";
+import { ImportReviewDialog } from "@/components/ImportReviewDialog";
+import { MergeConflictsDialog } from "@/components/MergeConflictsDialog";
+import { SheetSelectionDialog } from "@/components/SheetSelectionDialog";
+import { useCompanies } from "@/hooks/use-companies";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-
-interface FundraiseData {
-  id: string;
-  company_name: string;
-  date_raised: string;
-  amount_raised: string;
-  investors: string;
-  status: "pending" | "processing" | "completed" | "error";
-}
-
-const normalizeColumnName = (name: string): string => {
-  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
-};
-
-const formatDate = (dateValue: string | number): string => {
-  // Handle Excel date number format
-  if (!isNaN(Number(dateValue))) {
-    const excelDate = new Date((Number(dateValue) - 25569) * 86400 * 1000);
-    if (!isNaN(excelDate.getTime())) {
-      return excelDate.toISOString().split('T')[0]; // Returns YYYY-MM-DD
-    }
-  }
-  
-  // Try parsing as regular date string
-  const date = new Date(dateValue);
-  if (!isNaN(date.getTime())) {
-    return date.toISOString().split('T')[0];
-  }
-  
-  // If all parsing fails, return the original value
-  return String(dateValue);
-};
-
-const findColumnValue = (row: unknown, possibleNames: string[]): string => {
-  // First try exact matches
-  for (const name of possibleNames) {
-    if (row[name] !== undefined && row[name] !== null && row[name] !== "") {
-      return String(row[name]).trim();
-    }
-  }
-
-  // Then try normalized matches
-  const rowKeys = Object.keys(row);
-  for (const name of possibleNames) {
-    const normalizedTarget = normalizeColumnName(name);
-    for (const key of rowKeys) {
-      if (
-        normalizeColumnName(key) === normalizedTarget &&
-        row[key] !== undefined &&
-        row[key] !== null &&
-        row[key] !== ""
-      ) {
-        return String(row[key]).trim();
-      }
-    }
-  }
-
-  return "";
-};
+import {
+  PASTED_TABLE_NAME,
+  SUPPORTED_EXTENSIONS,
+  parseFile,
+  parsePastedTable,
+} from "@/lib/file-parsers";
+import { findImportConflicts } from "@/lib/import-merge";
+import { draftsToFundraiseData } from "@/lib/import-rows";
+import type { FundraiseData, NewFundraiseData } from "@/types/fundraise";
+import type {
+  ImportConflict,
+  ImportDraftRow,
+  ImportPlan,
+  ParsedTable,
+} from "@/types/import";
 
 interface FileUploadProps {
-  onFileUpload: (data: FundraiseData[]) => void;
+  // Rows already saved, checked for rounds the upload repeats
+  existingRows?: FundraiseData[];
+  onFileUpload: (plan: ImportPlan) => Promise<void>;
 }
 
-export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
+export const FileUpload = ({
+  existingRows = [],
+  onFileUpload,
+}: FileUploadProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [showPaste, setShowPaste] = useState(false);
+  const [pastedText, setPastedText] = useState("");
+  // Sheets of a workbook waiting for the user to pick which to import
+  const [sheetChoices, setSheetChoices] = useState<ParsedTable[] | null>(null);
+  // Tables being mapped one after another, and the rows mapped so far
+  const [tables, setTables] = useState<ParsedTable[]>([]);
+  const [mappingIndex, setMappingIndex] = useState(0);
+  const [mappedRows, setMappedRows] = useState<ImportDraftRow[][]>([]);
+  const [draftRows, setDraftRows] = useState<ImportDraftRow[] | null>(null);
+  // Reviewed rows waiting for a decision on rounds that are already saved
+  const [reviewedRows, setReviewedRows] = useState<NewFundraiseData[]>([]);
+  const [conflicts, setConflicts] = useState<ImportConflict[] | null>(null);
+  const { data: companies } = useCompanies();
   const { toast } = useToast();
 
+  const startMapping = useCallback((selected: ParsedTable[]) => {
+    setSheetChoices(null);
+    setTables(selected);
+    setMappingIndex(0);
+    setMappedRows([]);
+  }, []);
+
+  const handleSheetMapped = (rows: ImportDraftRow[]) => {
+    const mapped = [...mappedRows.slice(0, mappingIndex), rows];
+    setMappedRows(mapped);
+
+    if (mappingIndex < tables.length - 1) {
+      setMappingIndex(mappingIndex + 1);
+    } else {
+      setDraftRows(mapped.flat());
+    }
+  };
+
+  // Rows are numbered across the whole upload, so each sheet starts where
+  // the previous one ended
+  const firstRow = tables
+    .slice(0, mappingIndex)
+    .reduce((total, table) => total + table.rows.length, 0);
+
+  const openTables = useCallback(
+    (parsed: ParsedTable[], name: string) => {
+      const tables = parsed.filter(
+        (table) => table.rows.length > 0 && table.columns.length > 0
+      );
+      if (tables.length === 0) {
+        throw new Error(
+          "The file appears to be empty or contains no data rows."
+        );
+      }
+
+      setFileName(name);
+      if (tables.length > 1) {
+        setSheetChoices(tables);
+      } else {
+        startMapping(tables);
+      }
+    },
+    [startMapping]
+  );
+
   const processFile = useCallback(
     async (file: File) => {
       setIsProcessing(true);
-      const fileExtension = file.name.split(".").pop()?.toLowerCase();
 
       try {
-        let rawData: unknown[] = [];
-
-        if (fileExtension === "csv") {
-          await new Promise((resolve, reject) => {
-            Papa.parse(file, {
-              header: true,
-              complete: (results) => {
-                rawData = results.data;
-                resolve(rawData);
-              },
-              error: (error) => {
-                reject(new Error(`CSV parsing error: ${error.message}`));
-              },
-            });
-          });
-        } else if (fileExtension === "xlsx" || fileExtension === "xls") {
-          const arrayBuffer = await file.arrayBuffer();
-          const data = new Uint8Array(arrayBuffer);
-          const workbook = XLSX.read(data, { type: "array" });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          rawData = XLSX.utils.sheet_to_json(worksheet);
-        } else {
-          throw new Error(
-            "Unsupported file type. Please upload a CSV or XLSX file."
-          );
-        }
-
-        console.log("Raw data from file:", rawData);
-        console.log(
-          "First row keys:",
-          rawData.length > 0 ? Object.keys(rawData[0]) : "No data"
-        );
-
-        if (!rawData || rawData.length === 0) {
-          throw new Error(
-            "The file appears to be empty or contains no data rows."
-          );
-        }
+        openTables(await parseFile(file), file.name);
+      } catch (error) {
+        console.error("File processing error:", error);
+        toast({
+          title: "Error processing file",
+          description:
+            error instanceof Error
+              ? error.message
+              : "Please check your file format and try again",
+          variant: "destructive",
+        });
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [openTables, toast]
+  );
 
-        // Define possible column name variations - Updated with your new column names
-        const companyNameVariations = [
-          "company_name",
-          "Company Name",
-          "company name",
-          "Company",
-          "company",
-          "name",
-          "Name",
-          "Organization Name",
-          "organization name",
-          "organization",
-          "Organization",
-        ];
-        const dateRaisedVariations = [
-          "date_raised",
-          "Date Raised",
-          "date raised",
-          "Date",
-          "date",
-          "funding date",
-          "Funding Date",
-          "Announced Date",
-          "announced date",
-          "announcement date",
-          "Announcement Date",
-        ];
-        const amountRaisedVariations = [
-          "amount_raised",
-          "Amount Raised",
-          "amount raised",
-          "Amount",
-          "amount",
-          "funding amount",
-          "Funding Amount",
-          "raised",
-          "Raised",
-        ];
-        const investorsVariations = [
-          "investors",
-          "Investors",
-          "investor",
-          "Investor",
-          "vc",
-          "VC",
-          "fund",
-          "Fund",
-          "Lead Investors",
-          "lead investors",
-          "lead investor",
-          "Lead Investor",
-        ];
-
-        const processedData: FundraiseData[] = [];
-
-        for (let i = 0; i < rawData.length; i++) {
-          const row = rawData[i];
-
-          const companyName = findColumnValue(row, companyNameVariations);
-          const dateRaised = findColumnValue(row, dateRaisedVariations);
-          const amountRaised = findColumnValue(row, amountRaisedVariations);
-          const investors = findColumnValue(row, investorsVariations);
-
-          // Only include rows that have at least a company name
-          if (companyName) {
-            processedData.push({
-              company_name: companyName,
-              date_raised: dateRaised ? formatDate(dateRaised) : "Not specified",
-              amount_raised: amountRaised || "Not specified",
-              investors: investors || "Not specified",
-              status: "pending" as const,
-              id: i.toString(),
-            });
-          }
-        }
+  const handlePaste = () => {
+    try {
+      openTables([parsePastedTable(pastedText)], PASTED_TABLE_NAME);
+      setPastedText("");
+      setShowPaste(false);
+    } catch (error) {
+      toast({
+        title: "Could not read the pasted table",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Paste rows copied from a spreadsheet, CSV or JSON",
+        variant: "destructive",
+      });
+    }
+  };
 
-        console.log("Processed data:", processedData);
+  const closeImport = useCallback(() => {
+    setSheetChoices(null);
+    setTables([]);
+    setMappedRows([]);
+    setDraftRows(null);
+    setReviewedRows([]);
+    setConflicts(null);
+  }, []);
 
-        if (processedData.length === 0) {
-          const availableColumns =
-            rawData.length > 0 ? Object.keys(rawData[0]).join(", ") : "None";
-          throw new Error(
-            `No valid data found. Make sure your file has a column for company names. Available columns: ${availableColumns}`
-          );
-        }
+  const saveImport = useCallback(
+    async (plan: ImportPlan) => {
+      setIsImporting(true);
 
-        onFileUpload(processedData);
+      try {
+        await onFileUpload(plan);
+        closeImport();
         toast({
           title: "File uploaded successfully!",
-          description: `Processed and saved ${processedData.length} records to database`,
+          description: [
+            `Added ${plan.insert.length} records`,
+            plan.overwrite.length > 0 &&
+              `updated ${plan.overwrite.length} saved records`,
+            plan.skipped > 0 && `skipped ${plan.skipped} duplicates`,
+          ]
+            .filter(Boolean)
+            .join(", "),
         });
       } catch (error) {
-        console.error("File processing error:", error);
+        console.error("File import error:", error);
         toast({
-          title: "Error processing file",
+          title: "Error saving file",
           description:
             error instanceof Error
               ? error.message
-              : "Please check your file format and try again",
+              : "Please try the import again",
           variant: "destructive",
         });
       } finally {
-        setIsProcessing(false);
+        setIsImporting(false);
       }
     },
-    [onFileUpload, toast]
+    [closeImport, onFileUpload, toast]
   );
 
+  // Rounds that are already saved need a decision before anything is written
+  const handleReviewed = () => {
+    if (!draftRows) return;
+    const rows = draftsToFundraiseData(draftRows);
+    const found = findImportConflicts(rows, existingRows, companies);
+
+    if (found.length > 0) {
+      setReviewedRows(rows);
+      setConflicts(found);
+    } else {
+      saveImport({ insert: rows, overwrite: [], skipped: 0 });
+    }
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -252,6 +225,8 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Lets the same file be picked again after cancelling the mapping step
+    e.target.value = "";
     if (file) {
       processFile(file);
     }
@@ -272,7 +247,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
         {isProcessing ? (
           <div className="space-y-4">
             <div className="animate-spin mx-auto h-12 w-12 border-4 border-blue-400 border-t-transparent rounded-full"></div>
-            <p className="text-gray-300">Processing and saving your file...</p>
+            <p className="text-gray-300">Reading your file...</p>
           </div>
         ) : (
           <div className="space-y-6">
@@ -288,18 +263,21 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
                 Upload Your Fundraise Data
               </h3>
               <p className="text-gray-300 mb-4">
-                Drag and drop your CSV or XLSX file here, or click to browse
+                Drag and drop your CSV, TSV, XLSX or JSON file here, or click to
+                browse
               </p>
 
               <div className="flex items-center justify-center gap-2 text-sm text-gray-400 mb-6">
                 <AlertCircle className="h-4 w-4" />
-                <span>Supports CSV and XLSX files</span>
+                <span>
+                  Supports CSV, TSV, XLSX, JSON and newline-delimited JSON
+                </span>
               </div>
             </div>
 
             <input
               type="file"
-              accept=".csv,.xlsx,.xls"
+              accept={SUPPORTED_EXTENSIONS.join(",")}
               onChange={handleFileInput}
               className="hidden"
               id="file-upload"
@@ -317,13 +295,44 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
         )}
       </div>
 
+      <div className="mt-4 text-center">
+        {showPaste ? (
+          <div className="space-y-3 text-left">
+            <Textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder="Paste rows copied from Google Sheets or Excel, CSV text or JSON. The first row must hold the column names."
+              className="min-h-[160px] font-mono text-xs bg-black/30 border-gray-600 text-gray-200"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setShowPaste(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handlePaste} disabled={!pastedText.trim()}>
+                Read pasted table
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            variant="ghost"
+            className="text-gray-300 hover:text-white"
+            onClick={() => setShowPaste(true)}
+          >
+            <ClipboardPaste className="h-4 w-4 mr-2" />
+            Paste a table instead
+          </Button>
+        )}
+      </div>
+
       <div className="mt-8 bg-black/20 backdrop-blur-sm border border-gray-700 rounded-lg p-6">
         <h4 className="text-lg font-semibold text-white mb-3">
-          Expected CSV/XLSX Format:
+          Expected Format:
         </h4>
         <div className="text-sm text-gray-300 space-y-2">
           <p>
-            <strong>Required columns (flexible naming):</strong>
+            After the file is read you can check which column fills each field.
+            Common headers are matched automatically:
           </p>
           <ul className="list-disc list-inside space-y-1 ml-4">
             <li>
@@ -335,7 +344,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
               "date_raised", "Date", or "Funding Date"
             </li>
             <li>
-              <strong>Amount Raised:</strong> "Amount Raised", "amount_raised",
+              <strong>Amount Raised:</strong> "Amount Raised", "Money Raised",
               "Amount", or "Funding Amount"
             </li>
             <li>
@@ -344,11 +353,52 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
             </li>
           </ul>
           <p className="text-xs text-gray-400 mt-3">
-            <strong>Note:</strong> Only Company Name (or Organization Name) is
-            required. Other fields will default to "Not specified" if missing.
+            <strong>Note:</strong> Only Company Name is required. Other fields
+            will default to "Not specified" if missing. Save a mapping as a
+            profile to reuse it for files with the same columns. Workbooks with
+            several sheets let you pick the sheets and map each one.
           </p>
         </div>
       </div>
+
+      <SheetSelectionDialog
+        fileName={fileName}
+        sheets={sheetChoices}
+        onCancel={closeImport}
+        onConfirm={startMapping}
+      />
+
+      <ColumnMappingDialog
+        table={tables[mappingIndex] ?? null}
+        open={draftRows === null}
+        sheetIndex={mappingIndex}
+        sheetCount={tables.length}
+        firstRow={firstRow}
+        onBack={
+          mappingIndex > 0 ? () => setMappingIndex(mappingIndex - 1) : undefined
+        }
+        onCancel={closeImport}
+        onConfirm={handleSheetMapped}
+      />
+
+      <ImportReviewDialog
+        fileName={fileName}
+        rows={conflicts ? null : draftRows}
+        isImporting={isImporting}
+        onRowsChange={setDraftRows}
+        onBack={() => setDraftRows(null)}
+        onCancel={closeImport}
+        onConfirm={handleReviewed}
+      />
+
+      <MergeConflictsDialog
+        rows={reviewedRows}
+        conflicts={conflicts}
+        isImporting={isImporting}
+        onBack={() => setConflicts(null)}
+        onCancel={closeImport}
+        onConfirm={saveImport}
+      />
     </div>
   );
 };
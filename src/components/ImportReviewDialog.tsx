@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle2 } from "lucide-react";
+import { TARGET_FIELDS } from "@/lib/column-mapping";
+import {
+  draftRowLabel,
+  draftsToFundraiseData,
+  validateDraftRows,
+} from "@/lib/import-rows";
+import type {
+  ImportDraftRow,
+  ImportIssue,
+  ImportIssueKind,
+  TargetField,
+} from "@/types/import";
+
+// Editing thousands of inputs at once is slow and nobody scrolls that far
+const MAX_VISIBLE_ROWS = 200;
+
+const issueLabels: Record<ImportIssueKind, string> = {
+  missing_company: "Skipped rows",
+  ambiguous_date: "Ambiguous dates",
+  partial_date: "Dates without a day",
+  unparseable_amount: "Unreadable amounts",
+  duplicate_company: "Duplicate companies",
+};
+
+const issueStyles: Record<ImportIssueKind, string> = {
+  missing_company: "bg-red-500/20 text-red-300 border-red-500/30",
+  ambiguous_date: "bg-yellow-500/20 text-yellow-300 border-yellow-500/30",
+  partial_date: "bg-yellow-500/20 text-yellow-300 border-yellow-500/30",
+  unparseable_amount: "bg-yellow-500/20 text-yellow-300 border-yellow-500/30",
+  duplicate_company: "bg-orange-500/20 text-orange-300 border-orange-500/30",
+};
+
+interface ImportReviewDialogProps {
+  fileName: string;
+  rows: ImportDraftRow[] | null;
+  isImporting: boolean;
+  onRowsChange: (rows: ImportDraftRow[]) => void;
+  onBack: () => void;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+export const ImportReviewDialog = ({
+  fileName,
+  rows,
+  isImporting,
+  onRowsChange,
+  onBack,
+  onCancel,
+  onConfirm,
+}: ImportReviewDialogProps) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const issues = useMemo(() => validateDraftRows(rows ?? []), [rows]);
+  const importCount = useMemo(
+    () => draftsToFundraiseData(rows ?? []).length,
+    [rows]
+  );
+
+  const issuesByRow = useMemo(() => {
+    const byRow = new Map<number, ImportIssue[]>();
+    for (const issue of issues) {
+      byRow.set(issue.source_row, [
+        ...(byRow.get(issue.source_row) ?? []),
+        issue,
+      ]);
+    }
+    return byRow;
+  }, [issues]);
+
+  const counts = useMemo(() => {
+    const byKind = new Map<ImportIssueKind, number>();
+    for (const issue of issues) {
+      byKind.set(issue.kind, (byKind.get(issue.kind) ?? 0) + 1);
+    }
+    return byKind;
+  }, [issues]);
+
+  // Rows stay listed once flagged, so fixing a value does not make the row
+  // jump away mid-edit and excluded rows can be brought back
+  const [flagged, setFlagged] = useState<Set<number>>(new Set());
+  useEffect(() => {
+    if (!rows) {
+      setFlagged(new Set());
+      return;
+    }
+    setFlagged((current) => {
+      const missing = rows.filter(
+        (row) =>
+          (row.excluded || issuesByRow.has(row.source_row)) &&
+          !current.has(row.source_row)
+      );
+      if (missing.length === 0) return current;
+      return new Set([...current, ...missing.map((row) => row.source_row)]);
+    });
+  }, [rows, issuesByRow]);
+
+  const visibleRows = (rows ?? []).filter(
+    (row) =>
+      showAll ||
+      flagged.has(row.source_row) ||
+      row.excluded ||
+      issuesByRow.has(row.source_row)
+  );
+  const excludedCount = rows?.filter((row) => row.excluded).length ?? 0;
+
+  const updateRow = (
+    sourceRow: number,
+    change: (row: ImportDraftRow) => ImportDraftRow
+  ) => {
+    if (!rows) return;
+    onRowsChange(
+      rows.map((row) => (row.source_row === sourceRow ? change(row) : row))
+    );
+  };
+
+  const setValue = (sourceRow: number, field: TargetField, value: string) =>
+    updateRow(sourceRow, (row) => ({
+      ...row,
+      values: { ...row.values, [field]: value },
+    }));
+
+  const setExcluded = (sourceRow: number, excluded: boolean) =>
+    updateRow(sourceRow, (row) => ({ ...row, excluded }));
+
+  return (
+    <Dialog
+      open={rows !== null}
+      onOpenChange={(open) => !open && !isImporting && onCancel()}
+    >
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Review {fileName} before importing</DialogTitle>
+          <DialogDescription>
+            Fix values in place or untick rows to leave them out. {importCount}{" "}
+            rows will be imported
+            {excludedCount > 0 ? `, ${excludedCount} excluded` : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {issues.length === 0 ? (
+              <span className="flex items-center gap-2 text-sm text-green-400">
+                <CheckCircle2 className="h-4 w-4" />
+                No problems found
+              </span>
+            ) : (
+              [...counts].map(([kind, count]) => (
+                <Badge
+                  key={kind}
+                  className={`${issueStyles[kind]} border font-normal`}
+                >
+                  {issueLabels[kind]}: {count}
+                </Badge>
+              ))
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={showAll ? "outline" : "secondary"}
+              size="sm"
+              onClick={() => setShowAll(false)}
+            >
+              Rows needing attention
+            </Button>
+            <Button
+              variant={showAll ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setShowAll(true)}
+            >
+              All rows
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-[55vh] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">Import</TableHead>
+                <TableHead className="w-24">Row</TableHead>
+                {TARGET_FIELDS.map(({ field, label }) => (
+                  <TableHead key={field} className="min-w-[160px]">
+                    {label}
+                  </TableHead>
+                ))}
+                <TableHead className="min-w-[240px]">Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.slice(0, MAX_VISIBLE_ROWS).map((row) => {
+                const rowIssues = issuesByRow.get(row.source_row) ?? [];
+                return (
+                  <TableRow
+                    key={row.source_row}
+                    className={row.excluded ? "opacity-50" : ""}
+                  >
+                    <TableCell>
+                      <Checkbox
+                        checked={!row.excluded}
+                        onCheckedChange={(checked) =>
+                          setExcluded(row.source_row, checked !== true)
+                        }
+                        aria-label={`Import ${draftRowLabel(row)}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {draftRowLabel(row)}
+                    </TableCell>
+                    {TARGET_FIELDS.map(({ field }) => {
+                      const fieldIssue = rowIssues.find(
+                        (issue) => issue.field === field
+                      );
+                      return (
+                        <TableCell key={field}>
+                          <Input
+                            value={row.values[field]}
+                            onChange={(event) =>
+                              setValue(
+                                row.source_row,
+                                field,
+                                event.target.value
+                              )
+                            }
+                            disabled={row.excluded}
+                            className={`h-8 text-xs ${
+                              fieldIssue?.kind === "missing_company"
+                                ? "border-red-500"
+                                : fieldIssue
+                                  ? "border-yellow-500"
+                                  : ""
+                            }`}
+                          />
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-xs space-y-1">
+                      {rowIssues.map((issue) => (
+                        <div key={issue.kind} className="text-gray-300">
+                          {issue.message}
+                        </div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {visibleRows.length === 0 && (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              Every row looks fine.
+            </p>
+          )}
+        </div>
+
+        {visibleRows.length > MAX_VISIBLE_ROWS && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {MAX_VISIBLE_ROWS} of {visibleRows.length} rows.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onBack} disabled={isImporting}>
+            Back to mapping
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={importCount === 0 || isImporting}
+          >
+            {isImporting ? "Importing..." : `Import ${importCount} rows`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
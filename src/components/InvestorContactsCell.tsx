@@ -0,0 +1,167 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, ExternalLink, Users } from "lucide-react";
+import type {
+  FundraiseData,
+  InvestorContact,
+  InvestorFirm,
+} from "@/types/fundraise";
+
+const VISIBLE_CHIPS = 3;
+
+const roleStyles: Record<InvestorContact["round_role"], string> = {
+  lead: "bg-purple-500/20 text-purple-300 border-purple-500/30",
+  participant: "bg-blue-500/20 text-blue-300 border-blue-500/30",
+  unknown: "bg-gray-500/20 text-gray-300 border-gray-500/30",
+};
+
+interface InvestorContactsCellProps {
+  row: FundraiseData;
+  contacts: InvestorContact[];
+  firmsById?: Map<string, InvestorFirm>;
+}
+
+export const InvestorContactsCell = ({
+  row,
+  contacts,
+  firmsById,
+}: InvestorContactsCellProps) => {
+  // The canonical firm when the extracted name resolved to one
+  const firmName = (contact: InvestorContact) =>
+    (contact.firm_id && firmsById?.get(contact.firm_id)?.name) || contact.firm;
+
+  // Rows enriched before contacts were stored separately only have the text
+  if (contacts.length === 0) {
+    return row.investor_contacts && row.investor_contacts !== "N/A" ? (
+      <div className="text-xs leading-relaxed">
+        {row.investor_contacts.length > 150
+          ? `${row.investor_contacts.substring(0, 150)}...`
+          : row.investor_contacts}
+      </div>
+    ) : (
+      <span className="text-gray-500">N/A</span>
+    );
+  }
+
+  const hidden = contacts.length - VISIBLE_CHIPS;
+
+  return (
+    <Dialog>
+      <div className="flex flex-wrap items-center gap-1">
+        {contacts.slice(0, VISIBLE_CHIPS).map((contact) => (
+          <Badge
+            key={contact.id}
+            className={`${roleStyles[contact.round_role]} border text-xs font-normal`}
+            title={[contact.title, firmName(contact)]
+              .filter(Boolean)
+              .join(", ")}
+          >
+            {contact.name}
+          </Badge>
+        ))}
+        <DialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs text-gray-400 hover:text-white"
+          >
+            <Users className="h-3 w-3 mr-1" />
+            {hidden > 0 ? `+${hidden} more` : "Details"}
+          </Button>
+        </DialogTrigger>
+      </div>
+
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Investor contacts for {row.company_name}</DialogTitle>
+          <DialogDescription>
+            {contacts.length} people found in the round's press coverage
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead>Firm</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Confidence</TableHead>
+              <TableHead>Evidence</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {contacts.map((contact) => (
+              <TableRow key={contact.id}>
+                <TableCell className="font-medium">{contact.name}</TableCell>
+                <TableCell>{contact.title ?? "—"}</TableCell>
+                <TableCell>
+                  {firmName(contact) ?? "—"}
+                  {contact.firm && firmName(contact) !== contact.firm && (
+                    <div className="text-xs text-muted-foreground">
+                      Written as {contact.firm}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    className={`${roleStyles[contact.round_role]} border capitalize`}
+                  >
+                    {contact.round_role}
+                  </Badge>
+                </TableCell>
+                <TableCell>{Math.round(contact.confidence * 100)}%</TableCell>
+                <TableCell className="max-w-xs space-y-1">
+                  {contact.source_snippet && (
+                    <p
+                      className="line-clamp-3 text-xs italic text-muted-foreground"
+                      title={contact.source_snippet}
+                    >
+                      "{contact.source_snippet}"
+                    </p>
+                  )}
+                  {!contact.source_verified && (
+                    <div className="flex items-center gap-1 text-xs text-orange-600">
+                      <AlertTriangle className="h-3 w-3" />
+                      Not found in the article
+                    </div>
+                  )}
+                  {contact.source_url ? (
+                    <a
+                      href={contact.source_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-500 hover:text-blue-400 flex items-center gap-1"
+                      title={contact.source_url}
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      Article
+                    </a>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
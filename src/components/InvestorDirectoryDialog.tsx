@@ -0,0 +1,353 @@
+import { useMemo, useState } from "react";
+import { Landmark, RefreshCw } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInvestorContacts } from "@/hooks/use-investor-contacts";
+import {
+  useInvestorFirms,
+  useMergeInvestorFirms,
+  useRelinkRoundInvestors,
+  useRoundInvestors,
+  useUpdateInvestorFirm,
+} from "@/hooks/use-investor-firms";
+import { useToast } from "@/hooks/use-toast";
+import { normalizeFirmName } from "@/lib/investors";
+import type { FundraiseData, InvestorFirm } from "@/types/fundraise";
+
+const MAX_VISIBLE_FIRMS = 200;
+
+const countBy = (ids: (string | null)[]) => {
+  const counts = new Map<string, number>();
+  for (const id of ids) {
+    if (id) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return counts;
+};
+
+interface InvestorDirectoryDialogProps {
+  rows: FundraiseData[];
+}
+
+/**
+ * The canonical investor firms with the rounds and contacts linked to them.
+ * Firms can be renamed, given aliases, or merged when two rows turn out to
+ * be the same firm.
+ */
+export const InvestorDirectoryDialog = ({
+  rows,
+}: InvestorDirectoryDialogProps) => {
+  const { data: firms = [] } = useInvestorFirms();
+  const { data: links = [] } = useRoundInvestors();
+  const { data: contacts = [] } = useInvestorContacts();
+  const updateFirm = useUpdateInvestorFirm();
+  const mergeFirms = useMergeInvestorFirms();
+  const relink = useRelinkRoundInvestors();
+  const { toast } = useToast();
+
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<InvestorFirm | null>(null);
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState("");
+  const [merge, setMerge] = useState<{
+    source: InvestorFirm;
+    target: InvestorFirm;
+  } | null>(null);
+
+  const roundCounts = useMemo(
+    () => countBy(links.map((link) => link.firm_id)),
+    [links]
+  );
+  const contactCounts = useMemo(
+    () => countBy(contacts.map((contact) => contact.firm_id)),
+    [contacts]
+  );
+
+  const visible = useMemo(() => {
+    const query = normalizeFirmName(search);
+    return firms
+      .filter(
+        (firm) =>
+          !query ||
+          [firm.name, ...firm.aliases].some((value) =>
+            normalizeFirmName(value).includes(query)
+          )
+      )
+      .sort(
+        (a, b) =>
+          (roundCounts.get(b.id) ?? 0) - (roundCounts.get(a.id) ?? 0) ||
+          a.name.localeCompare(b.name)
+      );
+  }, [firms, search, roundCounts]);
+
+  const reportError = (title: string, error: unknown) =>
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+
+  const startEditing = (firm: InvestorFirm) => {
+    setEditing(firm);
+    setName(firm.name);
+    setAliases(firm.aliases.join(", "));
+  };
+
+  const handleSave = async () => {
+    if (!editing || !name.trim()) return;
+
+    try {
+      await updateFirm.mutateAsync({
+        id: editing.id,
+        name,
+        aliases: aliases.split(","),
+      });
+      setEditing(null);
+    } catch (error) {
+      reportError("Could not save firm", error);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!merge) return;
+
+    try {
+      await mergeFirms.mutateAsync({
+        sourceId: merge.source.id,
+        targetId: merge.target.id,
+      });
+      toast({ title: `Merged ${merge.source.name} into ${merge.target.name}` });
+    } catch (error) {
+      reportError("Could not merge firms", error);
+    } finally {
+      setMerge(null);
+    }
+  };
+
+  const handleRelink = async () => {
+    try {
+      const linked = await relink.mutateAsync(rows);
+      toast({
+        title: "Investors re-read",
+        description: `${linked.length} firm links across ${rows.length} rounds`,
+      });
+    } catch (error) {
+      reportError("Could not re-read investors", error);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="bg-black/30 border-gray-600 text-gray-200 hover:bg-gray-800 hover:text-white"
+        >
+          <Landmark className="h-4 w-4 mr-2" />
+          Investor directory ({firms.length})
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Investor directory</DialogTitle>
+          <DialogDescription>
+            Every firm named in the investors column or on an extracted contact.
+            Aliases are other spellings of the firm; uploads and enrichment link
+            them to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search firms and aliases"
+          />
+          <Button
+            variant="outline"
+            onClick={handleRelink}
+            disabled={relink.isPending || rows.length === 0}
+            title="Parse the investors text of every round again"
+          >
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${relink.isPending ? "animate-spin" : ""}`}
+            />
+            Re-read investors
+          </Button>
+        </div>
+
+        <div className="max-h-[55vh] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Firm</TableHead>
+                <TableHead>Aliases</TableHead>
+                <TableHead className="w-20 text-right">Rounds</TableHead>
+                <TableHead className="w-20 text-right">Contacts</TableHead>
+                <TableHead className="w-64">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.slice(0, MAX_VISIBLE_FIRMS).map((firm) =>
+                editing?.id === firm.id ? (
+                  <TableRow key={firm.id}>
+                    <TableCell>
+                      <Input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell colSpan={3}>
+                      <Input
+                        value={aliases}
+                        onChange={(e) => setAliases(e.target.value)}
+                        placeholder="Comma-separated spellings"
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell className="space-x-2">
+                      <Button
+                        size="sm"
+                        onClick={handleSave}
+                        disabled={updateFirm.isPending || !name.trim()}
+                      >
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditing(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <TableRow key={firm.id}>
+                    <TableCell className="font-medium">{firm.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {firm.aliases.map((alias) => (
+                          <Badge
+                            key={alias}
+                            variant="outline"
+                            className="text-xs font-normal"
+                          >
+                            {alias}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {roundCounts.get(firm.id) ?? 0}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {contactCounts.get(firm.id) ?? 0}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => startEditing(firm)}
+                        >
+                          Edit
+                        </Button>
+                        <Select
+                          value=""
+                          onValueChange={(targetId) => {
+                            const target = firms.find(
+                              (other) => other.id === targetId
+                            );
+                            if (target) setMerge({ source: firm, target });
+                          }}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue placeholder="Merge into..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {firms
+                              .filter((other) => other.id !== firm.id)
+                              .map((other) => (
+                                <SelectItem key={other.id} value={other.id}>
+                                  {other.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {visible.length > MAX_VISIBLE_FIRMS && (
+          <p className="text-sm text-muted-foreground">
+            Showing {MAX_VISIBLE_FIRMS} of {visible.length} firms; search to
+            narrow the list.
+          </p>
+        )}
+
+        <AlertDialog
+          open={merge !== null}
+          onOpenChange={(open) => !open && setMerge(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Merge {merge?.source.name} into {merge?.target.name}?
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                Its rounds and contacts move to {merge?.target.name}, and{" "}
+                {merge?.source.name} and its aliases become aliases of{" "}
+                {merge?.target.name}. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleMerge}>Merge</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,63 @@
+import { Badge } from "@/components/ui/badge";
+import type {
+  FundraiseData,
+  InvestorFirm,
+  RoundInvestor,
+} from "@/types/fundraise";
+
+const VISIBLE_FIRMS = 4;
+
+const roleStyles: Record<RoundInvestor["round_role"], string> = {
+  lead: "bg-purple-500/20 text-purple-300 border-purple-500/30",
+  participant: "bg-gray-500/20 text-gray-300 border-gray-500/30",
+  unknown: "bg-gray-500/20 text-gray-300 border-gray-500/30",
+};
+
+interface InvestorsCellProps {
+  row: FundraiseData;
+  investors: RoundInvestor[];
+  firmsById: Map<string, InvestorFirm>;
+}
+
+/**
+ * The round's firms under their canonical names, leads first. Rounds whose
+ * investors text has not been resolved yet show the text as uploaded.
+ */
+export const InvestorsCell = ({
+  row,
+  investors,
+  firmsById,
+}: InvestorsCellProps) => {
+  const firms = investors.flatMap((investor) => {
+    const firm = firmsById.get(investor.firm_id);
+    return firm ? [{ ...investor, name: firm.name }] : [];
+  });
+
+  if (firms.length === 0) {
+    return <div className="max-w-xs truncate">{row.investors}</div>;
+  }
+
+  const hidden = firms.length - VISIBLE_FIRMS;
+
+  return (
+    <div className="flex max-w-xs flex-wrap gap-1" title={row.investors}>
+      {firms.slice(0, VISIBLE_FIRMS).map((firm) => (
+        <Badge
+          key={firm.firm_id}
+          className={`${roleStyles[firm.round_role]} border text-xs font-normal`}
+          title={
+            firm.source === "extraction"
+              ? `${firm.name} (found in press coverage)`
+              : firm.name
+          }
+        >
+          {firm.name}
+          {firm.round_role === "lead" && " (lead)"}
+        </Badge>
+      ))}
+      {hidden > 0 && (
+        <span className="text-xs text-gray-400">+{hidden} more</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { planImport } from "@/lib/import-merge";
+import type { NewFundraiseData } from "@/types/fundraise";
+import type { ImportConflict, ImportPlan, MergeAction } from "@/types/import";
+
+const actionLabels: Record<MergeAction, string> = {
+  keep_existing: "Keep existing",
+  overwrite: "Overwrite",
+  keep_both: "Keep both",
+};
+
+const ACTIONS = Object.keys(actionLabels) as MergeAction[];
+
+interface MergeConflictsDialogProps {
+  rows: NewFundraiseData[];
+  conflicts: ImportConflict[] | null;
+  isImporting: boolean;
+  onBack: () => void;
+  onCancel: () => void;
+  onConfirm: (plan: ImportPlan) => void;
+}
+
+export const MergeConflictsDialog = ({
+  rows,
+  conflicts,
+  isImporting,
+  onBack,
+  onCancel,
+  onConfirm,
+}: MergeConflictsDialogProps) => {
+  const [actions, setActions] = useState<Map<NewFundraiseData, MergeAction>>(
+    new Map()
+  );
+
+  useEffect(() => {
+    setActions(new Map());
+  }, [conflicts]);
+
+  const plan = useMemo(
+    () => planImport(rows, conflicts ?? [], actions),
+    [rows, conflicts, actions]
+  );
+
+  const setAction = (row: NewFundraiseData, action: MergeAction) =>
+    setActions((current) => new Map(current).set(row, action));
+
+  const setAll = (action: MergeAction) =>
+    setActions(new Map(conflicts?.map(({ row }) => [row, action])));
+
+  return (
+    <Dialog
+      open={conflicts !== null}
+      onOpenChange={(open) => !open && !isImporting && onCancel()}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            {conflicts?.length} rounds are already in the dataset
+          </DialogTitle>
+          <DialogDescription>
+            Rows match when the round date and amount are the same and the
+            company names refer to the same company, ignoring legal suffixes,
+            small spelling differences and known aliases. Choose whether to keep
+            the saved row, replace its uploaded values or add the new row next
+            to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Apply to all:</span>
+          {ACTIONS.map((action) => (
+            <Button
+              key={action}
+              variant="outline"
+              size="sm"
+              onClick={() => setAll(action)}
+            >
+              {actionLabels[action]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="max-h-[55vh] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Company</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead>Saved</TableHead>
+                <TableHead className="w-44">Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {conflicts?.map(({ row, existing }) => (
+                <TableRow key={`${existing.id}-${row.source_row}`}>
+                  <TableCell className="font-medium">
+                    {row.company_name}
+                    {row.company_name !== existing.company_name && (
+                      <div className="text-xs text-muted-foreground">
+                        Saved as {existing.company_name}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <div>{row.date_raised}</div>
+                    <div>{row.amount_raised}</div>
+                    <div className="text-muted-foreground truncate max-w-[220px]">
+                      {row.investors}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <div>{existing.date_raised}</div>
+                    <div>{existing.amount_raised}</div>
+                    <div className="text-muted-foreground truncate max-w-[220px]">
+                      {existing.investors}
+                    </div>
+                    <Badge variant="outline" className="mt-1 text-[10px]">
+                      {existing.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={actions.get(row) ?? "keep_existing"}
+                      onValueChange={(value) =>
+                        setAction(row, value as MergeAction)
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACTIONS.map((action) => (
+                          <SelectItem key={action} value={action}>
+                            {actionLabels[action]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {plan.insert.length} rows will be added, {plan.overwrite.length} saved
+          rows overwritten and {plan.skipped} uploaded rows skipped.
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onBack} disabled={isImporting}>
+            Back to review
+          </Button>
+          <Button
+            onClick={() => onConfirm(plan)}
+            disabled={
+              isImporting || plan.insert.length + plan.overwrite.length === 0
+            }
+          >
+            {isImporting ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
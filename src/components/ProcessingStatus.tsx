@@ -1,233 +1,487 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
-import { Play, Pause, RotateCcw, CheckCircle, AlertCircle } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Play,
+  Pause,
+  Square,
+  RotateCcw,
+  CheckCircle,
+  AlertCircle,
+  RefreshCw,
+  ClipboardCheck,
+} from "lucide-react";
+import { EnrichmentHistoryDialog } from "@/components/EnrichmentHistoryDialog";
+import { SearchProviderSettings } from "@/components/SearchProviderSettings";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import {
+  useCancelEnrichmentJob,
+  useLatestEnrichmentJob,
+  usePauseEnrichmentJob,
+  useResumeEnrichmentJob,
+  useSkippedJobRows,
+  useStartEnrichmentJob,
+} from "@/hooks/use-enrichment-job";
+import { useUpdateProject } from "@/hooks/use-projects";
+import {
+  isJobActive,
+  isJobOpen,
+  isJobStalled,
+} from "@/lib/enrichment-jobs-api";
+import { hasMissingFields } from "@/lib/fundraise-rows";
+import {
+  DEFAULT_SEARCH_PROVIDERS,
+  toSearchProviderSettings,
+  type SearchProviderSetting,
+} from "@/lib/search-providers";
+import type { EnrichmentOptions, EnrichmentStage } from "@/types/enrichment";
+import type { FundraiseData } from "@/types/fundraise";
+import type { Project } from "@/types/project";
+
+type StageChoice = "all" | EnrichmentStage;
+
+const STAGES: Record<StageChoice, EnrichmentStage[]> = {
+  all: ["search", "extract"],
+  search: ["search"],
+  extract: ["extract"],
+};
 
-interface FundraiseData {
-  id: string;
-  company_name: string;
-  date_raised: string;
-  amount_raised: string;
-  investors: string;
-  press_url_1?: string;
-  press_url_2?: string;
-  press_url_3?: string;
-  investor_contacts?: string;
-  status: "pending" | "processing" | "completed" | "error";
-}
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+
+const toStageChoice = (stages?: EnrichmentStage[]): StageChoice =>
+  stages?.length === 1 ? stages[0] : "all";
 
 interface ProcessingStatusProps {
-  isProcessing: boolean;
-  currentItem: string;
-  onStartProcessing: () => void;
-  totalItems: number;
-  data?: FundraiseData[];
-  onDataUpdate?: (updatedData: FundraiseData[]) => void;
+  project: Project;
+  data: FundraiseData[];
+  selectedIds?: string[];
 }
 
+/**
+ * Starts and controls enrichment runs of a project. The run options are
+ * saved to the project as they change and are read once on mount, so the
+ * component is remounted when the project changes.
+ */
 export const ProcessingStatus = ({
-  isProcessing,
-  currentItem,
-  onStartProcessing,
-  totalItems,
-  data = [],
-  onDataUpdate,
+  project,
+  data,
+  selectedIds = [],
 }: ProcessingStatusProps) => {
-  const [processed, setProcessed] = useState(0);
-  const [localIsProcessing, setLocalIsProcessing] = useState(false);
-  const [currentProcessingItem, setCurrentProcessingItem] = useState("");
+  const settings = project.enrichment_settings;
+  const [stageChoice, setStageChoice] = useState<StageChoice>(
+    toStageChoice(settings.stages)
+  );
+  const [concurrency, setConcurrency] = useState(
+    settings.concurrency ?? DEFAULT_CONCURRENCY
+  );
+  const [overwriteEdits, setOverwriteEdits] = useState(
+    settings.overwriteEdits ?? false
+  );
+  // Left undefined until changed so the server-side default order applies
+  const [searchProviders, setSearchProviders] = useState<
+    SearchProviderSetting[] | undefined
+  >(toSearchProviderSettings(settings.searchProviders));
+  const { data: job } = useLatestEnrichmentJob(project.id);
+  const startJob = useStartEnrichmentJob();
+  const updateProject = useUpdateProject();
+  const pauseJob = usePauseEnrichmentJob();
+  const resumeJob = useResumeEnrichmentJob();
+  const cancelJob = useCancelEnrichmentJob();
+  const { data: skippedRows = [] } = useSkippedJobRows(job);
+  const previousStatus = useRef(job?.status);
   const { toast } = useToast();
 
-  const startEnrichment = async () => {
-    setLocalIsProcessing(true);
-    setProcessed(0);
-
-    const pendingItems = data.filter((item) => item.status === "pending");
-
-    if (pendingItems.length === 0) {
+  useEffect(() => {
+    if (previousStatus.current === "running" && job?.status === "completed") {
       toast({
-        title: "No items to process",
-        description: "All items have already been processed",
+        title: "Processing complete",
+        description: `Successfully processed ${job.completed_items} of ${job.total_items} items`,
       });
-      setLocalIsProcessing(false);
-      return;
     }
+    previousStatus.current = job?.status;
+  }, [job, toast]);
+
+  const options: EnrichmentOptions = {
+    stages: STAGES[stageChoice],
+    concurrency,
+    searchProviders: searchProviders
+      ?.filter((provider) => provider.enabled)
+      .map((provider) => provider.id),
+    overwriteEdits,
+  };
 
-    console.log(
-      `🚀 Starting enrichment for ${pendingItems.length} pending items`
-    );
-    let processedCount = 0;
-    let updatedData = [...data];
-
-    for (const item of pendingItems) {
-      setCurrentProcessingItem(item.company_name);
-
-      try {
-        console.log(
-          `📋 Processing: ${item.company_name} (${processedCount + 1}/${
-            pendingItems.length
-          })`
-        );
-
-        // Update status to processing immediately
-        updatedData = updatedData.map((dataItem) =>
-          dataItem.id === item.id
-            ? { ...dataItem, status: "processing" as const }
-            : dataItem
-        );
-        if (onDataUpdate) {
-          onDataUpdate([...updatedData]);
-        }
-
-        // Call the edge function
-        const { data: result, error } = await supabase.functions.invoke(
-          "enrich-fundraise-data",
-          {
-            body: item,
-          }
-        );
-
-        if (error) {
-          console.error("❌ Error processing item:", error);
+  const saveSettings = (update: EnrichmentOptions) =>
+    updateProject.mutate(
+      {
+        id: project.id,
+        update: { enrichment_settings: { ...options, ...update } },
+      },
+      {
+        onError: (error) =>
           toast({
-            title: "Processing error",
-            description: `Failed to process ${item.company_name}: ${error.message}`,
+            title: "Could not save enrichment settings",
+            description: error.message,
             variant: "destructive",
-          });
-
-          // Update to error status
-          updatedData = updatedData.map((dataItem) =>
-            dataItem.id === item.id
-              ? { ...dataItem, status: "error" as const }
-              : dataItem
-          );
-        } else {
-          console.log("✅ Successfully processed:", item.company_name, result);
-          processedCount++;
-
-          if (result) {
-            console.log("📊 Updating local data with enriched record:", result);
-
-            // Update with enriched data
-            updatedData = updatedData.map((dataItem) =>
-              dataItem.id === item.id
-                ? { ...result, status: "completed" as const }
-                : dataItem
-            );
-
-            toast({
-              title: "Item processed",
-              description: `Successfully processed ${item.company_name}`,
-            });
-          }
-        }
-
-        // Update the data immediately after each item
-        if (onDataUpdate) {
-          onDataUpdate([...updatedData]);
-        }
-      } catch (error) {
-        console.error(
-          "💥 Unexpected error processing:",
-          item.company_name,
-          error
-        );
-        toast({
-          title: "Unexpected error",
-          description: `Failed to process ${item.company_name}`,
-          variant: "destructive",
-        });
-
-        // Update to error status
-        updatedData = updatedData.map((dataItem) =>
-          dataItem.id === item.id
-            ? { ...dataItem, status: "error" as const }
-            : dataItem
-        );
-
-        if (onDataUpdate) {
-          onDataUpdate([...updatedData]);
-        }
+          }),
       }
+    );
 
-      setProcessed(processedCount);
+  const startEnrichment = async (rowIds?: string[]) => {
+    try {
+      const started = await startJob.mutateAsync({
+        projectId: project.id,
+        rowIds,
+        options,
+      });
+      toast({
+        title: "Enrichment started",
+        description: `${started.total_items} items queued. You can close this tab; processing continues in the background.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not start enrichment",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
 
-      // Add delay between requests
-      if (processedCount < pendingItems.length) {
-        console.log("⏳ Waiting 2 seconds before next item...");
-        await new Promise((resolve) => setTimeout(resolve, 3000));
-      }
+  const controlEnrichment = async (
+    control: typeof pauseJob,
+    success: { title: string; description: string },
+    failureTitle: string
+  ) => {
+    try {
+      await control.mutateAsync(job.id);
+      toast(success);
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
     }
+  };
 
-    setLocalIsProcessing(false);
-    setCurrentProcessingItem("");
+  const pauseEnrichment = () =>
+    controlEnrichment(
+      pauseJob,
+      {
+        title: "Enrichment paused",
+        description: "Rows in flight were put back in the queue",
+      },
+      "Could not pause enrichment"
+    );
 
-    console.log(
-      `🎉 Processing complete: ${processedCount}/${pendingItems.length} successful`
+  const resumeEnrichment = () =>
+    controlEnrichment(
+      resumeJob,
+      {
+        title: "Enrichment resumed",
+        description: "A worker picked up the remaining items",
+      },
+      "Could not resume enrichment"
     );
 
-    toast({
-      title: "Processing complete",
-      description: `Successfully processed ${processedCount} of ${pendingItems.length} items`,
-    });
-  };
+  const cancelEnrichment = () =>
+    controlEnrichment(
+      cancelJob,
+      {
+        title: "Enrichment cancelled",
+        description: "Unprocessed rows were skipped and left pending",
+      },
+      "Could not cancel enrichment"
+    );
 
-  const actuallyProcessing = isProcessing || localIsProcessing;
+  const jobActive = isJobActive(job);
+  const jobOpen = isJobOpen(job);
+  const jobPaused = job?.status === "paused";
+  const controlPending =
+    pauseJob.isPending || resumeJob.isPending || cancelJob.isPending;
+  const jobStalled = isJobStalled(job);
   const completedCount = data.filter(
     (item) => item.status === "completed"
   ).length;
+  const reviewCount = data.filter(
+    (item) => item.status === "needs_review"
+  ).length;
   const errorCount = data.filter((item) => item.status === "error").length;
   const pendingCount = data.filter((item) => item.status === "pending").length;
-  const processingCount = data.filter(
-    (item) => item.status === "processing"
-  ).length;
+  const processingItems = data.filter((item) => item.status === "processing");
+  const processingCount = processingItems.length;
+  const errorIds = data
+    .filter((item) => item.status === "error")
+    .map((item) => item.id);
+  const missingIds = data.filter(hasMissingFields).map((item) => item.id);
+  const jobDone = job ? job.completed_items + job.failed_items : 0;
+  const jobRemaining = job ? job.total_items - jobDone - job.skipped_items : 0;
+  const etaMinutes =
+    job?.rows_per_minute > 0
+      ? Math.ceil(jobRemaining / job.rows_per_minute)
+      : null;
 
   return (
     <div className="bg-black/20 backdrop-blur-sm border border-gray-700 rounded-xl p-6">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-white">AI Processing Status</h2>
 
-        {!actuallyProcessing ? (
+        <div className="flex items-center gap-2">
+          <EnrichmentHistoryDialog projectId={project.id} />
+          {!jobOpen ? (
+            <Button
+              onClick={() => startEnrichment()}
+              disabled={pendingCount === 0 || startJob.isPending}
+              className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white border-0"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Start AI Enrichment ({pendingCount} pending)
+            </Button>
+          ) : (
+            <div className="flex items-center gap-2">
+              {jobActive && !jobStalled && (
+                <div className="flex items-center gap-2 mr-2">
+                  <div className="animate-spin h-5 w-5 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+                  <span className="text-gray-300">
+                    Processing in background...
+                  </span>
+                </div>
+              )}
+
+              {jobActive && !jobStalled ? (
+                <Button
+                  onClick={pauseEnrichment}
+                  disabled={controlPending}
+                  variant="outline"
+                  className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-800"
+                >
+                  <Pause className="h-4 w-4 mr-2" />
+                  Pause
+                </Button>
+              ) : (
+                <Button
+                  onClick={resumeEnrichment}
+                  disabled={controlPending}
+                  className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white border-0"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {jobPaused ? "Resume" : "Resume stalled run"}
+                </Button>
+              )}
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" disabled={controlPending}>
+                    <Square className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      Cancel this enrichment run?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      No further rows will be sent to the search and AI
+                      providers. Rows that were not processed yet are marked as
+                      skipped and stay pending so a later run can pick them up.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep running</AlertDialogCancel>
+                    <AlertDialogAction onClick={cancelEnrichment}>
+                      Cancel run
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {!jobOpen && (
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Select
+            value={stageChoice}
+            onValueChange={(value) => {
+              const choice = value as StageChoice;
+              setStageChoice(choice);
+              saveSettings({ stages: STAGES[choice] });
+            }}
+          >
+            <SelectTrigger className="w-[200px] bg-gray-800/50 border-gray-600 text-gray-200">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Full pipeline</SelectItem>
+              <SelectItem value="search">Search only</SelectItem>
+              <SelectItem value="extract">Extraction only</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <SearchProviderSettings
+            value={searchProviders ?? DEFAULT_SEARCH_PROVIDERS}
+            onChange={(value) => {
+              setSearchProviders(value);
+              saveSettings({
+                searchProviders: value
+                  .filter((provider) => provider.enabled)
+                  .map((provider) => provider.id),
+              });
+            }}
+          />
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            Parallel rows
+            <Input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => {
+                const value = Math.min(
+                  MAX_CONCURRENCY,
+                  Math.max(1, Number(e.target.value) || 1)
+                );
+                setConcurrency(value);
+                saveSettings({ concurrency: value });
+              }}
+              className="w-20 bg-gray-800/50 border-gray-600 text-gray-200"
+            />
+          </label>
+
+          <label
+            className="flex items-center gap-2 text-sm text-gray-300"
+            title="Values corrected by hand are kept unless this is checked"
+          >
+            <Checkbox
+              checked={overwriteEdits}
+              onCheckedChange={(checked) => {
+                setOverwriteEdits(checked === true);
+                saveSettings({ overwriteEdits: checked === true });
+              }}
+              className="border-gray-500"
+            />
+            Overwrite hand corrections
+          </label>
+
           <Button
-            onClick={startEnrichment}
-            disabled={pendingCount === 0}
-            className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white border-0"
+            variant="outline"
+            onClick={() => startEnrichment(errorIds)}
+            disabled={errorIds.length === 0 || startJob.isPending}
+            className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-800"
           >
-            <Play className="h-4 w-4 mr-2" />
-            Start AI Enrichment ({pendingCount} pending)
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Retry all errors ({errorIds.length})
           </Button>
-        ) : (
-          <div className="flex items-center gap-2">
-            <div className="animate-spin h-5 w-5 border-2 border-blue-400 border-t-transparent rounded-full"></div>
-            <span className="text-gray-300">Processing...</span>
-          </div>
-        )}
-      </div>
 
-      {actuallyProcessing && (
+          <Button
+            variant="outline"
+            onClick={() => startEnrichment(selectedIds)}
+            disabled={selectedIds.length === 0 || startJob.isPending}
+            className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-800"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-enrich selected ({selectedIds.length})
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => startEnrichment(missingIds)}
+            disabled={missingIds.length === 0 || startJob.isPending}
+            className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-800"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-enrich rows with N/A ({missingIds.length})
+          </Button>
+        </div>
+      )}
+
+      {jobOpen && (
         <div className="space-y-4">
           <div className="flex items-center justify-between text-sm">
-            <span className="text-gray-300">
-              Processing:{" "}
-              <span className="text-blue-400 font-medium">
-                {currentProcessingItem || currentItem}
+            {jobPaused ? (
+              <span className="text-yellow-400 font-medium">
+                Paused. Remaining rows stay queued until you resume.
               </span>
-            </span>
+            ) : (
+              <span className="text-gray-300">
+                Processing:{" "}
+                <span className="text-blue-400 font-medium">
+                  {processingItems
+                    .map((item) => item.company_name)
+                    .join(", ") || "Waiting for worker..."}
+                </span>
+              </span>
+            )}
             <span className="text-gray-300">
-              {completedCount} / {totalItems}
+              {jobDone} / {job.total_items}
             </span>
           </div>
 
           <Progress
-            value={(completedCount / totalItems) * 100}
+            value={job.total_items ? (jobDone / job.total_items) * 100 : 0}
             className="h-2 bg-gray-800"
           />
+
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>
+              Throughput: {job.rows_per_minute} rows/min (last 5 min) ·{" "}
+              {job.options.concurrency ?? DEFAULT_CONCURRENCY} in parallel
+            </span>
+            {etaMinutes !== null && !jobPaused && (
+              <span>About {etaMinutes} min remaining</span>
+            )}
+          </div>
+
+          {job.last_error && (
+            <p className="text-sm text-red-400">Last error: {job.last_error}</p>
+          )}
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-6">
+      {job?.status === "cancelled" && skippedRows.length > 0 && (
+        <div className="mt-6 bg-gray-800/50 rounded-lg p-4">
+          <p className="text-sm text-gray-300 mb-3">
+            The last run was cancelled. {skippedRows.length} rows were skipped
+            and are still pending:
+          </p>
+          <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+            {skippedRows.map((row) => (
+              <Badge
+                key={row.fundraise_id}
+                className="bg-yellow-500/20 text-yellow-400 border border-yellow-500/30"
+              >
+                {row.company_name}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mt-6">
         <div className="bg-gray-800/50 rounded-lg p-4 text-center">
           <CheckCircle className="h-8 w-8 text-green-400 mx-auto mb-2" />
           <div className="text-2xl font-bold text-white">{completedCount}</div>
@@ -246,6 +500,12 @@ export const ProcessingStatus = ({
           <div className="text-sm text-gray-400">Pending</div>
         </div>
 
+        <div className="bg-gray-800/50 rounded-lg p-4 text-center">
+          <ClipboardCheck className="h-8 w-8 text-orange-400 mx-auto mb-2" />
+          <div className="text-2xl font-bold text-white">{reviewCount}</div>
+          <div className="text-sm text-gray-400">Needs review</div>
+        </div>
+
         <div className="bg-gray-800/50 rounded-lg p-4 text-center">
           <AlertCircle className="h-8 w-8 text-red-400 mx-auto mb-2" />
           <div className="text-2xl font-bold text-white">{errorCount}</div>
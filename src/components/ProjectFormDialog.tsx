@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useCreateProject, useUpdateProject } from "@/hooks/use-projects";
+import { useToast } from "@/hooks/use-toast";
+import type { Project } from "@/types/project";
+
+interface ProjectFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The project to rename; a new project is created when absent
+  project?: Project;
+  onSaved?: (project: Project) => void;
+}
+
+export const ProjectFormDialog = ({
+  open,
+  onOpenChange,
+  project,
+  onSaved,
+}: ProjectFormDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const createProject = useCreateProject();
+  const updateProject = useUpdateProject();
+  const { toast } = useToast();
+  const saving = createProject.isPending || updateProject.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setName(project?.name ?? "");
+    setDescription(project?.description ?? "");
+  }, [open, project]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    try {
+      const saved = project
+        ? await updateProject.mutateAsync({
+            id: project.id,
+            update: { name, description },
+          })
+        : await createProject.mutateAsync({ name, description });
+      onOpenChange(false);
+      onSaved?.(saved);
+    } catch (error) {
+      toast({
+        title: project ? "Could not save project" : "Could not create project",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{project ? "Edit project" : "New project"}</DialogTitle>
+          <DialogDescription>
+            Each project keeps its own rounds, enrichment settings and history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name</Label>
+            <Input
+              id="project-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              placeholder="Launch vehicles"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-description">Description</Label>
+            <Textarea
+              id="project-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || saving}>
+            {project ? "Save" : "Create project"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Check,
+  ChevronsUpDown,
+  FolderOpen,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ProjectFormDialog } from "@/components/ProjectFormDialog";
+import { useDeleteProject } from "@/hooks/use-projects";
+import { useToast } from "@/hooks/use-toast";
+import type { Project } from "@/types/project";
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  current: Project;
+  rowCount: number;
+}
+
+/**
+ * Switches between projects, and creates, edits and deletes them.
+ */
+export const ProjectSwitcher = ({
+  projects,
+  current,
+  rowCount,
+}: ProjectSwitcherProps) => {
+  const [formProject, setFormProject] = useState<Project | "new" | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const deleteProject = useDeleteProject();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleDelete = async () => {
+    try {
+      await deleteProject.mutateAsync(current.id);
+      toast({ title: `Deleted ${current.name}` });
+      navigate("/");
+    } catch (error) {
+      toast({
+        title: "Could not delete project",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            className="bg-black/30 border-gray-600 text-gray-200 hover:bg-gray-800 hover:text-white"
+          >
+            <FolderOpen className="h-4 w-4 mr-2" />
+            {current.name}
+            <ChevronsUpDown className="h-4 w-4 ml-2 text-gray-400" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Projects</DropdownMenuLabel>
+          {projects.map((project) => (
+            <DropdownMenuItem
+              key={project.id}
+              onSelect={() => navigate(`/projects/${project.id}`)}
+            >
+              <Check
+                className={`h-4 w-4 mr-2 ${
+                  project.id === current.id ? "" : "invisible"
+                }`}
+              />
+              <span className="truncate">{project.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setFormProject("new")}>
+            <Plus className="h-4 w-4 mr-2" />
+            New project
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setFormProject(current)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit {current.name}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => setConfirmDelete(true)}
+            className="text-red-500 focus:text-red-500"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete {current.name}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ProjectFormDialog
+        open={formProject !== null}
+        onOpenChange={(open) => !open && setFormProject(null)}
+        project={formProject === "new" ? undefined : (formProject ?? undefined)}
+        onSaved={(saved) => navigate(`/projects/${saved.id}`)}
+      />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {current.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its {rowCount} rounds, their contacts and the project's enrichment
+              history are deleted. Companies and investor firms are shared with
+              other projects and stay.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep project</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              Delete project
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
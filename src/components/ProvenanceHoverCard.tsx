@@ -0,0 +1,86 @@
+import type { ReactNode } from "react";
+import { AlertTriangle, CheckCircle2, ExternalLink } from "lucide-react";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+import type { FieldProvenance } from "@/types/fundraise";
+
+interface ProvenanceHoverCardProps {
+  provenance?: FieldProvenance;
+  children: ReactNode;
+}
+
+/**
+ * Shows where an enriched value came from when its cell is hovered: the
+ * source, the supporting text and the provider or model that produced it.
+ * Values without recorded provenance render as they are.
+ */
+export const ProvenanceHoverCard = ({
+  provenance,
+  children,
+}: ProvenanceHoverCardProps) => {
+  if (!provenance) return <>{children}</>;
+
+  const producer = [provenance.provider, provenance.model]
+    .filter(Boolean)
+    .join("/");
+
+  return (
+    <HoverCard openDelay={300}>
+      <HoverCardTrigger asChild>
+        <div className="cursor-help">{children}</div>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-96 space-y-3 text-sm" align="start">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium">{provenance.extractor}</span>
+          {producer && (
+            <span className="text-xs text-muted-foreground">{producer}</span>
+          )}
+        </div>
+
+        {provenance.snippet ? (
+          <blockquote className="border-l-2 pl-3 text-xs italic text-muted-foreground">
+            {provenance.snippet}
+          </blockquote>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            No supporting text was recorded.
+          </p>
+        )}
+
+        {provenance.verified ? (
+          <div className="flex items-center gap-1 text-xs text-green-600">
+            <CheckCircle2 className="h-3 w-3" />
+            Found in the source
+          </div>
+        ) : (
+          <div className="flex items-center gap-1 text-xs text-orange-600">
+            <AlertTriangle className="h-3 w-3" />
+            Not found in the source; may come from the model's memory
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          {provenance.source_url ? (
+            <a
+              href={provenance.source_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex min-w-0 items-center gap-1 text-blue-500 hover:text-blue-400"
+            >
+              <ExternalLink className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate">{provenance.source_url}</span>
+            </a>
+          ) : (
+            <span>No source URL</span>
+          )}
+          <span className="flex-shrink-0">
+            {new Date(provenance.at).toLocaleString()}
+          </span>
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
@@ -0,0 +1,411 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import {
+  AlertTriangle,
+  Check,
+  ClipboardCheck,
+  ExternalLink,
+  Pencil,
+  X,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useEditorName, useSaveReview } from "@/hooks/use-fundraise-edits";
+import { useToast } from "@/hooks/use-toast";
+import {
+  LOW_CONFIDENCE,
+  REVIEW_FIELDS,
+  isUrlField,
+  reviewQueue,
+  reviewValue,
+} from "@/lib/review";
+import type {
+  FundraiseData,
+  ProvenanceField,
+  ReviewDecisions,
+} from "@/types/fundraise";
+
+const decisionStyles = {
+  accept: "bg-green-500/20 text-green-400 border-green-500/30",
+  edit: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  reject: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+const decisionLabels = {
+  accept: "Accepted",
+  edit: "Edited",
+  reject: "Rejected",
+};
+
+const SHORTCUTS = [
+  ["↑ ↓", "choose a value"],
+  ["A", "accept"],
+  ["E", "edit"],
+  ["R", "reject"],
+  ["Enter", "save and next row"],
+  ["J / K", "next / previous row"],
+];
+
+interface ReviewQueueDialogProps {
+  rows: FundraiseData[];
+}
+
+/**
+ * Steps through the rows enrichment was not sure about, one at a time.
+ * Each value can be accepted, edited or rejected with the mouse or the
+ * keyboard; saving marks the row completed.
+ */
+export const ReviewQueueDialog = ({ rows }: ReviewQueueDialogProps) => {
+  const saveReview = useSaveReview();
+  const [editorName, setEditorName] = useEditorName();
+  const { toast } = useToast();
+  const queue = reviewQueue(rows);
+
+  const [position, setPosition] = useState(0);
+  const [active, setActive] = useState(0);
+  const [decisions, setDecisions] = useState<ReviewDecisions>({});
+  const [editing, setEditing] = useState<ProvenanceField | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const index = Math.min(position, Math.max(queue.length - 1, 0));
+  const row = queue[index];
+
+  // Decisions belong to the row they were made on
+  useEffect(() => {
+    setDecisions({});
+    setActive(0);
+    setEditing(null);
+  }, [row?.id]);
+
+  const decide = (field: ProvenanceField, action: "accept" | "reject") => {
+    if (!row || !reviewValue(row, field)) return;
+    setDecisions((current) => ({ ...current, [field]: { action } }));
+  };
+
+  const startEditing = (field: ProvenanceField) => {
+    if (!row) return;
+    const decision = decisions[field];
+    setEditing(field);
+    setDraft(
+      decision?.action === "edit"
+        ? decision.value
+        : (reviewValue(row, field) ?? "")
+    );
+  };
+
+  const finishEditing = () => {
+    if (!editing) return;
+    setDecisions((current) => ({
+      ...current,
+      [editing]: draft.trim()
+        ? { action: "edit", value: draft }
+        : { action: "reject" },
+    }));
+    setEditing(null);
+  };
+
+  const move = (step: number) =>
+    setPosition(Math.min(Math.max(index + step, 0), queue.length - 1));
+
+  const handleSave = async () => {
+    if (!row) return;
+    if (!editorName.trim()) {
+      toast({
+        title: "Enter your name first",
+        description: "Reviews are recorded in the edit history under it",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveReview.mutateAsync({
+        row,
+        decisions,
+        editedBy: editorName.trim(),
+      });
+      // The saved row leaves the queue, so the next one moves into place
+    } catch (error) {
+      toast({
+        title: "Could not save review",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!row || editing || saveReview.isPending) return;
+    if (e.target instanceof HTMLInputElement) return;
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+    const field = REVIEW_FIELDS[active].field;
+    const actions: Record<string, () => void> = {
+      ArrowDown: () =>
+        setActive((i) => Math.min(i + 1, REVIEW_FIELDS.length - 1)),
+      ArrowUp: () => setActive((i) => Math.max(i - 1, 0)),
+      a: () => decide(field, "accept"),
+      e: () => startEditing(field),
+      r: () => decide(field, "reject"),
+      j: () => move(1),
+      k: () => move(-1),
+      Enter: handleSave,
+    };
+    const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+    if (!action) return;
+
+    e.preventDefault();
+    action();
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="bg-black/30 border-gray-600 text-gray-200 hover:bg-gray-800 hover:text-white"
+        >
+          <ClipboardCheck className="h-4 w-4 mr-2" />
+          Review queue ({queue.length})
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent
+        className="max-w-3xl"
+        onKeyDown={handleKeyDown}
+        onEscapeKeyDown={(e) => {
+          // Escape leaves the edit box before it closes the dialog
+          if (editing) {
+            e.preventDefault();
+            setEditing(null);
+          }
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Review queue</DialogTitle>
+          <DialogDescription>
+            Rows where enrichment found nothing or was not confident about a
+            value. Accept, edit or reject each value, then save to mark the row
+            completed. Edited and rejected values are logged as hand
+            corrections.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!row ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Nothing to review.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="text-lg font-semibold">{row.company_name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {row.date_raised} · {row.amount_raised} · {row.investors}
+                </div>
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-3">
+                <Input
+                  value={editorName}
+                  onChange={(e) => setEditorName(e.target.value)}
+                  placeholder="Your name"
+                  aria-label="Your name"
+                  className="h-8 w-40"
+                />
+                <span className="text-sm text-muted-foreground">
+                  {index + 1} of {queue.length}
+                </span>
+              </div>
+            </div>
+
+            {row.review_reasons && row.review_reasons.length > 0 && (
+              <ul className="space-y-1 rounded-md border border-orange-500/30 bg-orange-500/10 p-3 text-sm text-orange-600">
+                {row.review_reasons.map((reason) => (
+                  <li key={reason} className="flex items-center gap-2">
+                    <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                    {reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="divide-y rounded-md border">
+              {REVIEW_FIELDS.map(({ field, label }, fieldIndex) => {
+                const value = reviewValue(row, field);
+                const evidence = row.field_provenance?.[field];
+                const decision = decisions[field];
+                const confidence = evidence?.confidence;
+
+                return (
+                  <div
+                    key={field}
+                    onClick={() => setActive(fieldIndex)}
+                    className={`space-y-2 p-3 ${
+                      fieldIndex === active ? "bg-muted" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{label}</span>
+                        {confidence !== undefined && (
+                          <Badge
+                            variant="outline"
+                            className={
+                              confidence < LOW_CONFIDENCE
+                                ? "border-orange-500/50 text-orange-600"
+                                : "text-muted-foreground"
+                            }
+                          >
+                            {Math.round(confidence * 100)}% confidence
+                          </Badge>
+                        )}
+                        {decision && (
+                          <Badge
+                            className={`${decisionStyles[decision.action]} border`}
+                          >
+                            {decisionLabels[decision.action]}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={!value}
+                          onClick={() => decide(field, "accept")}
+                          title="Accept (A)"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => startEditing(field)}
+                          title="Edit (E)"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={!value}
+                          onClick={() => decide(field, "reject")}
+                          title="Reject (R)"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {editing === field ? (
+                      <Input
+                        autoFocus
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            finishEditing();
+                          }
+                        }}
+                        onBlur={finishEditing}
+                        placeholder={
+                          field === "amount_extracted"
+                            ? "e.g. $12 million"
+                            : "Leave empty to reject"
+                        }
+                      />
+                    ) : (
+                      <div
+                        className={`break-words text-sm ${
+                          decision?.action === "reject"
+                            ? "text-muted-foreground line-through"
+                            : ""
+                        }`}
+                      >
+                        {decision?.action === "edit" ? (
+                          decision.value
+                        ) : value && isUrlField(field) ? (
+                          <a
+                            href={value}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-blue-500 hover:text-blue-400"
+                          >
+                            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                            {value}
+                          </a>
+                        ) : (
+                          (value ?? (
+                            <span className="text-muted-foreground">N/A</span>
+                          ))
+                        )}
+                      </div>
+                    )}
+
+                    {evidence?.snippet && editing !== field && (
+                      <blockquote className="border-l-2 pl-3 text-xs italic text-muted-foreground">
+                        {evidence.snippet}
+                        {!evidence.verified && (
+                          <span className="ml-2 not-italic text-orange-600">
+                            (not found in the source)
+                          </span>
+                        )}
+                      </blockquote>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {decisions.investor_contacts &&
+              decisions.investor_contacts.action !== "accept" && (
+                <p className="text-xs text-muted-foreground">
+                  Changing the investor contacts removes the contacts extracted
+                  for this round.
+                </p>
+              )}
+
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                {SHORTCUTS.map(([key, description]) => (
+                  <span key={key}>
+                    <kbd className="rounded border px-1 font-mono">{key}</kbd>{" "}
+                    {description}
+                  </span>
+                ))}
+              </div>
+              <div className="flex flex-shrink-0 gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => move(-1)}
+                  disabled={index === 0}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => move(1)}
+                  disabled={index >= queue.length - 1}
+                >
+                  Skip
+                </Button>
+                <Button onClick={handleSave} disabled={saveReview.isPending}>
+                  Save and next
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ArrowDown, ArrowUp, Search } from "lucide-react";
+import {
+  SEARCH_PROVIDER_LABELS,
+  type SearchProviderSetting,
+} from "@/lib/search-providers";
+import type { SearchProviderId } from "@/types/enrichment";
+
+interface SearchProviderSettingsProps {
+  value: SearchProviderSetting[];
+  onChange: (value: SearchProviderSetting[]) => void;
+}
+
+export const SearchProviderSettings = ({
+  value,
+  onChange,
+}: SearchProviderSettingsProps) => {
+  const enabledCount = value.filter((provider) => provider.enabled).length;
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    const [provider] = next.splice(index, 1);
+    next.splice(index + offset, 0, provider);
+    onChange(next);
+  };
+
+  const toggle = (id: SearchProviderId, enabled: boolean) =>
+    onChange(
+      value.map((provider) =>
+        provider.id === id ? { ...provider, enabled } : provider
+      )
+    );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className="border-gray-600 bg-transparent text-gray-200 hover:bg-gray-800"
+        >
+          <Search className="h-4 w-4 mr-2" />
+          Search providers ({enabledCount})
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80">
+        <p className="text-sm text-muted-foreground mb-3">
+          Providers are tried top to bottom until three press URLs are found.
+        </p>
+        <ul className="space-y-2">
+          {value.map((provider, index) => (
+            <li key={provider.id} className="flex items-center gap-2">
+              <Switch
+                checked={provider.enabled}
+                onCheckedChange={(checked) => toggle(provider.id, checked)}
+                disabled={provider.enabled && enabledCount === 1}
+              />
+              <span className="flex-1 text-sm">
+                {SEARCH_PROVIDER_LABELS[provider.id]}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => move(index, 1)}
+                disabled={index === value.length - 1}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
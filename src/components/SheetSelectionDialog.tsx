@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import type { ParsedTable } from "@/types/import";
+
+interface SheetSelectionDialogProps {
+  fileName: string;
+  sheets: ParsedTable[] | null;
+  onCancel: () => void;
+  onConfirm: (sheets: ParsedTable[]) => void;
+}
+
+export const SheetSelectionDialog = ({
+  fileName,
+  sheets,
+  onCancel,
+  onConfirm,
+}: SheetSelectionDialogProps) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Every sheet is selected when a new workbook comes in
+  useEffect(() => {
+    setSelected(new Set(sheets?.map((sheet) => sheet.sheetName ?? "") ?? []));
+  }, [sheets]);
+
+  const allSelected = !!sheets && selected.size === sheets.length;
+
+  const toggle = (name: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(name);
+      else next.delete(name);
+      return next;
+    });
+  };
+
+  const chosen =
+    sheets?.filter((sheet) => selected.has(sheet.sheetName ?? "")) ?? [];
+  const rowCount = chosen.reduce(
+    (total, sheet) => total + sheet.rows.length,
+    0
+  );
+
+  return (
+    <Dialog open={sheets !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Choose sheets from {fileName}</DialogTitle>
+          <DialogDescription>
+            Each sheet gets its own column mapping, and imported rows remember
+            which sheet they came from.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-3 border-b pb-3">
+            <Checkbox
+              id="sheet-all"
+              checked={allSelected}
+              onCheckedChange={(checked) =>
+                setSelected(
+                  checked === true
+                    ? new Set(sheets?.map((sheet) => sheet.sheetName ?? ""))
+                    : new Set()
+                )
+              }
+            />
+            <Label htmlFor="sheet-all">All sheets</Label>
+          </div>
+
+          {sheets?.map((sheet, index) => {
+            const name = sheet.sheetName ?? "";
+            return (
+              <div key={name} className="flex items-center gap-3">
+                <Checkbox
+                  id={`sheet-${index}`}
+                  checked={selected.has(name)}
+                  onCheckedChange={(checked) => toggle(name, checked === true)}
+                />
+                <Label htmlFor={`sheet-${index}`} className="flex-1">
+                  {name}
+                </Label>
+                <span className="text-xs text-muted-foreground">
+                  {sheet.rows.length} rows, {sheet.columns.length} columns
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(chosen)}
+            disabled={chosen.length === 0}
+          >
+            {`Map ${chosen.length} ${chosen.length === 1 ? "sheet" : "sheets"} (${rowCount} rows)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
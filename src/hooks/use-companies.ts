@@ -0,0 +1,37 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchCompanies,
+  updateCompany,
+  type UpdateCompanyInput,
+} from "@/lib/companies-api";
+import type { Company } from "@/types/fundraise";
+
+export const companiesQueryKey = ["companies"] as const;
+
+export function useCompanies() {
+  const query = useQuery({
+    queryKey: companiesQueryKey,
+    queryFn: fetchCompanies,
+  });
+
+  const byId = useMemo(
+    () => new Map((query.data ?? []).map((company) => [company.id, company])),
+    [query.data]
+  );
+
+  return { ...query, byId };
+}
+
+export function useUpdateCompany() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateCompanyInput) => updateCompany(input),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<Company[]>(companiesQueryKey, (current = []) =>
+        current.map((company) => (company.id === saved.id ? saved : company))
+      );
+    },
+  });
+}
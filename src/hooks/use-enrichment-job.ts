@@ -0,0 +1,138 @@
+import { useCallback, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  HISTORY_SIZE,
+  cancelEnrichmentJob,
+  fetchEnrichmentJobs,
+  fetchLatestEnrichmentJob,
+  fetchSkippedJobRows,
+  pauseEnrichmentJob,
+  resumeEnrichmentJob,
+  startEnrichmentJob,
+  toEnrichmentJob,
+} from "@/lib/enrichment-jobs-api";
+import type {
+  EnrichmentJob,
+  StartEnrichmentJobInput,
+} from "@/types/enrichment";
+
+export const enrichmentJobsQueryKey = (projectId: string) =>
+  ["enrichment_jobs", "project", projectId] as const;
+
+export const latestEnrichmentJobQueryKey = (projectId: string) =>
+  [...enrichmentJobsQueryKey(projectId), "latest"] as const;
+
+export const enrichmentHistoryQueryKey = (projectId: string) =>
+  [...enrichmentJobsQueryKey(projectId), "history"] as const;
+
+// Puts a new or updated job into a project's latest job and history caches
+function useApplyJob() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (job: EnrichmentJob) => {
+      queryClient.setQueryData<EnrichmentJob | null>(
+        latestEnrichmentJobQueryKey(job.project_id),
+        (current) =>
+          !current ||
+          current.id === job.id ||
+          job.created_at > current.created_at
+            ? job
+            : current
+      );
+      queryClient.setQueryData<EnrichmentJob[]>(
+        enrichmentHistoryQueryKey(job.project_id),
+        (current) => {
+          if (!current) return current;
+          if (current.some((item) => item.id === job.id)) {
+            return current.map((item) => (item.id === job.id ? job : item));
+          }
+          return [job, ...current].slice(0, HISTORY_SIZE);
+        }
+      );
+    },
+    [queryClient]
+  );
+}
+
+export function useLatestEnrichmentJob(projectId: string) {
+  const applyJob = useApplyJob();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`enrichment-jobs-${projectId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "enrichment_jobs",
+          filter: `project_id=eq.${projectId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+          applyJob(toEnrichmentJob(payload.new as Tables<"enrichment_jobs">));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [applyJob, projectId]);
+
+  return useQuery({
+    queryKey: latestEnrichmentJobQueryKey(projectId),
+    queryFn: () => fetchLatestEnrichmentJob(projectId),
+  });
+}
+
+/**
+ * A project's past and current enrichment jobs, newest first. Updates arrive
+ * through useLatestEnrichmentJob.
+ */
+export function useEnrichmentHistory(projectId: string, enabled = true) {
+  return useQuery({
+    queryKey: enrichmentHistoryQueryKey(projectId),
+    queryFn: () => fetchEnrichmentJobs(projectId),
+    enabled,
+  });
+}
+
+export function useStartEnrichmentJob() {
+  const applyJob = useApplyJob();
+
+  return useMutation({
+    mutationFn: (input: StartEnrichmentJobInput) => startEnrichmentJob(input),
+    onSuccess: applyJob,
+  });
+}
+
+function useJobControl(control: (jobId: string) => Promise<EnrichmentJob>) {
+  const queryClient = useQueryClient();
+  const applyJob = useApplyJob();
+
+  return useMutation({
+    mutationFn: control,
+    onSuccess: (job) => {
+      applyJob(job);
+      queryClient.invalidateQueries({ queryKey: ["enrichment_jobs", job.id] });
+    },
+  });
+}
+
+export const usePauseEnrichmentJob = () => useJobControl(pauseEnrichmentJob);
+
+export const useResumeEnrichmentJob = () => useJobControl(resumeEnrichmentJob);
+
+export const useCancelEnrichmentJob = () => useJobControl(cancelEnrichmentJob);
+
+export function useSkippedJobRows(job: EnrichmentJob | null | undefined) {
+  return useQuery({
+    queryKey: ["enrichment_jobs", job?.id, "skipped", job?.skipped_items],
+    queryFn: () => fetchSkippedJobRows(job.id),
+    enabled: !!job && job.skipped_items > 0,
+  });
+}
@@ -0,0 +1,116 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { companiesQueryKey } from "@/hooks/use-companies";
+import {
+  investorFirmsQueryKey,
+  roundInvestorsQueryKey,
+} from "@/hooks/use-investor-firms";
+import {
+  fetchFundraiseData,
+  importFundraiseData,
+  toFundraiseData,
+} from "@/lib/fundraise-api";
+import type { FundraiseData } from "@/types/fundraise";
+import type { ImportPlan } from "@/types/import";
+
+// Without a project, matches the cached rows of every project
+export const fundraiseDataQueryKey = (projectId?: string) =>
+  projectId
+    ? (["fundraise_data", projectId] as const)
+    : (["fundraise_data"] as const);
+
+export function useFundraiseData(projectId: string) {
+  return useQuery({
+    queryKey: fundraiseDataQueryKey(projectId),
+    queryFn: () => fetchFundraiseData(projectId),
+  });
+}
+
+/**
+ * Saves an upload to a project: new rows are added to its dataset and rows
+ * chosen to overwrite saved ones replace them in place.
+ */
+export function useImportFundraiseData(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (plan: ImportPlan) => importFundraiseData(plan, projectId),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<FundraiseData[]>(
+        fundraiseDataQueryKey(projectId),
+        (current = []) => {
+          const byId = new Map(saved.map((row) => [row.id, row]));
+          const known = new Set(current.map((row) => row.id));
+          return [
+            ...current.map((row) => byId.get(row.id) ?? row),
+            ...saved.filter((row) => !known.has(row.id)),
+          ];
+        }
+      );
+      // Uploads create companies and firms and add aliases to known ones
+      queryClient.invalidateQueries({ queryKey: companiesQueryKey });
+      queryClient.invalidateQueries({ queryKey: investorFirmsQueryKey });
+      queryClient.invalidateQueries({ queryKey: roundInvestorsQueryKey });
+    },
+  });
+}
+
+/**
+ * Keeps a project's cached rows in sync with changes made by enrichment
+ * workers and other team members.
+ */
+export function useFundraiseDataRealtime(projectId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`fundraise-data-${projectId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "fundraise_data",
+          filter: `project_id=eq.${projectId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+          const row = toFundraiseData(payload.new as Tables<"fundraise_data">);
+
+          queryClient.setQueryData<FundraiseData[]>(
+            fundraiseDataQueryKey(projectId),
+            (current) => {
+              if (!current) return current;
+
+              const index = current.findIndex((item) => item.id === row.id);
+              if (index === -1) return [...current, row];
+
+              const next = [...current];
+              next[index] = row;
+              return next;
+            }
+          );
+        }
+      )
+      // Realtime cannot filter deletes, which carry only the id; an id from
+      // another project leaves the rows unchanged
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "fundraise_data" },
+        (payload) => {
+          const { id } = payload.old as { id: string };
+          queryClient.setQueryData<FundraiseData[]>(
+            fundraiseDataQueryKey(projectId),
+            (current) => current?.filter((row) => row.id !== id)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, projectId]);
+}
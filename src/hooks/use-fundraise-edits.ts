@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { companiesQueryKey } from "@/hooks/use-companies";
+import { fundraiseDataQueryKey } from "@/hooks/use-fundraise-data";
+import { investorContactsQueryKey } from "@/hooks/use-investor-contacts";
+import {
+  investorFirmsQueryKey,
+  roundInvestorsQueryKey,
+} from "@/hooks/use-investor-firms";
+import {
+  editFundraiseData,
+  fetchFundraiseEdits,
+  saveReview,
+  type EditFundraiseInput,
+} from "@/lib/edits-api";
+import type { FundraiseData, ReviewDecisions } from "@/types/fundraise";
+
+const EDITOR_NAME_KEY = "fundraise-editor-name";
+
+export const fundraiseEditsQueryKey = (fundraiseId: string) =>
+  ["fundraise_edits", fundraiseId] as const;
+
+/**
+ * The edit history of one row, loaded when `enabled` turns true.
+ */
+export function useFundraiseEdits(fundraiseId: string, enabled = true) {
+  return useQuery({
+    queryKey: fundraiseEditsQueryKey(fundraiseId),
+    queryFn: () => fetchFundraiseEdits(fundraiseId),
+    enabled,
+  });
+}
+
+/**
+ * The name edits are logged under, remembered in this browser and shared by
+ * every cell and dialog that edits rows.
+ */
+export function useEditorName() {
+  const [name, setName] = useState(
+    () => localStorage.getItem(EDITOR_NAME_KEY) ?? ""
+  );
+
+  useEffect(() => {
+    const sync = () => setName(localStorage.getItem(EDITOR_NAME_KEY) ?? "");
+    window.addEventListener(EDITOR_NAME_KEY, sync);
+    return () => window.removeEventListener(EDITOR_NAME_KEY, sync);
+  }, []);
+
+  const saveName = useCallback((value: string) => {
+    localStorage.setItem(EDITOR_NAME_KEY, value);
+    window.dispatchEvent(new Event(EDITOR_NAME_KEY));
+  }, []);
+
+  return [name, saveName] as const;
+}
+
+function useApplySavedRow() {
+  const queryClient = useQueryClient();
+
+  return (saved: FundraiseData, fields: string[]) => {
+    queryClient.setQueriesData<FundraiseData[]>(
+      { queryKey: fundraiseDataQueryKey() },
+      (current) => current?.map((row) => (row.id === saved.id ? saved : row))
+    );
+    queryClient.invalidateQueries({
+      queryKey: fundraiseEditsQueryKey(saved.id),
+    });
+    if (fields.includes("investor_contacts")) {
+      queryClient.invalidateQueries({ queryKey: investorContactsQueryKey });
+    }
+    // A new name may create a company; new investors text relinks firms
+    if (fields.includes("company_name")) {
+      queryClient.invalidateQueries({ queryKey: companiesQueryKey });
+    }
+    if (fields.includes("investors")) {
+      queryClient.invalidateQueries({ queryKey: investorFirmsQueryKey });
+      queryClient.invalidateQueries({ queryKey: roundInvestorsQueryKey });
+    }
+  };
+}
+
+/**
+ * Saves hand corrections to a row and logs them.
+ */
+export function useEditFundraiseData() {
+  const applySavedRow = useApplySavedRow();
+
+  return useMutation({
+    mutationFn: (input: EditFundraiseInput) => editFundraiseData(input),
+    onSuccess: (saved, { values }) => applySavedRow(saved, Object.keys(values)),
+  });
+}
+
+/**
+ * Saves the decisions made on a row in the review queue.
+ */
+export function useSaveReview() {
+  const applySavedRow = useApplySavedRow();
+
+  return useMutation({
+    mutationFn: ({
+      row,
+      decisions,
+      editedBy,
+    }: {
+      row: FundraiseData;
+      decisions: ReviewDecisions;
+      editedBy: string;
+    }) => saveReview(row, decisions, editedBy),
+    onSuccess: (saved, { decisions }) =>
+      applySavedRow(saved, Object.keys(decisions)),
+  });
+}
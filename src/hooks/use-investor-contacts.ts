@@ -0,0 +1,70 @@
+import { useEffect, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  fetchInvestorContacts,
+  groupContactsByRound,
+  toInvestorContact,
+} from "@/lib/contacts-api";
+import type { InvestorContact } from "@/types/fundraise";
+
+export const investorContactsQueryKey = ["fundraise_contacts"] as const;
+
+export function useInvestorContacts() {
+  const query = useQuery({
+    queryKey: investorContactsQueryKey,
+    queryFn: fetchInvestorContacts,
+  });
+
+  const byRound = useMemo(
+    () => groupContactsByRound(query.data ?? []),
+    [query.data]
+  );
+
+  return { ...query, byRound };
+}
+
+/**
+ * Applies contact lists replaced by enrichment workers to the cache.
+ */
+export function useInvestorContactsRealtime() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("fundraise-contacts")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "fundraise_contacts" },
+        (payload) => {
+          queryClient.setQueryData<InvestorContact[]>(
+            investorContactsQueryKey,
+            (current) => {
+              if (!current) return current;
+
+              if (payload.eventType === "DELETE") {
+                const { id } = payload.old as { id: string };
+                return current.filter((contact) => contact.id !== id);
+              }
+
+              const contact = toInvestorContact(
+                payload.new as Tables<"fundraise_contacts">
+              );
+              const index = current.findIndex((item) => item.id === contact.id);
+              if (index === -1) return [...current, contact];
+
+              const next = [...current];
+              next[index] = contact;
+              return next;
+            }
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+}
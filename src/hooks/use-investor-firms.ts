@@ -0,0 +1,132 @@
+import { useEffect, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  fetchInvestorFirms,
+  fetchRoundInvestors,
+  groupInvestorsByRound,
+  linkRoundInvestors,
+  mergeInvestorFirms,
+  updateInvestorFirm,
+  type UpdateInvestorFirmInput,
+} from "@/lib/investor-firms-api";
+import type { FundraiseData, InvestorFirm } from "@/types/fundraise";
+
+export const investorFirmsQueryKey = ["investor_firms"] as const;
+export const roundInvestorsQueryKey = ["fundraise_investors"] as const;
+
+export function useInvestorFirms() {
+  const query = useQuery({
+    queryKey: investorFirmsQueryKey,
+    queryFn: fetchInvestorFirms,
+  });
+
+  const byId = useMemo(
+    () => new Map((query.data ?? []).map((firm) => [firm.id, firm])),
+    [query.data]
+  );
+
+  return { ...query, byId };
+}
+
+export function useRoundInvestors() {
+  const query = useQuery({
+    queryKey: roundInvestorsQueryKey,
+    queryFn: fetchRoundInvestors,
+  });
+
+  const byRound = useMemo(
+    () => groupInvestorsByRound(query.data ?? []),
+    [query.data]
+  );
+
+  return { ...query, byRound };
+}
+
+export function useUpdateInvestorFirm() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateInvestorFirmInput) => updateInvestorFirm(input),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<InvestorFirm[]>(
+        investorFirmsQueryKey,
+        (current = []) =>
+          current.map((firm) => (firm.id === saved.id ? saved : firm))
+      );
+    },
+  });
+}
+
+export function useMergeInvestorFirms() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      sourceId,
+      targetId,
+    }: {
+      sourceId: string;
+      targetId: string;
+    }) => mergeInvestorFirms(sourceId, targetId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: investorFirmsQueryKey });
+      queryClient.invalidateQueries({ queryKey: roundInvestorsQueryKey });
+    },
+  });
+}
+
+/**
+ * Parses the investors text of existing rounds again, for rows uploaded
+ * before the directory existed or after aliases changed.
+ */
+export function useRelinkRoundInvestors() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rows: FundraiseData[]) => linkRoundInvestors(rows),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: investorFirmsQueryKey });
+      queryClient.invalidateQueries({ queryKey: roundInvestorsQueryKey });
+    },
+  });
+}
+
+/**
+ * Reloads firms and round links when enrichment workers add firms found on
+ * extracted contacts, or other team members upload rounds.
+ */
+export function useInvestorFirmsRealtime() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    // An upload changes thousands of links at once, so reload once they settle
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    const reloadSoon = (queryKey: readonly string[]) => {
+      clearTimeout(timers.get(queryKey[0]));
+      timers.set(
+        queryKey[0],
+        setTimeout(() => queryClient.invalidateQueries({ queryKey }), 500)
+      );
+    };
+
+    const channel = supabase
+      .channel("investor-firms")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "investor_firms" },
+        () => reloadSoon(investorFirmsQueryKey)
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "fundraise_investors" },
+        () => reloadSoon(roundInvestorsQueryKey)
+      )
+      .subscribe();
+
+    return () => {
+      timers.forEach(clearTimeout);
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchMappingProfiles,
+  saveMappingProfile,
+  type SaveMappingProfileInput,
+} from "@/lib/mapping-profiles-api";
+import type { MappingProfile } from "@/types/import";
+
+export const mappingProfilesQueryKey = ["column_mapping_profiles"] as const;
+
+export function useMappingProfiles() {
+  return useQuery({
+    queryKey: mappingProfilesQueryKey,
+    queryFn: fetchMappingProfiles,
+  });
+}
+
+export function useSaveMappingProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (profile: SaveMappingProfileInput) =>
+      saveMappingProfile(profile),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<MappingProfile[]>(
+        mappingProfilesQueryKey,
+        (current = []) =>
+          [...current.filter((profile) => profile.id !== saved.id), saved].sort(
+            (a, b) => a.name.localeCompare(b.name)
+          )
+      );
+    },
+  });
+}
@@ -0,0 +1,108 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { enrichmentJobsQueryKey } from "@/hooks/use-enrichment-job";
+import { fundraiseDataQueryKey } from "@/hooks/use-fundraise-data";
+import {
+  createProject,
+  deleteProject,
+  fetchProjects,
+  toProject,
+  updateProject,
+  type ProjectUpdate,
+} from "@/lib/projects-api";
+import type { Project, ProjectInput } from "@/types/project";
+
+export const projectsQueryKey = ["projects"] as const;
+
+const byName = (a: Project, b: Project) => a.name.localeCompare(b.name);
+
+const upsertProject = (current: Project[] = [], project: Project) =>
+  [...current.filter((item) => item.id !== project.id), project].sort(byName);
+
+export function useProjects() {
+  return useQuery({
+    queryKey: projectsQueryKey,
+    queryFn: fetchProjects,
+  });
+}
+
+/**
+ * Keeps the cached projects in sync with projects created, renamed or
+ * reconfigured by other team members.
+ */
+export function useProjectsRealtime() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("projects")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "projects" },
+        (payload) => {
+          queryClient.setQueryData<Project[]>(projectsQueryKey, (current) => {
+            if (!current) return current;
+
+            if (payload.eventType === "DELETE") {
+              const { id } = payload.old as { id: string };
+              return current.filter((project) => project.id !== id);
+            }
+
+            return upsertProject(
+              current,
+              toProject(payload.new as Tables<"projects">)
+            );
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+}
+
+export function useCreateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (project: ProjectInput) => createProject(project),
+    onSuccess: (created) => {
+      queryClient.setQueryData<Project[]>(projectsQueryKey, (current) =>
+        upsertProject(current, created)
+      );
+    },
+  });
+}
+
+export function useUpdateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: ProjectUpdate }) =>
+      updateProject(id, update),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<Project[]>(projectsQueryKey, (current) =>
+        upsertProject(current, updated)
+      );
+    },
+  });
+}
+
+export function useDeleteProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteProject(id),
+    onSuccess: (_, id) => {
+      queryClient.setQueryData<Project[]>(projectsQueryKey, (current = []) =>
+        current.filter((project) => project.id !== id)
+      );
+      queryClient.removeQueries({ queryKey: fundraiseDataQueryKey(id) });
+      queryClient.removeQueries({ queryKey: enrichmentJobsQueryKey(id) });
+    },
+  });
+}
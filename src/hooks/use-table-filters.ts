@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  parseTableFilters,
+  writeTableFilters,
+  type TableFilters,
+} from "@/lib/table-filters";
+
+/**
+ * DataTable's sort, filters and search, kept in the page URL so a view can be
+ * shared or bookmarked.
+ */
+export const useTableFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(
+    () => parseTableFilters(searchParams),
+    [searchParams]
+  );
+
+  const setFilters = useCallback(
+    (update: Partial<TableFilters>) =>
+      setSearchParams(
+        (current) =>
+          writeTableFilters(current, {
+            ...parseTableFilters(current),
+            ...update,
+          }),
+        // Typing in the search box should not fill the browser history
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  return [filters, setFilters] as const;
+};
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+interface VirtualRowsOptions {
+  keys: string[];
+  // Height of a row that has not been rendered yet
+  estimateSize: number;
+  // Rows rendered above and below the visible ones
+  overscan?: number;
+}
+
+/**
+ * Renders only the rows of a long list that are in or near the viewport of a
+ * scroll container. Rendered rows are measured, so rows can differ in
+ * height; heights are remembered by key while rows change and reorder.
+ */
+export const useVirtualRows = ({
+  keys,
+  estimateSize,
+  overscan = 8,
+}: VirtualRowsOptions) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const observed = useRef(new Set<HTMLElement>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Measured heights by key, replaced when one changes to lay the rows out again
+  const [sizes, setSizes] = useState(() => new Map<string, number>());
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const handleScroll = () => setScrollTop(element.scrollTop);
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(element.clientHeight)
+    );
+    setViewportHeight(element.clientHeight);
+    element.addEventListener("scroll", handleScroll, { passive: true });
+    observer.observe(element);
+
+    return () => {
+      element.removeEventListener("scroll", handleScroll);
+      observer.disconnect();
+    };
+  }, []);
+
+  const rowObserver = useMemo(
+    () =>
+      new ResizeObserver((entries) => {
+        const heights = new Map<string, number>();
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          const key = element.dataset.key;
+          const height = element.getBoundingClientRect().height;
+          if (key && height > 0) heights.set(key, height);
+        }
+        setSizes((current) => {
+          const changed = [...heights].filter(
+            ([key, height]) => current.get(key) !== height
+          );
+          if (changed.length === 0) return current;
+          return new Map([...current, ...changed]);
+        });
+      }),
+    []
+  );
+
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  // Pass as the ref of each rendered row, which needs a data-key attribute
+  const measureElement = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element) return;
+      // Stop watching rows that scrolled out and were removed
+      for (const row of observed.current) {
+        if (!row.isConnected) {
+          rowObserver.unobserve(row);
+          observed.current.delete(row);
+        }
+      }
+      rowObserver.observe(element);
+      observed.current.add(element);
+    },
+    [rowObserver]
+  );
+
+  const offsets = useMemo(() => {
+    const starts = new Array<number>(keys.length + 1);
+    starts[0] = 0;
+    keys.forEach((key, i) => {
+      starts[i + 1] = starts[i] + (sizes.get(key) ?? estimateSize);
+    });
+    return starts;
+  }, [keys, estimateSize, sizes]);
+
+  // The last row starting at or above the top of the viewport
+  const firstVisible = (() => {
+    let low = 0;
+    let high = keys.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= scrollTop) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return Math.max(low, 0);
+  })();
+
+  let lastVisible = firstVisible;
+  while (
+    lastVisible < keys.length - 1 &&
+    offsets[lastVisible + 1] < scrollTop + viewportHeight
+  ) {
+    lastVisible++;
+  }
+
+  const start = Math.max(firstVisible - overscan, 0);
+  const end = Math.min(lastVisible + overscan, keys.length - 1);
+  const indexes = [];
+  for (let i = start; i <= end; i++) indexes.push(i);
+
+  return {
+    scrollRef,
+    measureElement,
+    indexes,
+    // Space to leave for the rows that are not rendered
+    paddingTop: offsets[start] ?? 0,
+    paddingBottom: offsets[keys.length] - (offsets[end + 1] ?? 0),
+  };
+};
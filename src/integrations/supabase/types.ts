@@ -9,49 +9,494 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      column_mapping_profiles: {
+        Row: {
+          created_at: string
+          id: string
+          mapping: Json
+          name: string
+          source_columns: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          mapping?: Json
+          name: string
+          source_columns?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          source_columns?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      companies: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          domains: string[]
+          id: string
+          name: string
+          normalized_name: string
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          domains?: string[]
+          id?: string
+          name: string
+          normalized_name: string
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          domains?: string[]
+          id?: string
+          name?: string
+          normalized_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      enrichment_job_items: {
+        Row: {
+          attempts: number
+          created_at: string
+          finished_at: string | null
+          fundraise_id: string
+          id: string
+          job_id: string
+          last_error: string | null
+          started_at: string | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          finished_at?: string | null
+          fundraise_id: string
+          id?: string
+          job_id: string
+          last_error?: string | null
+          started_at?: string | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          finished_at?: string | null
+          fundraise_id?: string
+          id?: string
+          job_id?: string
+          last_error?: string | null
+          started_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrichment_job_items_fundraise_id_fkey"
+            columns: ["fundraise_id"]
+            isOneToOne: false
+            referencedRelation: "fundraise_data"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrichment_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "enrichment_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrichment_jobs: {
+        Row: {
+          completed_items: number
+          created_at: string
+          failed_items: number
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          options: Json
+          project_id: string
+          rows_per_minute: number
+          run: number
+          skipped_items: number
+          started_at: string | null
+          status: string
+          total_items: number
+          updated_at: string
+        }
+        Insert: {
+          completed_items?: number
+          created_at?: string
+          failed_items?: number
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          last_error?: string | null
+          options?: Json
+          project_id: string
+          rows_per_minute?: number
+          run?: number
+          skipped_items?: number
+          started_at?: string | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_items?: number
+          created_at?: string
+          failed_items?: number
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          last_error?: string | null
+          options?: Json
+          project_id?: string
+          rows_per_minute?: number
+          run?: number
+          skipped_items?: number
+          started_at?: string | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrichment_jobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fundraise_contacts: {
+        Row: {
+          confidence: number
+          created_at: string
+          firm: string | null
+          firm_id: string | null
+          fundraise_id: string
+          id: string
+          name: string
+          round_role: string
+          source_snippet: string | null
+          source_url: string | null
+          source_verified: boolean
+          title: string | null
+        }
+        Insert: {
+          confidence?: number
+          created_at?: string
+          firm?: string | null
+          firm_id?: string | null
+          fundraise_id: string
+          id?: string
+          name: string
+          round_role?: string
+          source_snippet?: string | null
+          source_url?: string | null
+          source_verified?: boolean
+          title?: string | null
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          firm?: string | null
+          firm_id?: string | null
+          fundraise_id?: string
+          id?: string
+          name?: string
+          round_role?: string
+          source_snippet?: string | null
+          source_url?: string | null
+          source_verified?: boolean
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fundraise_contacts_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "investor_firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fundraise_contacts_fundraise_id_fkey"
+            columns: ["fundraise_id"]
+            isOneToOne: false
+            referencedRelation: "fundraise_data"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       fundraise_data: {
         Row: {
+          amount_extracted: Json | null
+          amount_mismatch: boolean
           amount_raised: string
+          amount_user: Json | null
+          company_id: string | null
           company_name: string
           created_at: string | null
           date_raised: string
+          enrichment_trace: Json | null
+          extraction_errors: Json
+          field_provenance: Json
           id: string
           investor_contacts: string | null
           investors: string
+          locked_fields: string[]
           press_url_1: string | null
           press_url_2: string | null
           press_url_3: string | null
+          project_id: string
+          review_reasons: string[]
+          reviewed_at: string | null
+          source_row: number | null
+          source_sheet: string | null
           status: string | null
           updated_at: string | null
         }
         Insert: {
+          amount_extracted?: Json | null
+          amount_mismatch?: boolean
           amount_raised: string
+          amount_user?: Json | null
+          company_id?: string | null
           company_name: string
           created_at?: string | null
           date_raised: string
+          enrichment_trace?: Json | null
+          extraction_errors?: Json
+          field_provenance?: Json
           id?: string
           investor_contacts?: string | null
           investors: string
+          locked_fields?: string[]
           press_url_1?: string | null
           press_url_2?: string | null
           press_url_3?: string | null
+          project_id: string
+          review_reasons?: string[]
+          reviewed_at?: string | null
+          source_row?: number | null
+          source_sheet?: string | null
           status?: string | null
           updated_at?: string | null
         }
         Update: {
+          amount_extracted?: Json | null
+          amount_mismatch?: boolean
           amount_raised?: string
+          amount_user?: Json | null
+          company_id?: string | null
           company_name?: string
           created_at?: string | null
           date_raised?: string
+          enrichment_trace?: Json | null
+          extraction_errors?: Json
+          field_provenance?: Json
           id?: string
           investor_contacts?: string | null
           investors?: string
+          locked_fields?: string[]
           press_url_1?: string | null
           press_url_2?: string | null
           press_url_3?: string | null
+          project_id?: string
+          review_reasons?: string[]
+          reviewed_at?: string | null
+          source_row?: number | null
+          source_sheet?: string | null
           status?: string | null
           updated_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "fundraise_data_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fundraise_data_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fundraise_edits: {
+        Row: {
+          edited_at: string
+          edited_by: string | null
+          field: string
+          fundraise_id: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+        }
+        Insert: {
+          edited_at?: string
+          edited_by?: string | null
+          field: string
+          fundraise_id: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+        }
+        Update: {
+          edited_at?: string
+          edited_by?: string | null
+          field?: string
+          fundraise_id?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fundraise_edits_fundraise_id_fkey"
+            columns: ["fundraise_id"]
+            isOneToOne: false
+            referencedRelation: "fundraise_data"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fundraise_investors: {
+        Row: {
+          created_at: string
+          firm_id: string
+          fundraise_id: string
+          round_role: string
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          firm_id: string
+          fundraise_id: string
+          round_role?: string
+          source?: string
+        }
+        Update: {
+          created_at?: string
+          firm_id?: string
+          fundraise_id?: string
+          round_role?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fundraise_investors_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "investor_firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fundraise_investors_fundraise_id_fkey"
+            columns: ["fundraise_id"]
+            isOneToOne: false
+            referencedRelation: "fundraise_data"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investor_firms: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          name: string
+          normalized_name: string
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name: string
+          normalized_name: string
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name?: string
+          normalized_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      projects: {
+        Row: {
+          created_at: string
+          description: string | null
+          enrichment_settings: Json
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          enrichment_settings?: Json
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          enrichment_settings?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      provider_rate_limits: {
+        Row: {
+          blocked_until: string | null
+          capacity: number
+          provider: string
+          refill_per_second: number
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          blocked_until?: string | null
+          capacity: number
+          provider: string
+          refill_per_second: number
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          blocked_until?: string | null
+          capacity?: number
+          provider?: string
+          refill_per_second?: number
+          tokens?: number
+          updated_at?: string
+        }
         Relationships: []
       }
     }
@@ -59,7 +504,206 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_enrichment_items: {
+        Args: {
+          p_job_id: string
+          p_run: number
+          p_limit?: number
+          p_stale_after?: unknown
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          finished_at: string | null
+          fundraise_id: string
+          id: string
+          job_id: string
+          last_error: string | null
+          started_at: string | null
+          status: string
+        }[]
+      }
+      block_provider: {
+        Args: { p_provider: string; p_milliseconds: number }
+        Returns: undefined
+      }
+      cancel_enrichment_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          completed_items: number
+          created_at: string
+          failed_items: number
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          options: Json
+          project_id: string
+          rows_per_minute: number
+          run: number
+          skipped_items: number
+          started_at: string | null
+          status: string
+          total_items: number
+          updated_at: string
+        }
+      }
+      edit_fundraise_data: {
+        Args: {
+          p_changes: Json
+          p_derived?: Json
+          p_edited_by?: string
+          p_fundraise_id: string
+        }
+        Returns: {
+          amount_extracted: Json | null
+          amount_mismatch: boolean
+          amount_raised: string
+          amount_user: Json | null
+          company_id: string | null
+          company_name: string
+          created_at: string | null
+          date_raised: string
+          enrichment_trace: Json | null
+          extraction_errors: Json
+          field_provenance: Json
+          id: string
+          investor_contacts: string | null
+          investors: string
+          locked_fields: string[]
+          press_url_1: string | null
+          press_url_2: string | null
+          press_url_3: string | null
+          project_id: string
+          review_reasons: string[]
+          reviewed_at: string | null
+          source_row: number | null
+          source_sheet: string | null
+          status: string | null
+          updated_at: string | null
+        }
+      }
+      merge_investor_firms: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: {
+          aliases: string[]
+          created_at: string
+          id: string
+          name: string
+          normalized_name: string
+          updated_at: string
+        }
+      }
+      pause_enrichment_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          completed_items: number
+          created_at: string
+          failed_items: number
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          options: Json
+          project_id: string
+          rows_per_minute: number
+          run: number
+          skipped_items: number
+          started_at: string | null
+          status: string
+          total_items: number
+          updated_at: string
+        }
+      }
+      refresh_enrichment_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          completed_items: number
+          created_at: string
+          failed_items: number
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          options: Json
+          project_id: string
+          rows_per_minute: number
+          run: number
+          skipped_items: number
+          started_at: string | null
+          status: string
+          total_items: number
+          updated_at: string
+        }
+      }
+      replace_fundraise_contacts: {
+        Args: { p_fundraise_id: string; p_contacts: Json }
+        Returns: {
+          confidence: number
+          created_at: string
+          firm: string | null
+          firm_id: string | null
+          fundraise_id: string
+          id: string
+          name: string
+          round_role: string
+          source_snippet: string | null
+          source_url: string | null
+          source_verified: boolean
+          title: string | null
+        }[]
+      }
+      resume_enrichment_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          completed_items: number
+          created_at: string
+          failed_items: number
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          options: Json
+          project_id: string
+          rows_per_minute: number
+          run: number
+          skipped_items: number
+          started_at: string | null
+          status: string
+          total_items: number
+          updated_at: string
+        }
+      }
+      start_enrichment_job: {
+        Args: {
+          p_project_id: string
+          p_fundraise_ids: string[]
+          p_options?: Json
+          p_reset?: boolean
+        }
+        Returns: {
+          completed_items: number
+          created_at: string
+          failed_items: number
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          options: Json
+          project_id: string
+          rows_per_minute: number
+          run: number
+          skipped_items: number
+          started_at: string | null
+          status: string
+          total_items: number
+          updated_at: string
+        }
+      }
+      take_provider_token: {
+        Args: { p_provider: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,19 @@
+// The parser is shared with the enrichment function so both sides agree on
+// what an amount means.
+export {
+  amountsDisagree,
+  isAmountPlaceholder,
+  normalizeAmount,
+  parseAmount,
+  type NormalizedAmount,
+  type ParsedAmount,
+} from "../../supabase/functions/_shared/amounts.ts";
+
+const usdFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+export const formatUsd = (value: number) => usdFormatter.format(value);
@@ -0,0 +1,218 @@
+import type {
+  ColumnMapping,
+  ImportDraftRow,
+  MappingProfile,
+  ParsedTable,
+  SourceRow,
+  TargetField,
+} from "@/types/import";
+
+export interface TargetFieldDefinition {
+  field: TargetField;
+  label: string;
+  required: boolean;
+  // Normalized header names guessed for this field, best match first
+  aliases: string[];
+}
+
+export const TARGET_FIELDS: TargetFieldDefinition[] = [
+  {
+    field: "company_name",
+    label: "Company Name",
+    required: true,
+    aliases: [
+      "companyname",
+      "company",
+      "organizationname",
+      "organization",
+      "companies",
+      "name",
+    ],
+  },
+  {
+    field: "date_raised",
+    label: "Date Raised",
+    required: false,
+    aliases: [
+      "dateraised",
+      "announceddate",
+      "announcementdate",
+      "fundingdate",
+      "dealdate",
+      "date",
+    ],
+  },
+  {
+    field: "amount_raised",
+    label: "Amount Raised",
+    required: false,
+    aliases: [
+      "amountraised",
+      "moneyraised",
+      "fundingamount",
+      "dealsize",
+      "amount",
+      "raised",
+    ],
+  },
+  {
+    field: "investors",
+    label: "Investors",
+    required: false,
+    aliases: [
+      "investors",
+      "leadinvestors",
+      "leadinvestor",
+      "investornames",
+      "investor",
+      "vc",
+      "fund",
+    ],
+  },
+];
+
+export const normalizeColumnName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Maps each known field to the first header that looks like it. Headers
+ * nobody recognises are ignored.
+ */
+export const guessColumnMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = Object.fromEntries(
+    columns.map((column) => [column, null])
+  );
+
+  for (const { field, aliases } of TARGET_FIELDS) {
+    for (const alias of aliases) {
+      const column = columns.find(
+        (candidate) =>
+          mapping[candidate] === null &&
+          normalizeColumnName(candidate) === alias
+      );
+      if (column) {
+        mapping[column] = field;
+        break;
+      }
+    }
+  }
+
+  return mapping;
+};
+
+/**
+ * Assigns a column to a field. A field is only ever filled from one column,
+ * so whichever column had it before is set to ignored.
+ */
+export const assignColumn = (
+  mapping: ColumnMapping,
+  column: string,
+  field: TargetField | null
+): ColumnMapping => {
+  const next: ColumnMapping = { ...mapping };
+  if (field) {
+    for (const [other, target] of Object.entries(next)) {
+      if (target === field) next[other] = null;
+    }
+  }
+  next[column] = field;
+  return next;
+};
+
+export const columnFor = (
+  mapping: ColumnMapping,
+  field: TargetField
+): string | undefined =>
+  Object.keys(mapping).find((column) => mapping[column] === field);
+
+export const missingRequiredFields = (
+  mapping: ColumnMapping
+): TargetFieldDefinition[] =>
+  TARGET_FIELDS.filter(
+    ({ field, required }) => required && !columnFor(mapping, field)
+  );
+
+const cellText = (row: SourceRow, column: string | undefined): string => {
+  if (!column) return "";
+  const value = row[column];
+  return value === undefined || value === null ? "" : String(value).trim();
+};
+
+/**
+ * Reads every source row through the mapping. Nothing is dropped or
+ * reformatted here; that happens after the rows have been reviewed. Rows of
+ * later sheets are numbered on from `firstRow`.
+ */
+export const mapSourceRows = (
+  table: ParsedTable,
+  mapping: ColumnMapping,
+  firstRow = 0
+): ImportDraftRow[] => {
+  const columns = Object.fromEntries(
+    TARGET_FIELDS.map(({ field }) => [field, columnFor(mapping, field)])
+  ) as Record<TargetField, string | undefined>;
+
+  return table.rows.map((row, index) => ({
+    source_row: firstRow + index,
+    source_sheet: table.sheetName,
+    sheet_row: index,
+    values: {
+      company_name: cellText(row, columns.company_name),
+      date_raised: cellText(row, columns.date_raised),
+      amount_raised: cellText(row, columns.amount_raised),
+      investors: cellText(row, columns.investors),
+    },
+    excluded: false,
+  }));
+};
+
+/**
+ * The saved profile that fits an upload best: every header the profile was
+ * built from must be present, and among those the most specific (then the
+ * most recently saved) profile wins.
+ */
+export const findMatchingProfile = (
+  columns: string[],
+  profiles: MappingProfile[]
+): MappingProfile | null => {
+  const headers = new Set(columns.map(normalizeColumnName));
+
+  const matches = profiles.filter(
+    (profile) =>
+      profile.source_columns.length > 0 &&
+      profile.source_columns.every((column) =>
+        headers.has(normalizeColumnName(column))
+      )
+  );
+
+  matches.sort(
+    (a, b) =>
+      b.source_columns.length - a.source_columns.length ||
+      b.updated_at.localeCompare(a.updated_at)
+  );
+
+  return matches[0] ?? null;
+};
+
+/**
+ * Applies a saved profile to this file's headers, which may differ in case
+ * or punctuation from the file the profile was saved from.
+ */
+export const mappingFromProfile = (
+  profile: MappingProfile,
+  columns: string[]
+): ColumnMapping => {
+  const targets = new Map(
+    Object.entries(profile.mapping).map(([column, field]) => [
+      normalizeColumnName(column),
+      field,
+    ])
+  );
+
+  return Object.fromEntries(
+    columns.map((column) => [
+      column,
+      targets.get(normalizeColumnName(column)) ?? null,
+    ])
+  );
+};
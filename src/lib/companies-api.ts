@@ -0,0 +1,139 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  companyDomain,
+  companyMatchScore,
+  findCompanyMatch,
+  normalizeCompanyName,
+} from "@/lib/companies";
+import type { Company } from "@/types/fundraise";
+
+const PAGE_SIZE = 1000;
+
+export interface UpdateCompanyInput {
+  id: string;
+  aliases: string[];
+  domains: string[];
+}
+
+export const toCompany = (row: Tables<"companies">): Company => row;
+
+export const fetchCompanies = async (): Promise<Company[]> => {
+  const companies: Company[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("companies")
+      .select("*")
+      .order("name", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load companies: ${error.message}`);
+    }
+
+    companies.push(...data.map(toCompany));
+    if (data.length < PAGE_SIZE) return companies;
+  }
+};
+
+const uniqueValues = (values: string[]) => [
+  ...new Set(values.map((value) => value.trim()).filter(Boolean)),
+];
+
+/**
+ * Saves a company's aliases and domains. Domains are stored as bare hosts, so
+ * "https://www.rocketlabusa.com/about" is kept as "rocketlabusa.com".
+ */
+export const updateCompany = async ({
+  id,
+  aliases,
+  domains,
+}: UpdateCompanyInput): Promise<Company> => {
+  const { data, error } = await supabase
+    .from("companies")
+    .update({
+      aliases: uniqueValues(aliases),
+      domains: uniqueValues(
+        domains.map((domain) => companyDomain(domain) ?? "")
+      ),
+    })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update company: ${error.message}`);
+  }
+
+  return toCompany(data);
+};
+
+/**
+ * Finds or creates the company for each uploaded name and returns their ids
+ * by name. A name that only matches fuzzily is added to the company's
+ * aliases, so the next upload matches it exactly.
+ */
+export const resolveCompanyIds = async (
+  names: string[]
+): Promise<Map<string, string>> => {
+  const companies = await fetchCompanies();
+  const matched = new Map<string, Company>();
+  const newAliases = new Map<Company, Set<string>>();
+  const unmatched: string[] = [];
+
+  const match = (name: string, company: Company) => {
+    matched.set(name, company);
+    if (companyMatchScore(company, name) < 1) {
+      newAliases.set(company, (newAliases.get(company) ?? new Set()).add(name));
+    }
+  };
+
+  for (const name of uniqueValues(names)) {
+    const company = findCompanyMatch(name, companies);
+    if (company) match(name, company);
+    else unmatched.push(name);
+  }
+
+  // Spellings of the same new company in one upload create it only once
+  const created: { name: string; normalized_name: string }[] = [];
+  const createdFor = new Map<string, string>();
+  for (const name of unmatched) {
+    const existing = findCompanyMatch(name, created);
+    if (existing) {
+      createdFor.set(name, existing.normalized_name);
+    } else {
+      created.push({ name, normalized_name: normalizeCompanyName(name) });
+      createdFor.set(name, normalizeCompanyName(name));
+    }
+  }
+
+  if (created.length > 0) {
+    const { data, error } = await supabase
+      .from("companies")
+      .upsert(created, { onConflict: "normalized_name" })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save companies: ${error.message}`);
+    }
+
+    const byNormalizedName = new Map(
+      data.map((row) => [row.normalized_name, toCompany(row)])
+    );
+    for (const [name, normalizedName] of createdFor) {
+      const company = byNormalizedName.get(normalizedName);
+      if (company) match(name, company);
+    }
+  }
+
+  for (const [company, aliases] of newAliases) {
+    await updateCompany({
+      id: company.id,
+      aliases: [...company.aliases, ...aliases],
+      domains: company.domains,
+    });
+  }
+
+  return new Map([...matched].map(([name, company]) => [name, company.id]));
+};
@@ -0,0 +1,12 @@
+// Company matching is shared with the enrichment function, so an upload is
+// deduplicated with the same rules that decide whether an article is about
+// the company.
+export {
+  companyDomain,
+  companyMatchScore,
+  findCompanyMatch,
+  isSameCompany,
+  mentionsCompany,
+  normalizeCompanyName,
+  type CompanyIdentity,
+} from "../../supabase/functions/_shared/companies.ts";
@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ContactRoundRole, InvestorContact } from "@/types/fundraise";
+
+const PAGE_SIZE = 1000;
+
+export const toInvestorContact = (
+  row: Tables<"fundraise_contacts">
+): InvestorContact => ({
+  ...row,
+  round_role: row.round_role as ContactRoundRole,
+});
+
+export const fetchInvestorContacts = async (): Promise<InvestorContact[]> => {
+  const contacts: InvestorContact[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("fundraise_contacts")
+      .select("*")
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load investor contacts: ${error.message}`);
+    }
+
+    contacts.push(...data.map(toInvestorContact));
+    if (data.length < PAGE_SIZE) return contacts;
+  }
+};
+
+const ROLE_ORDER: Record<ContactRoundRole, number> = {
+  lead: 0,
+  participant: 1,
+  unknown: 2,
+};
+
+/**
+ * Contacts keyed by round, leads first and then by confidence.
+ */
+export const groupContactsByRound = (
+  contacts: InvestorContact[]
+): Map<string, InvestorContact[]> => {
+  const byRound = new Map<string, InvestorContact[]>();
+
+  for (const contact of contacts) {
+    const roundContacts = byRound.get(contact.fundraise_id) ?? [];
+    roundContacts.push(contact);
+    byRound.set(contact.fundraise_id, roundContacts);
+  }
+
+  for (const roundContacts of byRound.values()) {
+    roundContacts.sort(
+      (a, b) =>
+        ROLE_ORDER[a.round_role] - ROLE_ORDER[b.round_role] ||
+        b.confidence - a.confidence
+    );
+  }
+
+  return byRound;
+};
@@ -0,0 +1,229 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { amountsDisagree, normalizeAmount } from "@/lib/amounts";
+import { resolveCompanyIds } from "@/lib/companies-api";
+import { toFundraiseData } from "@/lib/fundraise-api";
+import { linkRoundInvestors } from "@/lib/investor-firms-api";
+import { isUrlField } from "@/lib/review";
+import type {
+  EditableField,
+  FieldProvenanceMap,
+  FundraiseData,
+  FundraiseEdit,
+  ProvenanceField,
+  ReviewDecisions,
+} from "@/types/fundraise";
+
+export const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+  company_name: "Company",
+  date_raised: "Date",
+  amount_raised: "Amount raised",
+  investors: "Original investors",
+  press_url_1: "Press URL 1",
+  press_url_2: "Press URL 2",
+  press_url_3: "Press URL 3",
+  investor_contacts: "Investor names",
+  amount_extracted: "Extracted amount",
+};
+
+// Uploaded columns, which cannot be left empty
+const UPLOADED_FIELDS: EditableField[] = [
+  "company_name",
+  "date_raised",
+  "amount_raised",
+  "investors",
+];
+
+const isEnrichedField = (field: EditableField): field is ProvenanceField =>
+  !UPLOADED_FIELDS.includes(field);
+
+export interface EditFundraiseInput {
+  row: FundraiseData;
+  // New text for each edited column; empty text clears enriched columns
+  values: Partial<Record<EditableField, string>>;
+  editedBy: string;
+  // Recorded as the extractor of edited enriched values
+  extractor?: "manual" | "review";
+  // Evidence to start from instead of the row's own
+  provenance?: FieldProvenanceMap;
+  // Other derived columns to save with the edit
+  derived?: Record<string, Json>;
+}
+
+export const toFundraiseEdit = (
+  row: Tables<"fundraise_edits">
+): FundraiseEdit => ({
+  ...row,
+  field: row.field as EditableField,
+  old_value: row.old_value as FundraiseEdit["old_value"],
+  new_value: row.new_value as FundraiseEdit["new_value"],
+});
+
+export const fetchFundraiseEdits = async (
+  fundraiseId: string
+): Promise<FundraiseEdit[]> => {
+  const { data, error } = await supabase
+    .from("fundraise_edits")
+    .select("*")
+    .eq("fundraise_id", fundraiseId)
+    .order("edited_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load edit history: ${error.message}`);
+  }
+
+  return data.map(toFundraiseEdit);
+};
+
+/**
+ * The current value of an editable column as text.
+ */
+export const editableValue = (
+  row: FundraiseData,
+  field: EditableField
+): string => {
+  const value =
+    field === "amount_extracted"
+      ? row.amount_extracted?.original_text
+      : row[field];
+  return value && value !== "N/A" ? value : "";
+};
+
+/**
+ * Saves hand corrections to a row. The edited columns are logged with their
+ * old and new values and locked against re-enrichment; the USD amounts, the
+ * company link and the evidence of enriched columns follow the new values.
+ * Values saved unchanged keep their evidence and are not saved again.
+ */
+export const editFundraiseData = async ({
+  row,
+  values,
+  editedBy,
+  extractor = "manual",
+  provenance = row.field_provenance ?? {},
+  derived = {},
+}: EditFundraiseInput): Promise<FundraiseData> => {
+  const now = new Date().toISOString();
+  const changes: Record<string, Json> = {};
+  const recomputed: Record<string, Json> = { ...derived };
+  const nextProvenance: FieldProvenanceMap = { ...provenance };
+  const next = { ...row };
+
+  for (const [field, text] of Object.entries(values) as [
+    EditableField,
+    string,
+  ][]) {
+    const value = text.trim();
+    if (!value && !isEnrichedField(field)) {
+      throw new Error(`${EDITABLE_FIELD_LABELS[field]} cannot be empty`);
+    }
+    if (value === editableValue(row, field)) continue;
+
+    if (field === "amount_extracted") {
+      const amount = value ? normalizeAmount(value, row.date_raised) : null;
+      if (value && !amount) throw new Error(`"${value}" is not an amount`);
+      next.amount_extracted = amount;
+      changes[field] = amount;
+    } else {
+      next[field] = value || "N/A";
+      changes[field] = next[field];
+    }
+
+    if (isEnrichedField(field)) {
+      nextProvenance[field] = value
+        ? {
+            source_url: isUrlField(field) ? value : null,
+            snippet: null,
+            extractor,
+            provider: null,
+            model: null,
+            verified: true,
+            confidence: 1,
+            reviewed_at: now,
+            at: now,
+          }
+        : undefined;
+    }
+  }
+
+  if (Object.keys(changes).length === 0 && Object.keys(derived).length === 0) {
+    return row;
+  }
+
+  if ("company_name" in changes) {
+    const ids = await resolveCompanyIds([next.company_name]);
+    recomputed.company_id = ids.get(next.company_name) ?? null;
+  }
+  if (
+    "amount_raised" in changes ||
+    "date_raised" in changes ||
+    "amount_extracted" in changes
+  ) {
+    const amountUser = normalizeAmount(next.amount_raised, next.date_raised);
+    recomputed.amount_user = amountUser;
+    recomputed.amount_mismatch = amountsDisagree(
+      amountUser,
+      next.amount_extracted
+    );
+  }
+
+  const { data, error } = await supabase.rpc("edit_fundraise_data", {
+    p_fundraise_id: row.id,
+    p_changes: changes,
+    p_derived: { ...recomputed, field_provenance: nextProvenance as Json },
+    p_edited_by: editedBy,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save changes: ${error.message}`);
+  }
+
+  const saved = toFundraiseData(data);
+  if (saved.investors !== row.investors) await linkRoundInvestors([saved]);
+
+  return saved;
+};
+
+/**
+ * Applies an analyst's decisions to a row from the review queue and marks it
+ * completed. Accepted values keep their evidence; edited and rejected ones
+ * are saved as hand corrections.
+ */
+export const saveReview = async (
+  row: FundraiseData,
+  decisions: ReviewDecisions,
+  editedBy: string
+): Promise<FundraiseData> => {
+  const now = new Date().toISOString();
+  const provenance: FieldProvenanceMap = { ...row.field_provenance };
+  const values: Partial<Record<EditableField, string>> = {};
+
+  for (const [field, decision] of Object.entries(decisions) as [
+    ProvenanceField,
+    ReviewDecisions[ProvenanceField],
+  ][]) {
+    if (decision?.action === "accept") {
+      const evidence = provenance[field];
+      if (evidence) provenance[field] = { ...evidence, reviewed_at: now };
+    } else if (decision) {
+      values[field] = decision.action === "edit" ? decision.value : "";
+    }
+  }
+
+  return editFundraiseData({
+    row,
+    values,
+    editedBy,
+    extractor: "review",
+    provenance,
+    derived: { status: "completed", review_reasons: [], reviewed_at: now },
+  });
+};
+
+/**
+ * An edit log value as text.
+ */
+export const formatEditValue = (value: FundraiseEdit["old_value"]) => {
+  if (value === null || value === "") return "empty";
+  return typeof value === "string" ? value : value.original_text;
+};
@@ -0,0 +1,135 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type {
+  EnrichmentJob,
+  EnrichmentJobStatus,
+  EnrichmentOptions,
+  SkippedJobRow,
+  StartEnrichmentJobInput,
+} from "@/types/enrichment";
+
+// A running job refreshes its heartbeat after every row; a worker that has
+// been silent for this long has most likely been killed.
+const STALLED_AFTER_MS = 5 * 60 * 1000;
+
+export const HISTORY_SIZE = 50;
+
+export const toEnrichmentJob = (
+  row: Tables<"enrichment_jobs">
+): EnrichmentJob => ({
+  ...row,
+  status: row.status as EnrichmentJobStatus,
+  options: (row.options ?? {}) as EnrichmentOptions,
+});
+
+export const isJobActive = (job: EnrichmentJob | null | undefined) =>
+  job?.status === "queued" || job?.status === "running";
+
+export const isJobOpen = (job: EnrichmentJob | null | undefined) =>
+  isJobActive(job) || job?.status === "paused";
+
+export const isJobStalled = (job: EnrichmentJob | null | undefined) => {
+  if (!isJobActive(job)) return false;
+  const lastSeen = new Date(job.heartbeat_at ?? job.created_at).getTime();
+  return Date.now() - lastSeen > STALLED_AFTER_MS;
+};
+
+export const fetchLatestEnrichmentJob = async (
+  projectId: string
+): Promise<EnrichmentJob | null> => {
+  const { data, error } = await supabase
+    .from("enrichment_jobs")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load enrichment job: ${error.message}`);
+  }
+
+  return data ? toEnrichmentJob(data) : null;
+};
+
+/**
+ * A project's most recent enrichment jobs, newest first.
+ */
+export const fetchEnrichmentJobs = async (
+  projectId: string,
+  limit = HISTORY_SIZE
+): Promise<EnrichmentJob[]> => {
+  const { data, error } = await supabase
+    .from("enrichment_jobs")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load enrichment history: ${error.message}`);
+  }
+
+  return data.map(toEnrichmentJob);
+};
+
+export const fetchSkippedJobRows = async (
+  jobId: string
+): Promise<SkippedJobRow[]> => {
+  const { data, error } = await supabase
+    .from("enrichment_job_items")
+    .select("fundraise_id, fundraise_data(company_name)")
+    .eq("job_id", jobId)
+    .eq("status", "skipped")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load skipped rows: ${error.message}`);
+  }
+
+  return data.map((item) => ({
+    fundraise_id: item.fundraise_id,
+    company_name: item.fundraise_data?.company_name ?? "Deleted row",
+  }));
+};
+
+const invokeEnrichmentJobs = async (
+  body: Record<string, unknown>
+): Promise<EnrichmentJob> => {
+  const { data, error } = await supabase.functions.invoke("enrichment-jobs", {
+    body,
+  });
+
+  if (error) {
+    // A non-2xx answer carries the function's own message in its body
+    const body =
+      error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+    throw new Error(body?.error ?? error.message);
+  }
+
+  return toEnrichmentJob(data);
+};
+
+export const startEnrichmentJob = ({
+  projectId,
+  rowIds,
+  options,
+}: StartEnrichmentJobInput) =>
+  invokeEnrichmentJobs({
+    action: "start",
+    project_id: projectId,
+    row_ids: rowIds,
+    options,
+  });
+
+export const pauseEnrichmentJob = (jobId: string) =>
+  invokeEnrichmentJobs({ action: "pause", job_id: jobId });
+
+export const resumeEnrichmentJob = (jobId: string) =>
+  invokeEnrichmentJobs({ action: "resume", job_id: jobId });
+
+export const cancelEnrichmentJob = (jobId: string) =>
+  invokeEnrichmentJobs({ action: "cancel", job_id: jobId });
@@ -0,0 +1,425 @@
+import * as XLSX from "xlsx";
+import type {
+  Company,
+  FundraiseData,
+  InvestorContact,
+  InvestorFirm,
+  RoundInvestor,
+} from "@/types/fundraise";
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+export type ExportLayout = "rounds" | "contacts" | "hubspot" | "salesforce";
+
+export interface ExportContext {
+  contactsByRound: Map<string, InvestorContact[]>;
+  companiesById: Map<string, Company>;
+  investorsByRound: Map<string, RoundInvestor[]>;
+  firmsById: Map<string, InvestorFirm>;
+}
+
+type ExportValue = string | number | boolean | null;
+
+// One exported line: a round, or one person found for a round
+interface ExportItem {
+  row: FundraiseData;
+  contact: InvestorContact | null;
+}
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  value: (item: ExportItem, context: ExportContext) => ExportValue;
+}
+
+interface ExportLayoutDefinition {
+  label: string;
+  description: string;
+  perContact: boolean;
+  columns: ExportColumn[];
+}
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  xlsx: {
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  json: {
+    label: "JSON",
+    extension: "json",
+    mimeType: "application/json",
+  },
+};
+
+const text = (value: string | null | undefined) =>
+  value && value !== "N/A" ? value : null;
+
+const firmName = (contact: InvestorContact, context: ExportContext) =>
+  (contact.firm_id && context.firmsById.get(contact.firm_id)?.name) ||
+  contact.firm;
+
+/**
+ * Splits a full name for CRMs that want first and last names apart. Single
+ * names go to the last name, which both HubSpot and Salesforce require.
+ */
+const splitName = (name: string) => {
+  const parts = name.trim().split(/\s+/);
+  const lastName = parts.pop() ?? "";
+  return { firstName: parts.join(" "), lastName };
+};
+
+// A CRM note saying where the person was found
+const contactNote = ({ row, contact }: ExportItem) => {
+  if (!contact) return null;
+  const role = contact.round_role === "lead" ? "Lead investor" : "Investor";
+  const amount = row.amount_extracted?.original_text ?? row.amount_raised;
+  const source = contact.source_url ?? text(row.press_url_1);
+  return [
+    `${role} in ${row.company_name}'s ${amount} round (${row.date_raised}).`,
+    source && `Source: ${source}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+const ROUND_COLUMNS: ExportColumn[] = [
+  {
+    id: "company_name",
+    label: "Company Name",
+    value: ({ row }) => row.company_name,
+  },
+  {
+    id: "company_domain",
+    label: "Company Domain",
+    value: ({ row }, { companiesById }) =>
+      (row.company_id && companiesById.get(row.company_id)?.domains[0]) || null,
+  },
+  {
+    id: "date_raised",
+    label: "Date Raised",
+    value: ({ row }) => row.date_raised,
+  },
+  {
+    id: "amount_raised",
+    label: "Amount Raised",
+    value: ({ row }) => row.amount_raised,
+  },
+  {
+    id: "amount_raised_usd",
+    label: "Amount Raised (USD)",
+    value: ({ row }) => row.amount_user?.usd_value ?? null,
+  },
+];
+
+const EXTRACTED_COLUMNS: ExportColumn[] = [
+  {
+    id: "amount_extracted",
+    label: "Extracted Amount",
+    value: ({ row }) => row.amount_extracted?.original_text ?? null,
+  },
+  {
+    id: "amount_extracted_usd",
+    label: "Extracted Amount (USD)",
+    value: ({ row }) => row.amount_extracted?.usd_value ?? null,
+  },
+  {
+    id: "amount_mismatch",
+    label: "Amount Mismatch",
+    value: ({ row }) => (row.amount_mismatch ? "Yes" : "No"),
+  },
+  {
+    id: "investors",
+    label: "Original Investors",
+    value: ({ row }) => row.investors,
+  },
+  {
+    id: "investor_firms",
+    label: "Investor Firms",
+    value: ({ row }, { investorsByRound, firmsById }) =>
+      (investorsByRound.get(row.id) ?? [])
+        .map((investor) => firmsById.get(investor.firm_id)?.name)
+        .filter(Boolean)
+        .join("; ") || null,
+  },
+  {
+    id: "press_url_1",
+    label: "Press URL 1",
+    value: ({ row }) => text(row.press_url_1),
+  },
+  {
+    id: "press_url_2",
+    label: "Press URL 2",
+    value: ({ row }) => text(row.press_url_2),
+  },
+  {
+    id: "press_url_3",
+    label: "Press URL 3",
+    value: ({ row }) => text(row.press_url_3),
+  },
+  {
+    id: "investor_contacts",
+    label: "Investor Names",
+    value: ({ row }) => text(row.investor_contacts),
+  },
+  { id: "status", label: "Status", value: ({ row }) => row.status },
+  {
+    id: "review_reasons",
+    label: "Review Reasons",
+    value: ({ row }) => row.review_reasons?.join("; ") || null,
+  },
+  {
+    id: "locked_fields",
+    label: "Corrected By Hand",
+    value: ({ row }) => row.locked_fields?.join("; ") || null,
+  },
+  {
+    id: "source_sheet",
+    label: "Source Sheet",
+    value: ({ row }) => row.source_sheet ?? null,
+  },
+];
+
+const CONTACT_COLUMNS: ExportColumn[] = [
+  { id: "name", label: "Name", value: ({ contact }) => contact?.name ?? null },
+  {
+    id: "title",
+    label: "Title",
+    value: ({ contact }) => contact?.title ?? null,
+  },
+  {
+    id: "firm",
+    label: "Firm",
+    value: ({ contact }, context) => contact && firmName(contact, context),
+  },
+  {
+    id: "firm_as_written",
+    label: "Firm As Written",
+    value: ({ contact }) => contact?.firm ?? null,
+  },
+  {
+    id: "round_role",
+    label: "Round Role",
+    value: ({ contact }) => contact?.round_role ?? null,
+  },
+  {
+    id: "confidence",
+    label: "Confidence",
+    value: ({ contact }) => contact?.confidence ?? null,
+  },
+  {
+    id: "source_url",
+    label: "Source URL",
+    value: ({ contact }) => contact?.source_url ?? null,
+  },
+  {
+    id: "source_snippet",
+    label: "Evidence",
+    value: ({ contact }) => contact?.source_snippet ?? null,
+  },
+  {
+    id: "source_verified",
+    label: "Evidence Verified",
+    value: ({ contact }) => (contact?.source_verified ? "Yes" : "No"),
+  },
+];
+
+export const EXPORT_LAYOUTS: Record<ExportLayout, ExportLayoutDefinition> = {
+  rounds: {
+    label: "Rounds",
+    description: "One row per funding round, as shown in the table.",
+    perContact: false,
+    columns: [...ROUND_COLUMNS, ...EXTRACTED_COLUMNS],
+  },
+  contacts: {
+    label: "Investor contacts",
+    description: "One row per investor person found for a round.",
+    perContact: true,
+    columns: [...CONTACT_COLUMNS, ...ROUND_COLUMNS],
+  },
+  hubspot: {
+    label: "HubSpot contacts",
+    description:
+      "One row per investor person, with HubSpot's contact import column names.",
+    perContact: true,
+    columns: [
+      {
+        id: "first_name",
+        label: "First Name",
+        value: ({ contact }) => contact && splitName(contact.name).firstName,
+      },
+      {
+        id: "last_name",
+        label: "Last Name",
+        value: ({ contact }) => contact && splitName(contact.name).lastName,
+      },
+      {
+        id: "job_title",
+        label: "Job Title",
+        value: ({ contact }) => contact?.title ?? null,
+      },
+      {
+        id: "company_name",
+        label: "Company Name",
+        value: ({ contact }, context) => contact && firmName(contact, context),
+      },
+      {
+        id: "lifecycle_stage",
+        label: "Lifecycle Stage",
+        value: () => "Lead",
+      },
+      { id: "notes", label: "Notes", value: contactNote },
+    ],
+  },
+  salesforce: {
+    label: "Salesforce leads",
+    description:
+      "One row per investor person, with the Salesforce lead import field names.",
+    perContact: true,
+    columns: [
+      {
+        id: "first_name",
+        label: "First Name",
+        value: ({ contact }) => contact && splitName(contact.name).firstName,
+      },
+      {
+        id: "last_name",
+        label: "Last Name",
+        value: ({ contact }) => contact && splitName(contact.name).lastName,
+      },
+      {
+        id: "title",
+        label: "Title",
+        value: ({ contact }) => contact?.title ?? null,
+      },
+      {
+        // Salesforce requires a company on every lead
+        id: "company",
+        label: "Company",
+        value: ({ contact }, context) =>
+          (contact && firmName(contact, context)) || "[not provided]",
+      },
+      {
+        id: "lead_source",
+        label: "Lead Source",
+        value: () => "Fundraise Data",
+      },
+      { id: "description", label: "Description", value: contactNote },
+    ],
+  },
+};
+
+const exportItems = (
+  rows: FundraiseData[],
+  layout: ExportLayout,
+  context: ExportContext
+): ExportItem[] =>
+  EXPORT_LAYOUTS[layout].perContact
+    ? rows.flatMap((row) =>
+        (context.contactsByRound.get(row.id) ?? []).map((contact) => ({
+          row,
+          contact,
+        }))
+      )
+    : rows.map((row) => ({ row, contact: null }));
+
+/**
+ * Quotes a CSV field when it holds a delimiter, quote or line break, doubling
+ * embedded quotes. Text that spreadsheets would run as a formula is prefixed
+ * with an apostrophe.
+ */
+export const escapeCsvField = (value: ExportValue) => {
+  if (value === null) return "";
+  let field = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+export const toCsv = (headers: string[], rows: ExportValue[][]) =>
+  [headers, ...rows]
+    .map((cells) => cells.map(escapeCsvField).join(","))
+    .join("\r\n");
+
+export interface ExportRequest {
+  rows: FundraiseData[];
+  layout: ExportLayout;
+  format: ExportFormat;
+  // Column ids of the layout to include, in layout order
+  columnIds: string[];
+  context: ExportContext;
+}
+
+export interface ExportFile {
+  content: BlobPart;
+  mimeType: string;
+  extension: string;
+  // Number of exported lines, not counting the header
+  count: number;
+}
+
+/**
+ * Builds an export of the given rows in one of the layouts and formats.
+ */
+export const buildExport = ({
+  rows,
+  layout,
+  format,
+  columnIds,
+  context,
+}: ExportRequest): ExportFile => {
+  const columns = EXPORT_LAYOUTS[layout].columns.filter((column) =>
+    columnIds.includes(column.id)
+  );
+  if (columns.length === 0) {
+    throw new Error("Choose at least one column to export");
+  }
+
+  const items = exportItems(rows, layout, context);
+  const values = items.map((item) =>
+    columns.map((column) => column.value(item, context))
+  );
+  const headers = columns.map((column) => column.label);
+  const { mimeType, extension } = EXPORT_FORMATS[format];
+
+  let content: BlobPart;
+  if (format === "csv") {
+    // The byte order mark makes Excel read the file as UTF-8
+    content = `\uFEFF${toCsv(headers, values)}`;
+  } else if (format === "xlsx") {
+    const workbook = XLSX.utils.book_new();
+    const worksheet = XLSX.utils.aoa_to_sheet([headers, ...values]);
+    XLSX.utils.book_append_sheet(
+      workbook,
+      worksheet,
+      EXPORT_LAYOUTS[layout].label
+    );
+    content = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  } else {
+    const records = values.map((cells) =>
+      Object.fromEntries(columns.map((column, i) => [column.id, cells[i]]))
+    );
+    content = JSON.stringify(records, null, 2);
+  }
+
+  return { content, mimeType, extension, count: items.length };
+};
+
+export const defaultExportFileName = (layout: ExportLayout) =>
+  `space_fundraises_${layout}_${new Date().toISOString().slice(0, 10)}`;
+
+export const downloadExport = (file: ExportFile, fileName: string) => {
+  const blob = new Blob([file.content], { type: file.mimeType });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${fileName}.${file.extension}`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
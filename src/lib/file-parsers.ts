@@ -0,0 +1,201 @@
+import * as XLSX from "xlsx";
+import Papa from "papaparse";
+import type { ParsedTable, SourceRow } from "@/types/import";
+
+export const SUPPORTED_EXTENSIONS = [
+  ".csv",
+  ".tsv",
+  ".tab",
+  ".xlsx",
+  ".xls",
+  ".json",
+  ".ndjson",
+  ".jsonl",
+];
+
+export const PASTED_TABLE_NAME = "Pasted table";
+
+const parseDelimitedFile = (
+  file: File,
+  delimiter: "," | "\t"
+): Promise<ParsedTable> =>
+  new Promise((resolve, reject) => {
+    Papa.parse<SourceRow>(file, {
+      header: true,
+      delimiter,
+      skipEmptyLines: "greedy",
+      complete: (results) => {
+        resolve({
+          fileName: file.name,
+          sheetName: null,
+          columns: results.meta.fields ?? [],
+          rows: results.data,
+        });
+      },
+      error: (error) => {
+        const format = delimiter === "\t" ? "TSV" : "CSV";
+        reject(new Error(`${format} parsing error: ${error.message}`));
+      },
+    });
+  });
+
+export const parseCsvFile = (file: File) => parseDelimitedFile(file, ",");
+
+export const parseTsvFile = (file: File) => parseDelimitedFile(file, "\t");
+
+/**
+ * Reads every sheet of a workbook, in workbook order. Sheets without a header
+ * row or without data rows are left out.
+ */
+export const parseWorkbookFile = async (file: File): Promise<ParsedTable[]> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const workbook = XLSX.read(new Uint8Array(arrayBuffer), { type: "array" });
+
+  return workbook.SheetNames.map((sheetName) => {
+    const worksheet = workbook.Sheets[sheetName];
+    const rows = XLSX.utils.sheet_to_json<SourceRow>(worksheet);
+    // Rows leave out empty cells, so headers come from the sheet itself
+    const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+      header: 1,
+    });
+
+    return {
+      fileName: file.name,
+      sheetName,
+      columns: headerRow.map(String).filter(Boolean),
+      rows,
+    };
+  }).filter((table) => table.columns.length > 0 && table.rows.length > 0);
+};
+
+// Nested values would otherwise show up as "[object Object]" in the mapping
+const toCell = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value
+      .map((item) =>
+        item !== null && typeof item === "object" ? JSON.stringify(item) : item
+      )
+      .join(", ");
+  }
+  if (value !== null && typeof value === "object") return JSON.stringify(value);
+  return value;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const tableFromRecords = (
+  records: unknown[],
+  fileName: string
+): ParsedTable => {
+  const objects = records.filter(isRecord);
+  if (objects.length < records.length) {
+    throw new Error("Every JSON row must be an object of column values.");
+  }
+
+  // Records may leave keys out, so headers are collected from all of them
+  const columns = [
+    ...new Set(objects.flatMap((record) => Object.keys(record))),
+  ];
+  const rows = objects.map((record) =>
+    Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key, toCell(value)])
+    )
+  );
+
+  return { fileName, sheetName: null, columns, rows };
+};
+
+/**
+ * Reads a JSON array of row objects, an object wrapping such an array (as in
+ * {"rounds": [...]}) or newline-delimited JSON with one object per line.
+ */
+export const parseJsonText = (text: string, fileName: string): ParsedTable => {
+  const trimmed = text.trim();
+
+  let document: unknown;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    // Not a single document, so try one object per line
+    const lines = trimmed.split(/\r?\n/).filter((line) => line.trim());
+    const records = lines.map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON.`);
+      }
+    });
+    return tableFromRecords(records, fileName);
+  }
+
+  if (Array.isArray(document)) return tableFromRecords(document, fileName);
+
+  if (isRecord(document)) {
+    const wrapped = Object.values(document).find(
+      (value) => Array.isArray(value) && value.some(isRecord)
+    );
+    return tableFromRecords(
+      Array.isArray(wrapped) ? wrapped : [document],
+      fileName
+    );
+  }
+
+  throw new Error("The JSON does not contain any rows.");
+};
+
+export const parseJsonFile = async (file: File): Promise<ParsedTable> =>
+  parseJsonText(await file.text(), file.name);
+
+/**
+ * Reads a table pasted from a spreadsheet or a text file. Spreadsheets copy
+ * as tab-separated text; anything without tabs is read as CSV, and text that
+ * starts like JSON as JSON.
+ */
+export const parsePastedTable = (text: string): ParsedTable => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    return parseJsonText(trimmed, PASTED_TABLE_NAME);
+  }
+
+  const [firstLine = ""] = trimmed.split(/\r?\n/, 1);
+  const results = Papa.parse<SourceRow>(trimmed, {
+    header: true,
+    delimiter: firstLine.includes("\t") ? "\t" : ",",
+    skipEmptyLines: "greedy",
+  });
+
+  return {
+    fileName: PASTED_TABLE_NAME,
+    sheetName: null,
+    columns: (results.meta.fields ?? []).filter(Boolean),
+    rows: results.data,
+  };
+};
+
+/**
+ * Reads an uploaded file into one table per sheet, choosing the parser from
+ * the file extension.
+ */
+export const parseFile = async (file: File): Promise<ParsedTable[]> => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  switch (extension) {
+    case "csv":
+      return [await parseCsvFile(file)];
+    case "tsv":
+    case "tab":
+      return [await parseTsvFile(file)];
+    case "xlsx":
+    case "xls":
+      return parseWorkbookFile(file);
+    case "json":
+    case "ndjson":
+    case "jsonl":
+      return [await parseJsonFile(file)];
+    default:
+      throw new Error(
+        "Unsupported file type. Please upload a CSV, TSV, XLSX or JSON file."
+      );
+  }
+};
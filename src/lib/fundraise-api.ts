@@ -0,0 +1,167 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  amountsDisagree,
+  normalizeAmount,
+  type NormalizedAmount,
+} from "@/lib/amounts";
+import type { Tables } from "@/integrations/supabase/types";
+import { resolveCompanyIds } from "@/lib/companies-api";
+import { linkRoundInvestors } from "@/lib/investor-firms-api";
+import type { EnrichmentTrace } from "@/types/enrichment";
+import type {
+  EditableField,
+  ExtractionError,
+  FieldProvenanceMap,
+  FundraiseData,
+  FundraiseStatus,
+  NewFundraiseData,
+} from "@/types/fundraise";
+import type { ImportConflict, ImportPlan } from "@/types/import";
+
+const INSERT_BATCH_SIZE = 500;
+const PAGE_SIZE = 1000;
+
+export const toFundraiseData = (
+  row: Tables<"fundraise_data">
+): FundraiseData => ({
+  ...row,
+  amount_user: row.amount_user as NormalizedAmount | null,
+  amount_extracted: row.amount_extracted as NormalizedAmount | null,
+  extraction_errors: row.extraction_errors as unknown as ExtractionError[],
+  field_provenance: row.field_provenance as FieldProvenanceMap,
+  enrichment_trace: row.enrichment_trace as unknown as EnrichmentTrace | null,
+  locked_fields: row.locked_fields as EditableField[],
+  status: (row.status ?? "pending") as FundraiseStatus,
+});
+
+export const fetchFundraiseData = async (
+  projectId: string
+): Promise<FundraiseData[]> => {
+  const rows: FundraiseData[] = [];
+
+  // PostgREST caps each response, so large datasets are read page by page
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("fundraise_data")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: true })
+      .order("source_row", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load fundraise data: ${error.message}`);
+    }
+
+    rows.push(...data.map(toFundraiseData));
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export const insertFundraiseData = async (
+  rows: NewFundraiseData[],
+  projectId: string
+): Promise<FundraiseData[]> => {
+  const inserted: FundraiseData[] = [];
+
+  // Large spreadsheets are split so a single request stays under the API body limit
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE).map((row) => ({
+      ...row,
+      project_id: projectId,
+      amount_user: normalizeAmount(row.amount_raised, row.date_raised),
+    }));
+    const { data, error } = await supabase
+      .from("fundraise_data")
+      .insert(batch)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save fundraise data: ${error.message}`);
+    }
+
+    inserted.push(...data.map(toFundraiseData));
+  }
+
+  return inserted;
+};
+
+/**
+ * Replaces the uploaded values of saved rows with the matching rows of a new
+ * upload. Columns corrected by hand keep the correction, and enrichment
+ * results are kept; the amount mismatch is checked again against the amount
+ * the row ends up with.
+ */
+export const overwriteFundraiseData = async (
+  conflicts: ImportConflict[]
+): Promise<FundraiseData[]> => {
+  const updated: FundraiseData[] = [];
+
+  for (const { row, existing } of conflicts) {
+    const locked = new Set(existing.locked_fields ?? []);
+    const nextValue = (
+      field: "company_name" | "date_raised" | "amount_raised" | "investors"
+    ) => (locked.has(field) ? existing[field] : row[field]);
+
+    const dateRaised = nextValue("date_raised");
+    const amountRaised = nextValue("amount_raised");
+    const amountUser = normalizeAmount(amountRaised, dateRaised);
+    const { data, error } = await supabase
+      .from("fundraise_data")
+      .update({
+        company_name: nextValue("company_name"),
+        company_id: locked.has("company_name")
+          ? (existing.company_id ?? null)
+          : (row.company_id ?? existing.company_id ?? null),
+        date_raised: dateRaised,
+        amount_raised: amountRaised,
+        investors: nextValue("investors"),
+        source_row: row.source_row,
+        source_sheet: row.source_sheet ?? null,
+        amount_user: amountUser,
+        amount_mismatch: amountsDisagree(amountUser, existing.amount_extracted),
+      })
+      .eq("id", existing.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update fundraise data: ${error.message}`);
+    }
+
+    updated.push(toFundraiseData(data));
+  }
+
+  return updated;
+};
+
+/**
+ * Saves an import plan to a project, linking every row to its company first
+ * and to the investor firms its investors text names afterwards.
+ */
+export const importFundraiseData = async (
+  plan: ImportPlan,
+  projectId: string
+): Promise<FundraiseData[]> => {
+  const companyIds = await resolveCompanyIds([
+    ...plan.insert.map((row) => row.company_name),
+    ...plan.overwrite.map(({ row }) => row.company_name),
+  ]);
+  const withCompany = (row: NewFundraiseData): NewFundraiseData => ({
+    ...row,
+    company_id: companyIds.get(row.company_name.trim()) ?? null,
+  });
+
+  const saved = [
+    ...(await insertFundraiseData(plan.insert.map(withCompany), projectId)),
+    ...(await overwriteFundraiseData(
+      plan.overwrite.map((conflict) => ({
+        ...conflict,
+        row: withCompany(conflict.row),
+      }))
+    )),
+  ];
+  await linkRoundInvestors(saved);
+
+  return saved;
+};
@@ -0,0 +1,17 @@
+import type { FundraiseData } from "@/types/fundraise";
+
+const isMissing = (value: string | null | undefined) =>
+  !value || value === "N/A";
+
+/**
+ * True for finished rows where enrichment left at least one field empty.
+ */
+export const hasMissingFields = (row: FundraiseData) =>
+  row.status === "completed" &&
+  ([
+    row.press_url_1,
+    row.press_url_2,
+    row.press_url_3,
+    row.investor_contacts,
+  ].some(isMissing) ||
+    !row.amount_extracted);
@@ -0,0 +1,91 @@
+import { isAmountPlaceholder, parseAmount } from "@/lib/amounts";
+import { findCompanyMatch, type CompanyIdentity } from "@/lib/companies";
+import { NOT_SPECIFIED } from "@/lib/import-rows";
+import type {
+  Company,
+  FundraiseData,
+  NewFundraiseData,
+} from "@/types/fundraise";
+import type { ImportConflict, ImportPlan, MergeAction } from "@/types/import";
+
+type RoundFields = Pick<NewFundraiseData, "date_raised" | "amount_raised">;
+
+const valueKey = (text: string) =>
+  text === NOT_SPECIFIED ? "" : text.trim().toLowerCase();
+
+const amountKey = (text: string) => {
+  if (isAmountPlaceholder(text)) return "";
+  const amount = parseAmount(text);
+  return amount ? `${amount.currency}:${amount.value}` : valueKey(text);
+};
+
+/**
+ * Identifies a round's details regardless of how they were written: the
+ * round date and the parsed amount.
+ */
+export const roundKey = (row: RoundFields): string =>
+  [valueKey(row.date_raised), amountKey(row.amount_raised)].join("|");
+
+type SavedRound = CompanyIdentity & { row: FundraiseData };
+
+/**
+ * Uploaded rows that describe a round already in the dataset: same date and
+ * amount, for the same company. Companies match on their normalized names,
+ * fuzzily, and on the aliases of the company a saved row is linked to.
+ */
+export const findImportConflicts = (
+  rows: NewFundraiseData[],
+  existing: FundraiseData[],
+  companies: Company[] = []
+): ImportConflict[] => {
+  const companiesById = new Map(
+    companies.map((company) => [company.id, company])
+  );
+
+  const savedByKey = new Map<string, SavedRound[]>();
+  for (const row of existing) {
+    const company = row.company_id ? companiesById.get(row.company_id) : null;
+    const saved: SavedRound = {
+      name: row.company_name,
+      aliases: company ? [company.name, ...company.aliases] : [],
+      row,
+    };
+    const key = roundKey(row);
+    savedByKey.set(key, [...(savedByKey.get(key) ?? []), saved]);
+  }
+
+  return rows.flatMap((row) => {
+    const candidates = savedByKey.get(roundKey(row)) ?? [];
+    const saved = findCompanyMatch(row.company_name, candidates);
+    return saved ? [{ row, existing: saved.row }] : [];
+  });
+};
+
+/**
+ * Splits an upload into rows to insert and saved rows to overwrite, applying
+ * the action chosen for each conflict. Conflicts without a choice keep the
+ * saved row.
+ */
+export const planImport = (
+  rows: NewFundraiseData[],
+  conflicts: ImportConflict[],
+  actions: Map<NewFundraiseData, MergeAction>
+): ImportPlan => {
+  const conflictsByRow = new Map(
+    conflicts.map((conflict) => [conflict.row, conflict])
+  );
+  const plan: ImportPlan = { insert: [], overwrite: [], skipped: 0 };
+
+  for (const row of rows) {
+    const conflict = conflictsByRow.get(row);
+    const action = conflict
+      ? (actions.get(row) ?? "keep_existing")
+      : "keep_both";
+
+    if (action === "keep_both") plan.insert.push(row);
+    else if (action === "overwrite" && conflict) plan.overwrite.push(conflict);
+    else plan.skipped++;
+  }
+
+  return plan;
+};
@@ -0,0 +1,179 @@
+import { isAmountPlaceholder, parseAmount } from "@/lib/amounts";
+import { normalizeCompanyName } from "@/lib/companies";
+import type { NewFundraiseData } from "@/types/fundraise";
+import type { ImportDraftRow, ImportIssue } from "@/types/import";
+
+export const NOT_SPECIFIED = "Not specified";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_PREFIX = /^(\d{4}-\d{2}-\d{2})(?:[T ]|$)/;
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/;
+// "2023", "May 2023", "05/2023" and "2023-05" name no day
+const YEAR_ONLY = /^\d{4}$/;
+const MONTH_YEAR =
+  /^(?:[a-z]+\.?,?\s+\d{4}|\d{1,2}[/.-]\d{4}|\d{4}[/.-]\d{1,2})$/i;
+
+const isPartialDate = (text: string) =>
+  YEAR_ONLY.test(text) || MONTH_YEAR.test(text);
+
+const toIsoDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+/**
+ * Converts Excel serial dates and parseable date strings to YYYY-MM-DD and
+ * leaves anything else as it was written. Bare years and month-year values
+ * are kept as written rather than given a made-up day.
+ */
+export const formatDate = (dateValue: string | number): string => {
+  const text = String(dateValue).trim();
+  if (isPartialDate(text)) return text;
+
+  if (text !== "" && !isNaN(Number(text))) {
+    // Serial days since 1899-12-30, counted in UTC
+    const excelDate = new Date((Number(text) - 25569) * 86400 * 1000);
+    if (!isNaN(excelDate.getTime())) {
+      return toIsoDate(
+        excelDate.getUTCFullYear(),
+        excelDate.getUTCMonth() + 1,
+        excelDate.getUTCDate()
+      );
+    }
+  }
+
+  const iso = text.match(ISO_DATE_PREFIX);
+  if (iso) return iso[1];
+
+  // Other formats are parsed in local time, so the local calendar day is kept
+  const date = new Date(text);
+  if (!isNaN(date.getTime())) {
+    return toIsoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  return text;
+};
+
+/**
+ * How a row is referred to in messages: its row number in the file, prefixed
+ * with the sheet name for workbooks.
+ */
+export const draftRowLabel = (row: ImportDraftRow): string =>
+  row.source_sheet
+    ? `${row.source_sheet} row ${row.sheet_row + 1}`
+    : `row ${row.sheet_row + 1}`;
+
+// "Rocket Lab USA, Inc." and "RocketLab" group together
+export const companyKey = (name: string) =>
+  normalizeCompanyName(name).replace(/ /g, "");
+
+const dateIssue = (
+  text: string
+): Pick<ImportIssue, "kind" | "message"> | null => {
+  if (!text) return null;
+
+  if (isPartialDate(text)) {
+    return {
+      kind: "partial_date",
+      message: `"${text}" has no day; it will be kept as written and left out of date filters`,
+    };
+  }
+
+  // 03/04/2023 reads as March 4th here but April 3rd in most of the world
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric && numeric[1] !== numeric[2]) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    if (first <= 12 && second <= 12) {
+      return {
+        kind: "ambiguous_date",
+        message: `"${text}" could be month/day or day/month; it will be read as ${formatDate(text)}`,
+      };
+    }
+  }
+
+  if (!ISO_DATE.test(formatDate(text))) {
+    return {
+      kind: "ambiguous_date",
+      message: `"${text}" is not a date that can be read; it will be kept as text`,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Problems worth a look before the rows are imported. Excluded rows are not
+ * checked and do not count as duplicates.
+ */
+export const validateDraftRows = (rows: ImportDraftRow[]): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+  const included = rows.filter((row) => !row.excluded);
+
+  const rowsByCompany = new Map<string, ImportDraftRow[]>();
+  for (const row of included) {
+    const key = companyKey(row.values.company_name);
+    if (!key) continue;
+    rowsByCompany.set(key, [...(rowsByCompany.get(key) ?? []), row]);
+  }
+
+  for (const { source_row, values } of included) {
+    if (!values.company_name.trim()) {
+      issues.push({
+        source_row,
+        field: "company_name",
+        kind: "missing_company",
+        message: "No company name; the row will be skipped",
+      });
+      continue;
+    }
+
+    const date = dateIssue(values.date_raised.trim());
+    if (date) {
+      issues.push({ source_row, field: "date_raised", ...date });
+    }
+
+    const amount = values.amount_raised.trim();
+    if (amount && !isAmountPlaceholder(amount) && !parseAmount(amount)) {
+      issues.push({
+        source_row,
+        field: "amount_raised",
+        kind: "unparseable_amount",
+        message: `"${amount}" is not an amount that can be read`,
+      });
+    }
+
+    const sameCompany = rowsByCompany
+      .get(companyKey(values.company_name))
+      ?.filter((other) => other.source_row !== source_row);
+    if (sameCompany?.length) {
+      issues.push({
+        source_row,
+        field: "company_name",
+        kind: "duplicate_company",
+        message: `Same company as ${sameCompany.map(draftRowLabel).join(", ")}`,
+      });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Rows to insert once the review is done. Excluded rows and rows still
+ * missing a company name are left out.
+ */
+export const draftsToFundraiseData = (
+  rows: ImportDraftRow[]
+): NewFundraiseData[] =>
+  rows
+    .filter((row) => !row.excluded && row.values.company_name.trim())
+    .map(({ source_row, source_sheet, values }) => {
+      const dateRaised = values.date_raised.trim();
+      return {
+        company_name: values.company_name.trim(),
+        date_raised: dateRaised ? formatDate(dateRaised) : NOT_SPECIFIED,
+        amount_raised: values.amount_raised.trim() || NOT_SPECIFIED,
+        investors: values.investors.trim() || NOT_SPECIFIED,
+        status: "pending",
+        source_row,
+        source_sheet,
+      };
+    });
@@ -0,0 +1,253 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { parseInvestors, planFirmResolution } from "@/lib/investors";
+import type {
+  ContactRoundRole,
+  FundraiseData,
+  InvestorFirm,
+  RoundInvestor,
+  RoundInvestorSource,
+} from "@/types/fundraise";
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+// Round ids go into the request URL when deleting, so fewer per request
+const DELETE_BATCH_SIZE = 100;
+
+export interface UpdateInvestorFirmInput {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+export const toInvestorFirm = (row: Tables<"investor_firms">): InvestorFirm =>
+  row;
+
+export const toRoundInvestor = (
+  row: Tables<"fundraise_investors">
+): RoundInvestor => ({
+  ...row,
+  round_role: row.round_role as ContactRoundRole,
+  source: row.source as RoundInvestorSource,
+});
+
+export const fetchInvestorFirms = async (): Promise<InvestorFirm[]> => {
+  const firms: InvestorFirm[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("investor_firms")
+      .select("*")
+      .order("name", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load investor firms: ${error.message}`);
+    }
+
+    firms.push(...data.map(toInvestorFirm));
+    if (data.length < PAGE_SIZE) return firms;
+  }
+};
+
+export const fetchRoundInvestors = async (): Promise<RoundInvestor[]> => {
+  const links: RoundInvestor[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("fundraise_investors")
+      .select("*")
+      .order("created_at", { ascending: true })
+      .order("fundraise_id", { ascending: true })
+      .order("firm_id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load round investors: ${error.message}`);
+    }
+
+    links.push(...data.map(toRoundInvestor));
+    if (data.length < PAGE_SIZE) return links;
+  }
+};
+
+const uniqueValues = (values: string[]) => [
+  ...new Set(values.map((value) => value.trim()).filter(Boolean)),
+];
+
+export const updateInvestorFirm = async ({
+  id,
+  name,
+  aliases,
+}: UpdateInvestorFirmInput): Promise<InvestorFirm> => {
+  const { data, error } = await supabase
+    .from("investor_firms")
+    .update({
+      name: name.trim(),
+      aliases: uniqueValues(aliases).filter((alias) => alias !== name.trim()),
+    })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update investor firm: ${error.message}`);
+  }
+
+  return toInvestorFirm(data);
+};
+
+/**
+ * Folds a duplicate firm into another; its rounds, contacts and spellings
+ * move to the firm that is kept.
+ */
+export const mergeInvestorFirms = async (
+  sourceId: string,
+  targetId: string
+): Promise<InvestorFirm> => {
+  const { data, error } = await supabase.rpc("merge_investor_firms", {
+    p_source_id: sourceId,
+    p_target_id: targetId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to merge investor firms: ${error.message}`);
+  }
+
+  return toInvestorFirm(data);
+};
+
+/**
+ * Finds or creates the firm for each name and returns their ids by name.
+ */
+export const resolveFirmIds = async (
+  names: string[]
+): Promise<Map<string, string>> => {
+  const plan = planFirmResolution(names, await fetchInvestorFirms());
+  const ids = new Map([...plan.matched].map(([name, firm]) => [name, firm.id]));
+
+  if (plan.created.length > 0) {
+    const { data, error } = await supabase
+      .from("investor_firms")
+      .upsert(plan.created, { onConflict: "normalized_name" })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save investor firms: ${error.message}`);
+    }
+
+    const byNormalizedName = new Map(
+      data.map((row) => [row.normalized_name, row.id])
+    );
+    for (const [name, normalizedName] of plan.createdFor) {
+      const id = byNormalizedName.get(normalizedName);
+      if (id) ids.set(name, id);
+    }
+  }
+
+  for (const [firm, aliases] of plan.newAliases) {
+    await updateInvestorFirm({
+      id: firm.id,
+      name: firm.name,
+      aliases: [...firm.aliases, ...aliases],
+    });
+  }
+
+  return ids;
+};
+
+/**
+ * Rebuilds the firms linked to rounds from their investors text. Links found
+ * during extraction are kept unless the text names the same firm.
+ */
+export const linkRoundInvestors = async (
+  rows: FundraiseData[]
+): Promise<RoundInvestor[]> => {
+  const parsed = rows.map((row) => ({
+    id: row.id,
+    investors: parseInvestors(row.investors),
+  }));
+  const firmIds = await resolveFirmIds(
+    parsed.flatMap(({ investors }) => investors.map(({ name }) => name))
+  );
+
+  for (let i = 0; i < rows.length; i += DELETE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("fundraise_investors")
+      .delete()
+      .eq("source", "upload")
+      .in(
+        "fundraise_id",
+        rows.slice(i, i + DELETE_BATCH_SIZE).map((row) => row.id)
+      );
+
+    if (error) {
+      throw new Error(`Failed to clear round investors: ${error.message}`);
+    }
+  }
+
+  const links = parsed.flatMap(({ id, investors }) => {
+    const seen = new Set<string>();
+    return investors.flatMap(({ name, lead }) => {
+      const firmId = firmIds.get(name);
+      // Two spellings of one firm in the same round link it once
+      if (!firmId || seen.has(firmId)) return [];
+      seen.add(firmId);
+      return [
+        {
+          fundraise_id: id,
+          firm_id: firmId,
+          round_role: lead ? "lead" : "participant",
+          source: "upload",
+        },
+      ];
+    });
+  });
+
+  const linked: RoundInvestor[] = [];
+  for (let i = 0; i < links.length; i += INSERT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("fundraise_investors")
+      .upsert(links.slice(i, i + INSERT_BATCH_SIZE), {
+        onConflict: "fundraise_id,firm_id",
+      })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save round investors: ${error.message}`);
+    }
+
+    linked.push(...data.map(toRoundInvestor));
+  }
+
+  return linked;
+};
+
+const ROLE_ORDER: Record<ContactRoundRole, number> = {
+  lead: 0,
+  participant: 1,
+  unknown: 2,
+};
+
+/**
+ * Firm links keyed by round, leads first.
+ */
+export const groupInvestorsByRound = (
+  links: RoundInvestor[]
+): Map<string, RoundInvestor[]> => {
+  const byRound = new Map<string, RoundInvestor[]>();
+
+  for (const link of links) {
+    const roundLinks = byRound.get(link.fundraise_id) ?? [];
+    roundLinks.push(link);
+    byRound.set(link.fundraise_id, roundLinks);
+  }
+
+  for (const roundLinks of byRound.values()) {
+    roundLinks.sort(
+      (a, b) => ROLE_ORDER[a.round_role] - ROLE_ORDER[b.round_role]
+    );
+  }
+
+  return byRound;
+};
@@ -0,0 +1,9 @@
+// Firm name parsing is shared with the enrichment function, so uploads and
+// extracted contacts resolve to the same firms.
+export {
+  normalizeFirmName,
+  parseInvestors,
+  planFirmResolution,
+  type NewInvestorFirm,
+  type ParsedInvestor,
+} from "../../supabase/functions/_shared/investors.ts";
@@ -0,0 +1,48 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ColumnMapping, MappingProfile } from "@/types/import";
+
+export interface SaveMappingProfileInput {
+  name: string;
+  source_columns: string[];
+  mapping: ColumnMapping;
+}
+
+export const toMappingProfile = (
+  row: Tables<"column_mapping_profiles">
+): MappingProfile => ({
+  ...row,
+  mapping: row.mapping as ColumnMapping,
+});
+
+export const fetchMappingProfiles = async (): Promise<MappingProfile[]> => {
+  const { data, error } = await supabase
+    .from("column_mapping_profiles")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load mapping profiles: ${error.message}`);
+  }
+
+  return data.map(toMappingProfile);
+};
+
+/**
+ * Saves a profile, replacing any existing profile with the same name.
+ */
+export const saveMappingProfile = async (
+  profile: SaveMappingProfileInput
+): Promise<MappingProfile> => {
+  const { data, error } = await supabase
+    .from("column_mapping_profiles")
+    .upsert(profile, { onConflict: "name" })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save mapping profile: ${error.message}`);
+  }
+
+  return toMappingProfile(data);
+};
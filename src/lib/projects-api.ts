@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { EnrichmentOptions } from "@/types/enrichment";
+import type { Project, ProjectInput } from "@/types/project";
+
+export type ProjectUpdate = Partial<ProjectInput> & {
+  enrichment_settings?: EnrichmentOptions;
+};
+
+// Remembers the project last opened, which the root route goes back to
+const LAST_PROJECT_KEY = "fundraise-last-project";
+
+export const toProject = (row: Tables<"projects">): Project => ({
+  ...row,
+  enrichment_settings: (row.enrichment_settings ?? {}) as EnrichmentOptions,
+});
+
+export const getLastProjectId = () => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string) =>
+  localStorage.setItem(LAST_PROJECT_KEY, id);
+
+export const fetchProjects = async (): Promise<Project[]> => {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load projects: ${error.message}`);
+  }
+
+  return data.map(toProject);
+};
+
+export const createProject = async (
+  project: ProjectInput
+): Promise<Project> => {
+  const { data, error } = await supabase
+    .from("projects")
+    .insert({
+      name: project.name.trim(),
+      description: project.description?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create project: ${error.message}`);
+  }
+
+  return toProject(data);
+};
+
+export const updateProject = async (
+  id: string,
+  update: ProjectUpdate
+): Promise<Project> => {
+  const { data, error } = await supabase
+    .from("projects")
+    .update({
+      ...(update.name !== undefined && { name: update.name.trim() }),
+      ...(update.description !== undefined && {
+        description: update.description?.trim() || null,
+      }),
+      ...(update.enrichment_settings && {
+        enrichment_settings: update.enrichment_settings as Json,
+      }),
+    })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update project: ${error.message}`);
+  }
+
+  return toProject(data);
+};
+
+/**
+ * Deletes a project with its rows and enrichment history. Companies and
+ * investor firms are shared between projects and stay.
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  const { error } = await supabase.from("projects").delete().eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to delete project: ${error.message}`);
+  }
+};
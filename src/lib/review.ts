@@ -0,0 +1,35 @@
+import type { FundraiseData, ProvenanceField } from "@/types/fundraise";
+
+// Matches REVIEW_THRESHOLD in the enrichment function
+export const LOW_CONFIDENCE = 0.6;
+
+export const REVIEW_FIELDS: { field: ProvenanceField; label: string }[] = [
+  { field: "amount_extracted", label: "Amount" },
+  { field: "investor_contacts", label: "Investor contacts" },
+  { field: "press_url_1", label: "Press URL 1" },
+  { field: "press_url_2", label: "Press URL 2" },
+  { field: "press_url_3", label: "Press URL 3" },
+];
+
+export const isUrlField = (field: ProvenanceField) =>
+  field.startsWith("press_url_");
+
+/**
+ * The enriched value of a field as text, or null when nothing was found.
+ */
+export const reviewValue = (
+  row: FundraiseData,
+  field: ProvenanceField
+): string | null => {
+  const value =
+    field === "amount_extracted"
+      ? row.amount_extracted?.original_text
+      : row[field];
+  return value && value !== "N/A" ? value : null;
+};
+
+/**
+ * Rows waiting in the review queue, in table order.
+ */
+export const reviewQueue = (rows: FundraiseData[]) =>
+  rows.filter((row) => row.status === "needs_review");
@@ -0,0 +1,34 @@
+import type { SearchProviderId } from "@/types/enrichment";
+
+export interface SearchProviderSetting {
+  id: SearchProviderId;
+  enabled: boolean;
+}
+
+export const SEARCH_PROVIDER_LABELS: Record<SearchProviderId, string> = {
+  google_cse: "Google Custom Search",
+  llm: "LLM URL recall",
+  serpapi: "SerpAPI",
+};
+
+// Mirrors the default order used by the enrich-fundraise-data function
+export const DEFAULT_SEARCH_PROVIDERS: SearchProviderSetting[] = [
+  { id: "google_cse", enabled: true },
+  { id: "llm", enabled: true },
+  { id: "serpapi", enabled: true },
+];
+
+/**
+ * The settings for a saved list of enabled providers: those in their saved
+ * order, then the rest switched off. Undefined when nothing was saved, so the
+ * server-side default order applies.
+ */
+export const toSearchProviderSettings = (
+  enabled?: SearchProviderId[]
+): SearchProviderSetting[] | undefined =>
+  enabled && [
+    ...enabled.map((id) => ({ id, enabled: true })),
+    ...DEFAULT_SEARCH_PROVIDERS.filter(
+      (provider) => !enabled.includes(provider.id)
+    ).map((provider) => ({ ...provider, enabled: false })),
+  ];
@@ -0,0 +1,255 @@
+import type {
+  FundraiseData,
+  FundraiseStatus,
+  InvestorContact,
+  InvestorFirm,
+  RoundInvestor,
+} from "@/types/fundraise";
+
+export type SortColumn = "company_name" | "date_raised" | "amount" | "status";
+
+export type SortDirection = "asc" | "desc";
+
+export interface TableFilters {
+  // Free text; every word must appear in the company, investors or contacts
+  query: string;
+  statuses: FundraiseStatus[];
+  // YYYY-MM-DD, inclusive
+  dateFrom: string | null;
+  dateTo: string | null;
+  // Millions of USD, inclusive
+  amountMin: number | null;
+  amountMax: number | null;
+  sort: { column: SortColumn; direction: SortDirection } | null;
+}
+
+export interface TableFilterContext {
+  contactsByRound: Map<string, InvestorContact[]>;
+  investorsByRound: Map<string, RoundInvestor[]>;
+  firmsById: Map<string, InvestorFirm>;
+}
+
+export const FUNDRAISE_STATUSES: { status: FundraiseStatus; label: string }[] =
+  [
+    { status: "pending", label: "Pending" },
+    { status: "processing", label: "Processing" },
+    { status: "completed", label: "Completed" },
+    { status: "needs_review", label: "Needs review" },
+    { status: "error", label: "Error" },
+  ];
+
+const SORT_COLUMNS: SortColumn[] = [
+  "company_name",
+  "date_raised",
+  "amount",
+  "status",
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Search parameter names, kept short so shared links stay readable
+const PARAMS = {
+  query: "q",
+  statuses: "status",
+  dateFrom: "from",
+  dateTo: "to",
+  amountMin: "min",
+  amountMax: "max",
+  sort: "sort",
+  direction: "dir",
+};
+
+export const EMPTY_FILTERS: TableFilters = {
+  query: "",
+  statuses: [],
+  dateFrom: null,
+  dateTo: null,
+  amountMin: null,
+  amountMax: null,
+  sort: null,
+};
+
+const toNumber = (value: string | null) => {
+  if (value === null || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const toDate = (value: string | null) =>
+  value && ISO_DATE.test(value) ? value : null;
+
+/**
+ * Reads table filters from the page's search parameters. Unknown or malformed
+ * values are ignored.
+ */
+export const parseTableFilters = (params: URLSearchParams): TableFilters => {
+  const statuses = (params.get(PARAMS.statuses) ?? "")
+    .split(",")
+    .filter((status): status is FundraiseStatus =>
+      FUNDRAISE_STATUSES.some((option) => option.status === status)
+    );
+  const column = params.get(PARAMS.sort) as SortColumn | null;
+
+  return {
+    query: params.get(PARAMS.query) ?? "",
+    statuses,
+    dateFrom: toDate(params.get(PARAMS.dateFrom)),
+    dateTo: toDate(params.get(PARAMS.dateTo)),
+    amountMin: toNumber(params.get(PARAMS.amountMin)),
+    amountMax: toNumber(params.get(PARAMS.amountMax)),
+    sort:
+      column && SORT_COLUMNS.includes(column)
+        ? {
+            column,
+            direction: params.get(PARAMS.direction) === "desc" ? "desc" : "asc",
+          }
+        : null,
+  };
+};
+
+/**
+ * Writes table filters into a copy of the search parameters, leaving other
+ * parameters alone and dropping empty filters.
+ */
+export const writeTableFilters = (
+  params: URLSearchParams,
+  filters: TableFilters
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const values: Record<keyof typeof PARAMS, string | null> = {
+    query: filters.query.trim() || null,
+    statuses: filters.statuses.join(",") || null,
+    dateFrom: filters.dateFrom,
+    dateTo: filters.dateTo,
+    amountMin: filters.amountMin?.toString() ?? null,
+    amountMax: filters.amountMax?.toString() ?? null,
+    sort: filters.sort?.column ?? null,
+    direction: filters.sort?.direction ?? null,
+  };
+
+  for (const [key, value] of Object.entries(values)) {
+    const name = PARAMS[key as keyof typeof PARAMS];
+    if (value) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+  }
+
+  return next;
+};
+
+export const hasActiveFilters = (filters: TableFilters) =>
+  filters.query.trim() !== "" ||
+  filters.statuses.length > 0 ||
+  filters.dateFrom !== null ||
+  filters.dateTo !== null ||
+  filters.amountMin !== null ||
+  filters.amountMax !== null;
+
+/**
+ * The round's size in USD: the uploaded amount, or the one found in the
+ * press when the upload had none.
+ */
+export const rowAmountUsd = (row: FundraiseData) =>
+  row.amount_user?.usd_value ?? row.amount_extracted?.usd_value ?? null;
+
+const searchText = (row: FundraiseData, context: TableFilterContext) =>
+  [
+    row.company_name,
+    row.investors,
+    row.investor_contacts,
+    ...(context.investorsByRound.get(row.id) ?? []).map(
+      (investor) => context.firmsById.get(investor.firm_id)?.name
+    ),
+    ...(context.contactsByRound.get(row.id) ?? []).flatMap((contact) => [
+      contact.name,
+      contact.firm,
+    ]),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+const matchesFilters = (
+  row: FundraiseData,
+  filters: TableFilters,
+  terms: string[],
+  context: TableFilterContext
+) => {
+  if (filters.statuses.length > 0 && !filters.statuses.includes(row.status)) {
+    return false;
+  }
+
+  // Dates that could not be read on import never match a date range
+  if (filters.dateFrom || filters.dateTo) {
+    if (!ISO_DATE.test(row.date_raised)) return false;
+    if (filters.dateFrom && row.date_raised < filters.dateFrom) return false;
+    if (filters.dateTo && row.date_raised > filters.dateTo) return false;
+  }
+
+  if (filters.amountMin !== null || filters.amountMax !== null) {
+    const amount = rowAmountUsd(row);
+    if (amount === null) return false;
+    if (filters.amountMin !== null && amount < filters.amountMin * 1e6) {
+      return false;
+    }
+    if (filters.amountMax !== null && amount > filters.amountMax * 1e6) {
+      return false;
+    }
+  }
+
+  if (terms.length > 0) {
+    const text = searchText(row, context);
+    if (!terms.every((term) => text.includes(term))) return false;
+  }
+
+  return true;
+};
+
+const sortValue = (
+  row: FundraiseData,
+  column: SortColumn
+): string | number | null => {
+  switch (column) {
+    case "company_name":
+      return row.company_name.toLowerCase();
+    case "date_raised":
+      return ISO_DATE.test(row.date_raised) ? row.date_raised : null;
+    case "amount":
+      return rowAmountUsd(row);
+    case "status":
+      return FUNDRAISE_STATUSES.findIndex(
+        (option) => option.status === row.status
+      );
+  }
+};
+
+/**
+ * The rows that pass the filters, in the requested order. Rows without a
+ * value for the sorted column go last in either direction.
+ */
+export const applyTableFilters = (
+  rows: FundraiseData[],
+  filters: TableFilters,
+  context: TableFilterContext
+): FundraiseData[] => {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const visible = rows.filter((row) =>
+    matchesFilters(row, filters, terms, context)
+  );
+
+  const { sort } = filters;
+  if (!sort) return visible;
+
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return visible
+    .map((row) => ({ row, value: sortValue(row, sort.column) }))
+    .sort((a, b) => {
+      if (a.value === b.value) return 0;
+      if (a.value === null) return 1;
+      if (b.value === null) return -1;
+      return (a.value < b.value ? -1 : 1) * sign;
+    })
+    .map(({ row }) => row);
+};
@@ -1,39 +1,83 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
 import { FileUpload } from "@/components/FileUpload";
+import { InvestorDirectoryDialog } from "@/components/InvestorDirectoryDialog";
 import { DataTable } from "@/components/DataTable";
 import { ProcessingStatus } from "@/components/ProcessingStatus";
+import { ProjectSwitcher } from "@/components/ProjectSwitcher";
+import { ReviewQueueDialog } from "@/components/ReviewQueueDialog";
 import { SpaceBackground } from "@/components/SpaceBackground";
-import { Rocket, Database, Brain, Sparkles, Orbit } from "lucide-react";
-
-interface FundraiseData {
-  id: string;
-  company_name: string;
-  date_raised: string;
-  amount_raised: string;
-  investors: string;
-  press_url_1?: string;
-  press_url_2?: string;
-  press_url_3?: string;
-  investor_contacts?: string;
-  status: "pending" | "processing" | "completed" | "error";
-}
+import {
+  useFundraiseData,
+  useFundraiseDataRealtime,
+  useImportFundraiseData,
+} from "@/hooks/use-fundraise-data";
+import { useCompanies } from "@/hooks/use-companies";
+import {
+  useInvestorFirms,
+  useInvestorFirmsRealtime,
+  useRoundInvestors,
+} from "@/hooks/use-investor-firms";
+import {
+  useInvestorContacts,
+  useInvestorContactsRealtime,
+} from "@/hooks/use-investor-contacts";
+import { useProjects, useProjectsRealtime } from "@/hooks/use-projects";
+import { Button } from "@/components/ui/button";
+import { setLastProjectId } from "@/lib/projects-api";
+import type { ImportPlan } from "@/types/import";
+import {
+  Rocket,
+  Database,
+  Brain,
+  Sparkles,
+  Orbit,
+  Plus,
+  X,
+} from "lucide-react";
 
 const Index = () => {
-  const [data, setData] = useState<FundraiseData[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [currentProcessing, setCurrentProcessing] = useState<string>("");
+  // Rendered only on /projects/:projectId
+  const { projectId } = useParams() as { projectId: string };
+  const {
+    data: projects = [],
+    isLoading: projectsLoading,
+    error: projectsError,
+  } = useProjects();
+  const project = projects.find((item) => item.id === projectId);
+  const {
+    data = [],
+    isLoading: rowsLoading,
+    error: rowsError,
+  } = useFundraiseData(projectId);
+  const importFundraiseData = useImportFundraiseData(projectId);
+  const { byRound: contactsByRound } = useInvestorContacts();
+  const { byId: companiesById } = useCompanies();
+  const { byId: firmsById } = useInvestorFirms();
+  const { byRound: investorsByRound } = useRoundInvestors();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showUpload, setShowUpload] = useState(false);
+  useProjectsRealtime();
+  useFundraiseDataRealtime(projectId);
+  useInvestorContactsRealtime();
+  useInvestorFirmsRealtime();
+  const isLoading = projectsLoading || rowsLoading;
+  const error = projectsError ?? rowsError;
 
-  const handleFileUpload = (uploadedData: FundraiseData[]) => {
-    setData(uploadedData);
-  };
+  // Selections and open uploads belong to the project they were made in
+  useEffect(() => {
+    setSelectedIds([]);
+    setShowUpload(false);
+  }, [projectId]);
 
-  const handleDataUpdate = (updatedData: FundraiseData[]) => {
-    setData(updatedData);
-  };
+  const openedProjectId = project?.id;
+  useEffect(() => {
+    if (openedProjectId) setLastProjectId(openedProjectId);
+  }, [openedProjectId]);
 
-  const startProcessing = () => {
-    setIsProcessing(true);
-    // This will be handled by ProcessingStatus component
+  const handleFileUpload = async (plan: ImportPlan) => {
+    await importFundraiseData.mutateAsync(plan);
+    setShowUpload(false);
   };
 
   return (
@@ -102,25 +146,82 @@ const Index = () => {
           </div>
         </div>
 
+        {project && (
+          <div className="flex items-center gap-3 mb-8">
+            <ProjectSwitcher
+              projects={projects}
+              current={project}
+              rowCount={data.length}
+            />
+            {project.description && (
+              <p className="text-gray-400">{project.description}</p>
+            )}
+          </div>
+        )}
+
         {/* Main Content with enhanced styling */}
-        {data.length === 0 ? (
+        {isLoading ? (
+          <div className="flex flex-col items-center gap-4 py-12">
+            <div className="animate-spin h-12 w-12 border-4 border-blue-400 border-t-transparent rounded-full"></div>
+            <p className="text-gray-300">Loading saved fundraise data...</p>
+          </div>
+        ) : error ? (
+          <div className="max-w-2xl mx-auto bg-red-500/10 border border-red-500/30 rounded-xl p-6 text-center text-red-300">
+            {error.message}
+          </div>
+        ) : !project ? (
+          <div className="max-w-2xl mx-auto bg-black/30 border border-gray-700 rounded-xl p-6 text-center text-gray-300">
+            This project does not exist or was deleted.{" "}
+            <Link
+              to="/"
+              className="text-blue-400 hover:text-blue-300 underline"
+            >
+              Open another project
+            </Link>
+          </div>
+        ) : data.length === 0 ? (
           <div className="transform hover:scale-[1.02] transition-transform duration-300">
             <FileUpload onFileUpload={handleFileUpload} />
           </div>
         ) : (
           <div className="space-y-8">
+            <div className="flex justify-end gap-2">
+              <ReviewQueueDialog rows={data} />
+              <InvestorDirectoryDialog rows={data} />
+              <Button
+                variant="outline"
+                onClick={() => setShowUpload((open) => !open)}
+                className="bg-black/30 border-gray-600 text-gray-200 hover:bg-gray-800 hover:text-white"
+              >
+                {showUpload ? (
+                  <X className="h-4 w-4 mr-2" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                {showUpload ? "Close upload" : "Add to this project"}
+              </Button>
+            </div>
+            {showUpload && (
+              <FileUpload existingRows={data} onFileUpload={handleFileUpload} />
+            )}
             <div className="transform hover:scale-[1.01] transition-transform duration-300">
               <ProcessingStatus
-                isProcessing={isProcessing}
-                currentItem={currentProcessing}
-                onStartProcessing={startProcessing}
-                totalItems={data.length}
+                key={project.id}
+                project={project}
                 data={data}
-                onDataUpdate={handleDataUpdate}
+                selectedIds={selectedIds}
               />
             </div>
             <div className="transform hover:scale-[1.01] transition-transform duration-300">
-              <DataTable data={data} />
+              <DataTable
+                data={data}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                contactsByRound={contactsByRound}
+                companiesById={companiesById}
+                investorsByRound={investorsByRound}
+                firmsById={firmsById}
+              />
             </div>
           </div>
         )}
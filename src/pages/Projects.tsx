@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { FolderPlus, Rocket } from "lucide-react";
+import { SpaceBackground } from "@/components/SpaceBackground";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCreateProject, useProjects } from "@/hooks/use-projects";
+import { useToast } from "@/hooks/use-toast";
+import { getLastProjectId } from "@/lib/projects-api";
+
+/**
+ * Opens the project used last, or the first one. Without any projects yet,
+ * asks for the name of the first.
+ */
+const Projects = () => {
+  const { data: projects = [], isLoading, error } = useProjects();
+  const createProject = useCreateProject();
+  const [name, setName] = useState("");
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+
+    try {
+      const created = await createProject.mutateAsync({ name });
+      navigate(`/projects/${created.id}`);
+    } catch (error) {
+      toast({
+        title: "Could not create project",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (projects.length > 0) {
+    const lastId = getLastProjectId();
+    const project = projects.find((item) => item.id === lastId) ?? projects[0];
+    return <Navigate to={`/projects/${project.id}`} replace />;
+  }
+
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      <SpaceBackground />
+
+      <div className="relative z-10 container mx-auto px-4 py-24">
+        {isLoading ? (
+          <div className="flex flex-col items-center gap-4 py-12">
+            <div className="animate-spin h-12 w-12 border-4 border-blue-400 border-t-transparent rounded-full"></div>
+            <p className="text-gray-300">Loading projects...</p>
+          </div>
+        ) : error ? (
+          <div className="max-w-2xl mx-auto bg-red-500/10 border border-red-500/30 rounded-xl p-6 text-center text-red-300">
+            {error.message}
+          </div>
+        ) : (
+          <div className="max-w-xl mx-auto bg-black/30 backdrop-blur-lg border border-blue-500/30 rounded-2xl p-8 text-center shadow-2xl">
+            <Rocket className="h-16 w-16 text-blue-400 mx-auto mb-6 drop-shadow-xl" />
+            <h1 className="text-3xl font-bold text-white mb-2">
+              Create your first project
+            </h1>
+            <p className="text-gray-300 mb-6">
+              A project holds one list of rounds, such as launch vehicles or
+              earth observation, with its own enrichment settings and history.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                placeholder="Project name"
+                aria-label="Project name"
+                className="bg-gray-800/50 border-gray-600 text-gray-200 placeholder:text-gray-500"
+                autoFocus
+              />
+              <Button
+                onClick={handleCreate}
+                disabled={!name.trim() || createProject.isPending}
+                className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white border-0"
+              >
+                <FolderPlus className="h-4 w-4 mr-2" />
+                Create
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Projects;
@@ -0,0 +1,98 @@
+export type EnrichmentJobStatus =
+  "queued" | "running" | "paused" | "cancelled" | "completed" | "failed";
+
+export type EnrichmentStage = "search" | "extract";
+
+export type SearchProviderId = "google_cse" | "llm" | "serpapi";
+
+export interface EnrichmentOptions {
+  stages?: EnrichmentStage[];
+  concurrency?: number;
+  // Enabled search providers, in the order they are tried
+  searchProviders?: SearchProviderId[];
+  // Replace values corrected by hand instead of keeping them
+  overwriteEdits?: boolean;
+}
+
+export interface EnrichmentJob {
+  id: string;
+  project_id: string;
+  status: EnrichmentJobStatus;
+  total_items: number;
+  completed_items: number;
+  failed_items: number;
+  skipped_items: number;
+  rows_per_minute: number;
+  last_error: string | null;
+  options: EnrichmentOptions;
+  heartbeat_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SkippedJobRow {
+  fundraise_id: string;
+  company_name: string;
+}
+
+export interface StartEnrichmentJobInput {
+  projectId: string;
+  rowIds?: string[];
+  options?: EnrichmentOptions;
+}
+
+export type TraceStepStatus = "ok" | "skipped" | "failed";
+
+// One stage of an enrichment run, e.g. searching or extracting
+export interface TraceStep {
+  name: string;
+  status: TraceStepStatus;
+  detail: string | null;
+  started_at: string;
+  finished_at: string;
+}
+
+// A query a search provider sent, and how many results came back
+export interface TraceQuery {
+  provider: SearchProviderId;
+  query: string;
+  results: number;
+  at: string;
+}
+
+// A URL a provider suggested, and whether it was kept
+export interface TraceCandidate {
+  url: string;
+  provider: SearchProviderId;
+  rank: number;
+  title: string | null;
+  accepted: boolean;
+  score: number | null;
+  reason: string | null;
+}
+
+export type TraceModelOutcome = "accepted" | "unaccepted" | "failed";
+
+export interface TraceModelCall {
+  task: string;
+  provider: string;
+  model: string;
+  outcome: TraceModelOutcome;
+  message: string | null;
+  url: string | null;
+  at: string;
+}
+
+// What the last enrichment run did for a row, stored in
+// fundraise_data.enrichment_trace
+export interface EnrichmentTrace {
+  stages: EnrichmentStage[];
+  started_at: string;
+  finished_at: string | null;
+  steps: TraceStep[];
+  queries: TraceQuery[];
+  candidates: TraceCandidate[];
+  model_calls: TraceModelCall[];
+}
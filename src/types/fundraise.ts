@@ -0,0 +1,177 @@
+import type { NormalizedAmount } from "@/lib/amounts";
+import type { EnrichmentTrace } from "@/types/enrichment";
+
+export type FundraiseStatus =
+  "pending" | "processing" | "completed" | "needs_review" | "error";
+
+// A model answer that failed its JSON schema during enrichment
+export interface ExtractionError {
+  task: string;
+  provider: string;
+  model: string;
+  message: string;
+  at: string;
+}
+
+export type ProvenanceField =
+  | "press_url_1"
+  | "press_url_2"
+  | "press_url_3"
+  | "investor_contacts"
+  | "amount_extracted";
+
+// Where an enriched value came from
+export interface FieldProvenance {
+  source_url: string | null;
+  snippet: string | null;
+  // A search provider ("search:serpapi") or the LLM task that produced it
+  extractor: string;
+  provider: string | null;
+  model: string | null;
+  // False when the model's quote is not in the page, which suggests the
+  // value came from the model's memory
+  verified: boolean;
+  // Trust in the value from 0 to 1; rows with values below REVIEW_THRESHOLD
+  // wait in the review queue
+  confidence?: number;
+  // Set when an analyst accepted or entered the value during review
+  reviewed_at?: string | null;
+  at: string;
+}
+
+export type FieldProvenanceMap = Partial<
+  Record<ProvenanceField, FieldProvenance>
+>;
+
+export interface FundraiseData {
+  id: string;
+  // The project the row belongs to; set when the row is saved
+  project_id?: string;
+  company_name: string;
+  // The companies row the name resolved to on upload
+  company_id?: string | null;
+  date_raised: string;
+  amount_raised: string;
+  investors: string;
+  press_url_1?: string | null;
+  press_url_2?: string | null;
+  press_url_3?: string | null;
+  investor_contacts?: string | null;
+  // amount_raised is the uploaded text; these are filled in from it and
+  // from enrichment
+  amount_user?: NormalizedAmount | null;
+  amount_extracted?: NormalizedAmount | null;
+  amount_mismatch?: boolean;
+  extraction_errors?: ExtractionError[];
+  field_provenance?: FieldProvenanceMap;
+  // What the last enrichment run searched, rejected and asked the models
+  enrichment_trace?: EnrichmentTrace | null;
+  status: FundraiseStatus;
+  // Why enrichment sent the row to the review queue
+  review_reasons?: string[];
+  reviewed_at?: string | null;
+  // Columns corrected by hand, which re-enrichment leaves alone
+  locked_fields?: EditableField[];
+  source_row?: number | null;
+  // Worksheet name for rows uploaded from a workbook
+  source_sheet?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+// Columns that can be corrected by hand
+export type EditableField =
+  | "company_name"
+  | "date_raised"
+  | "amount_raised"
+  | "investors"
+  | ProvenanceField;
+
+// A manual change to a row, stored in fundraise_edits. Amount columns are
+// logged in their parsed form.
+export interface FundraiseEdit {
+  id: string;
+  fundraise_id: string;
+  field: EditableField;
+  old_value: string | NormalizedAmount | null;
+  new_value: string | NormalizedAmount | null;
+  edited_by: string | null;
+  edited_at: string;
+}
+
+// What an analyst decided about an enriched value in the review queue
+export type ReviewDecision =
+  | { action: "accept" }
+  | { action: "edit"; value: string }
+  | { action: "reject" };
+
+export type ReviewDecisions = Partial<Record<ProvenanceField, ReviewDecision>>;
+
+export type NewFundraiseData = Omit<
+  FundraiseData,
+  | "id"
+  | "project_id"
+  | "amount_user"
+  | "amount_extracted"
+  | "amount_mismatch"
+  | "extraction_errors"
+  | "field_provenance"
+  | "enrichment_trace"
+  | "review_reasons"
+  | "reviewed_at"
+  | "locked_fields"
+  | "created_at"
+  | "updated_at"
+>;
+
+// A company that uploaded names resolve to, stored in companies
+export interface Company {
+  id: string;
+  name: string;
+  normalized_name: string;
+  aliases: string[];
+  domains: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type ContactRoundRole = "lead" | "participant" | "unknown";
+
+// A person found for a round, stored in fundraise_contacts
+export interface InvestorContact {
+  id: string;
+  fundraise_id: string;
+  name: string;
+  title: string | null;
+  firm: string | null;
+  // The investor_firms row the firm name resolved to
+  firm_id: string | null;
+  round_role: ContactRoundRole;
+  source_url: string | null;
+  // The sentence naming the person, and whether it was found in the article
+  source_snippet: string | null;
+  source_verified: boolean;
+  confidence: number;
+  created_at: string;
+}
+
+// A canonical investor firm, stored in investor_firms
+export interface InvestorFirm {
+  id: string;
+  name: string;
+  normalized_name: string;
+  aliases: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type RoundInvestorSource = "upload" | "extraction";
+
+// A firm's part in a round, stored in fundraise_investors
+export interface RoundInvestor {
+  fundraise_id: string;
+  firm_id: string;
+  round_role: ContactRoundRole;
+  source: RoundInvestorSource;
+  created_at: string;
+}
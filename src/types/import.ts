@@ -0,0 +1,71 @@
+import type { FundraiseData, NewFundraiseData } from "@/types/fundraise";
+
+// Fields of fundraise_data an uploaded column can be mapped to
+export type TargetField =
+  "company_name" | "date_raised" | "amount_raised" | "investors";
+
+// Source column name to the field it fills, or null when it is ignored
+export type ColumnMapping = Record<string, TargetField | null>;
+
+// Rows read from an uploaded file, keyed by header
+export type SourceRow = Record<string, unknown>;
+
+export interface ParsedTable {
+  fileName: string;
+  // Worksheet the rows were read from; null for formats without sheets
+  sheetName: string | null;
+  // Header row in file order
+  columns: string[];
+  rows: SourceRow[];
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  source_columns: string[];
+  mapping: ColumnMapping;
+  created_at: string;
+  updated_at: string;
+}
+
+// A source row after mapping, still editable before it is imported
+export interface ImportDraftRow {
+  // Position in the whole upload, counting on across sheets; kept as
+  // fundraise_data.source_row
+  source_row: number;
+  source_sheet: string | null;
+  // Position within its own sheet, as the user sees it in the file
+  sheet_row: number;
+  values: Record<TargetField, string>;
+  excluded: boolean;
+}
+
+export type ImportIssueKind =
+  | "missing_company"
+  | "ambiguous_date"
+  | "partial_date"
+  | "unparseable_amount"
+  | "duplicate_company";
+
+export interface ImportIssue {
+  source_row: number;
+  field: TargetField;
+  kind: ImportIssueKind;
+  message: string;
+}
+
+// What to do with an uploaded row that matches a row already saved
+export type MergeAction = "keep_existing" | "overwrite" | "keep_both";
+
+export interface ImportConflict {
+  row: NewFundraiseData;
+  existing: FundraiseData;
+}
+
+export interface ImportPlan {
+  insert: NewFundraiseData[];
+  // Saved rows whose uploaded values are replaced by a row from this upload
+  overwrite: ImportConflict[];
+  // Uploaded rows dropped in favour of the saved copy
+  skipped: number;
+}
@@ -0,0 +1,17 @@
+import type { EnrichmentOptions } from "@/types/enrichment";
+
+// A named dataset with its own rows, enrichment settings and job history
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  // Options new enrichment runs of the project start with
+  enrichment_settings: EnrichmentOptions;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectInput {
+  name: string;
+  description?: string | null;
+}
@@ -0,0 +1,259 @@
+// Funding amount parsing and USD conversion. Kept free of Deno and browser
+// APIs so the upload screen and the enrichment function read amounts the same
+// way.
+
+// Type aliases rather than interfaces so they can be stored as jsonb columns
+export type ParsedAmount = {
+  value: number;
+  // ISO 4217 code
+  currency: string;
+  original_text: string;
+};
+
+export type NormalizedAmount = ParsedAmount & {
+  usd_value: number | null;
+  // USD per unit of `currency` and the year it was taken from
+  fx_rate: number | null;
+  fx_year: number | null;
+};
+
+// Amounts differing by more than this share are flagged for review
+const MISMATCH_TOLERANCE = 0.1;
+
+const NOT_AN_AMOUNT =
+  /^(n\/?a|none|unknown|undisclosed|not (specified|disclosed|available)|-+)$/i;
+
+// Longest symbols first so "US$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ["US$", "USD"],
+  ["C$", "CAD"],
+  ["CA$", "CAD"],
+  ["A$", "AUD"],
+  ["AU$", "AUD"],
+  ["S$", "SGD"],
+  ["R$", "BRL"],
+  ["$", "USD"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+  ["₪", "ILS"],
+];
+
+const CURRENCY_WORDS: [RegExp, string][] = [
+  [/\beuros?\b/i, "EUR"],
+  [/\bpounds?( sterling)?\b/i, "GBP"],
+  [/\byen\b/i, "JPY"],
+  [/\brupees?\b/i, "INR"],
+  [/\byuan\b|\brmb\b/i, "CNY"],
+  [/\bfrancs?\b/i, "CHF"],
+  [/\bkronor\b|\bkrona\b/i, "SEK"],
+  [/\bshekels?\b/i, "ILS"],
+  [/\brs\.?(?=\s|\d)/i, "INR"],
+  [/\bdollars?\b/i, "USD"],
+];
+
+const MULTIPLIERS: [RegExp, number][] = [
+  [/^(b|bn|billion)\b/i, 1e9],
+  [/^(m|mm|mn|mil|million)\b/i, 1e6],
+  [/^(crores?|cr)\b/i, 1e7],
+  [/^(lakhs?|lacs?)\b/i, 1e5],
+  [/^(k|thousand)\b/i, 1e3],
+];
+
+/**
+ * Average USD value of one unit of each currency per calendar year. Rounds
+ * are converted at the rate for the year they were raised; years outside the
+ * table use the closest year available.
+ */
+// prettier-ignore
+const USD_RATES: Record<string, Record<number, number>> = {
+  EUR: {
+    2015: 1.11, 2016: 1.107, 2017: 1.13, 2018: 1.181, 2019: 1.12,
+    2020: 1.142, 2021: 1.183, 2022: 1.053, 2023: 1.081, 2024: 1.082,
+    2025: 1.13,
+  },
+  GBP: {
+    2015: 1.529, 2016: 1.355, 2017: 1.289, 2018: 1.335, 2019: 1.277,
+    2020: 1.284, 2021: 1.376, 2022: 1.237, 2023: 1.244, 2024: 1.278,
+    2025: 1.32,
+  },
+  CAD: {
+    2015: 0.783, 2016: 0.755, 2017: 0.771, 2018: 0.772, 2019: 0.754,
+    2020: 0.746, 2021: 0.798, 2022: 0.769, 2023: 0.741, 2024: 0.73,
+    2025: 0.72,
+  },
+  AUD: {
+    2015: 0.752, 2016: 0.744, 2017: 0.767, 2018: 0.748, 2019: 0.695,
+    2020: 0.69, 2021: 0.751, 2022: 0.694, 2023: 0.664, 2024: 0.66,
+    2025: 0.645,
+  },
+  JPY: {
+    2015: 0.00826, 2016: 0.0092, 2017: 0.00891, 2018: 0.00906,
+    2019: 0.00917, 2020: 0.00937, 2021: 0.00911, 2022: 0.00762,
+    2023: 0.00713, 2024: 0.00661, 2025: 0.0067,
+  },
+  CHF: {
+    2015: 1.04, 2016: 1.015, 2017: 1.016, 2018: 1.022, 2019: 1.006,
+    2020: 1.067, 2021: 1.094, 2022: 1.047, 2023: 1.113, 2024: 1.136,
+    2025: 1.2,
+  },
+  INR: {
+    2015: 0.01558, 2016: 0.01489, 2017: 0.01537, 2018: 0.01464,
+    2019: 0.01421, 2020: 0.0135, 2021: 0.01352, 2022: 0.01274,
+    2023: 0.01212, 2024: 0.01196, 2025: 0.0115,
+  },
+  CNY: {
+    2015: 0.1605, 2016: 0.1506, 2017: 0.148, 2018: 0.1512, 2019: 0.1448,
+    2020: 0.145, 2021: 0.155, 2022: 0.1487, 2023: 0.1412, 2024: 0.1389,
+    2025: 0.139,
+  },
+  SGD: {
+    2015: 0.728, 2016: 0.725, 2017: 0.725, 2018: 0.742, 2019: 0.733,
+    2020: 0.725, 2021: 0.744, 2022: 0.726, 2023: 0.744, 2024: 0.748,
+    2025: 0.77,
+  },
+  ILS: {
+    2015: 0.257, 2016: 0.26, 2017: 0.278, 2018: 0.278, 2019: 0.281,
+    2020: 0.291, 2021: 0.31, 2022: 0.298, 2023: 0.271, 2024: 0.27,
+    2025: 0.28,
+  },
+  SEK: {
+    2015: 0.1186, 2016: 0.1169, 2017: 0.1172, 2018: 0.1152, 2019: 0.1057,
+    2020: 0.1087, 2021: 0.1166, 2022: 0.0989, 2023: 0.0943, 2024: 0.0948,
+    2025: 0.1,
+  },
+  BRL: {
+    2015: 0.301, 2016: 0.287, 2017: 0.313, 2018: 0.275, 2019: 0.254,
+    2020: 0.194, 2021: 0.185, 2022: 0.194, 2023: 0.2, 2024: 0.186,
+    2025: 0.178,
+  },
+};
+
+const ISO_CODES = new Set(["USD", ...Object.keys(USD_RATES)]);
+
+const detectCurrency = (text: string): string | null => {
+  const code = text
+    .toUpperCase()
+    .match(/\b[A-Z]{3}\b/g)
+    ?.find((token) => ISO_CODES.has(token));
+  if (code) return code;
+
+  for (const [symbol, currency] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) return currency;
+  }
+  for (const [pattern, currency] of CURRENCY_WORDS) {
+    if (pattern.test(text)) return currency;
+  }
+  return null;
+};
+
+/**
+ * True for placeholders such as "N/A" or "Undisclosed" that say the amount is
+ * unknown rather than giving one.
+ */
+export function isAmountPlaceholder(text: string | null | undefined): boolean {
+  return NOT_AN_AMOUNT.test(text?.trim() ?? "");
+}
+
+/**
+ * Reads amounts like "$12M", "€50 million", "USD 1.2bn" or "2,500,000".
+ * Returns null for placeholders such as "N/A" and text without a number.
+ * Amounts without a currency are taken to be USD. For ranges ("$5-10M") the
+ * lower bound is used.
+ */
+export function parseAmount(
+  text: string | null | undefined
+): ParsedAmount | null {
+  const original = text?.trim() ?? "";
+  if (!original || NOT_AN_AMOUNT.test(original)) return null;
+
+  const match = original.match(/(\d[\d,]*(?:\.\d+)?|\.\d+)\s*(?:-|–|to)?\s*/);
+  if (!match || match.index === undefined) return null;
+
+  let value = Number(match[1].replace(/,/g, ""));
+  if (!Number.isFinite(value)) return null;
+
+  // The unit follows the number, possibly after the upper end of a range
+  const rest = original
+    .slice(match.index + match[0].length)
+    .replace(/^\d[\d,]*(?:\.\d+)?\s*/, "");
+  const multiplier = MULTIPLIERS.find(([pattern]) => pattern.test(rest));
+  if (multiplier) value *= multiplier[1];
+
+  if (value <= 0) return null;
+
+  return {
+    value,
+    currency: detectCurrency(original) ?? "USD",
+    original_text: original,
+  };
+}
+
+/**
+ * Year of a round from free-form dates like "2023-05-01", "May 2023" or
+ * "Q2 2023".
+ */
+export function roundYear(
+  dateRaised: string | null | undefined
+): number | null {
+  const year = dateRaised?.match(/\b(19|20)\d{2}\b/)?.[0];
+  return year ? Number(year) : null;
+}
+
+export function usdRate(
+  currency: string,
+  year: number | null
+): { rate: number; year: number | null } | null {
+  if (currency === "USD") return { rate: 1, year: null };
+
+  const rates = USD_RATES[currency];
+  if (!rates) return null;
+
+  const years = Object.keys(rates).map(Number);
+  const target = year ?? Math.max(...years);
+  const closest = years.reduce((best, candidate) =>
+    Math.abs(candidate - target) < Math.abs(best - target) ? candidate : best
+  );
+  return { rate: rates[closest], year: closest };
+}
+
+/**
+ * Parses an amount and converts it to USD at the rate for the round's year.
+ */
+export function normalizeAmount(
+  text: string | null | undefined,
+  dateRaised: string | null | undefined
+): NormalizedAmount | null {
+  const parsed = parseAmount(text);
+  if (!parsed) return null;
+
+  const fx = usdRate(parsed.currency, roundYear(dateRaised));
+
+  return {
+    ...parsed,
+    usd_value: fx ? Math.round(parsed.value * fx.rate) : null,
+    fx_rate: fx?.rate ?? null,
+    fx_year: fx?.year ?? null,
+  };
+}
+
+/**
+ * True when both amounts are known and differ by more than 10% in USD.
+ */
+export function amountsDisagree(
+  a: NormalizedAmount | null | undefined,
+  b: NormalizedAmount | null | undefined
+): boolean {
+  if (!a || !b) return false;
+
+  const [left, right] =
+    a.usd_value !== null && b.usd_value !== null
+      ? [a.usd_value, b.usd_value]
+      : a.currency === b.currency
+        ? [a.value, b.value]
+        : [null, null];
+  if (left === null || right === null) return false;
+
+  return Math.abs(left - right) / Math.max(left, right) > MISMATCH_TOLERANCE;
+}
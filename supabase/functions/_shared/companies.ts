@@ -0,0 +1,245 @@
+// Company name matching shared by the upload screen and the enrichment
+// function, so "Rocket Lab USA, Inc." and "Rocket Lab" are the same company
+// everywhere.
+
+// Type alias rather than an interface so rows of the companies table fit it
+export type CompanyIdentity = {
+  name: string;
+  aliases?: string[] | null;
+  domains?: string[] | null;
+};
+
+// Names at least this similar (0..1, edit distance based) are taken to be
+// spellings of the same company
+export const FUZZY_MATCH_THRESHOLD = 0.88;
+
+// Shorter names only ever match exactly; "Astra" and "Astro" are different
+const MIN_FUZZY_LENGTH = 5;
+
+// Legal forms and registration qualifiers that are not part of the name.
+// Stripped from the end only, repeatedly, so "Foo Holdings Ltd" loses both.
+const LEGAL_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "corp",
+  "corporation",
+  "co",
+  "llc",
+  "llp",
+  "lp",
+  "ltd",
+  "limited",
+  "plc",
+  "gmbh",
+  "ag",
+  "kg",
+  "se",
+  "sa",
+  "sas",
+  "sarl",
+  "srl",
+  "spa",
+  "bv",
+  "nv",
+  "ab",
+  "oy",
+  "as",
+  "asa",
+  "aps",
+  "pty",
+  "pte",
+  "kk",
+  "holdings",
+  "holding",
+  "usa",
+  "us",
+  "uk",
+]);
+
+/**
+ * Lowercases, drops accents and punctuation and collapses whitespace.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// "S.A." and "U.S.A." normalize to single letters; join them back up
+const joinInitials = (tokens: string[]): string[] =>
+  tokens.reduce<string[]>((joined, token, index) => {
+    const previous = tokens[index - 1];
+    if (token.length === 1 && previous?.length === 1) {
+      joined[joined.length - 1] += token;
+    } else {
+      joined.push(token);
+    }
+    return joined;
+  }, []);
+
+/**
+ * The comparable form of a company name: normalized text without legal
+ * suffixes or a leading "the". Names made only of suffixes are kept whole.
+ */
+export function normalizeCompanyName(name: string): string {
+  const tokens = joinInitials(normalizeText(name).split(" ").filter(Boolean));
+  if (tokens[0] === "the" && tokens.length > 1) tokens.shift();
+
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+
+  return tokens.join(" ");
+}
+
+/**
+ * Host of a URL or bare domain without "www.", or null when it has none.
+ */
+export function companyDomain(urlOrDomain: string): string | null {
+  const trimmed = urlOrDomain.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(
+      /^[a-z]+:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`
+    );
+    return url.hostname.replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized names from 0 to 1. Spaces are ignored, so
+ * "Space X" and "SpaceX" are identical.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = a.replace(/ /g, "");
+  const right = b.replace(/ /g, "");
+  if (left === right) return 1;
+  if (Math.min(left.length, right.length) < MIN_FUZZY_LENGTH) return 0;
+
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+const companyNames = (company: CompanyIdentity): string[] =>
+  [company.name, ...(company.aliases ?? [])]
+    .map(normalizeCompanyName)
+    .filter(Boolean);
+
+/**
+ * How closely a name matches a company, its best score over the canonical
+ * name and all aliases.
+ */
+export function companyMatchScore(
+  company: CompanyIdentity,
+  name: string
+): number {
+  const normalized = normalizeCompanyName(name);
+  if (!normalized) return 0;
+
+  return Math.max(
+    0,
+    ...companyNames(company).map((candidate) =>
+      nameSimilarity(candidate, normalized)
+    )
+  );
+}
+
+export function isSameCompany(company: CompanyIdentity, name: string): boolean {
+  return companyMatchScore(company, name) >= FUZZY_MATCH_THRESHOLD;
+}
+
+/**
+ * The company a name refers to: an exact match on the name or an alias wins,
+ * otherwise the closest fuzzy match above the threshold.
+ */
+export function findCompanyMatch<T extends CompanyIdentity>(
+  name: string,
+  companies: T[]
+): T | null {
+  let best: T | null = null;
+  let bestScore = FUZZY_MATCH_THRESHOLD;
+
+  for (const company of companies) {
+    const score = companyMatchScore(company, name);
+    if (score === 1) return company;
+    if (score >= bestScore) {
+      best = company;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether an article is about the company: one of its names appears as whole
+ * words (allowing small spelling differences for longer names), its domain
+ * is mentioned, or the article is hosted on the company's own site.
+ */
+export function mentionsCompany(
+  text: string,
+  company: CompanyIdentity,
+  url?: string
+): boolean {
+  const domains = (company.domains ?? [])
+    .map(companyDomain)
+    .filter((domain): domain is string => !!domain);
+  const host = url ? companyDomain(url) : null;
+  if (
+    host &&
+    domains.some((domain) => host === domain || host.endsWith(`.${domain}`))
+  ) {
+    return true;
+  }
+
+  const lower = text.toLowerCase();
+  if (domains.some((domain) => lower.includes(domain))) return true;
+
+  const content = ` ${normalizeText(text)} `;
+  const names = companyNames(company);
+  if (names.some((name) => content.includes(` ${name} `))) return true;
+
+  // Slide a window the size of each name over the article to catch
+  // "Rocketlab" for "Rocket Lab" or small typos
+  const tokens = content.trim().split(" ");
+  return names.some((name) => {
+    const length = name.replace(/ /g, "").length;
+    if (length < MIN_FUZZY_LENGTH) return false;
+    // Windows whose length alone rules out a match are not compared
+    const slack = Math.floor(length * (1 - FUZZY_MATCH_THRESHOLD)) + 1;
+
+    const size = name.split(" ").length;
+    for (let width = Math.max(1, size - 1); width <= size + 1; width++) {
+      for (let i = 0; i + width <= tokens.length; i++) {
+        const window = tokens.slice(i, i + width).join(" ");
+        if (Math.abs(window.length - (width - 1) - length) > slack) continue;
+        if (nameSimilarity(name, window) >= FUZZY_MATCH_THRESHOLD) return true;
+      }
+    }
+    return false;
+  });
+}
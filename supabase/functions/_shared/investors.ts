@@ -0,0 +1,183 @@
+// Investor firm names, shared by the upload screen and the enrichment
+// function so "a16z" and "Andreessen Horowitz" end up as one firm whichever
+// side sees them first.
+import {
+  companyMatchScore,
+  findCompanyMatch,
+  normalizeCompanyName,
+  type CompanyIdentity,
+} from "./companies.ts";
+
+export type ParsedInvestor = {
+  name: string;
+  lead: boolean;
+};
+
+// A firm not yet in investor_firms, with the other spellings seen for it
+export type NewInvestorFirm = {
+  name: string;
+  normalized_name: string;
+  aliases: string[];
+};
+
+export type FirmResolutionPlan<T> = {
+  // Names that matched a known firm
+  matched: Map<string, T>;
+  // Spellings to add to known firms' aliases
+  newAliases: Map<T, string[]>;
+  created: NewInvestorFirm[];
+  // Names that belong to a created firm, by its normalized_name
+  createdFor: Map<string, string>;
+};
+
+// Words that fund names carry inconsistently: "Sequoia" and "Sequoia Capital"
+// are the same firm. Stripped from the end only, like legal suffixes.
+const FIRM_SUFFIXES = new Set([
+  "capital",
+  "partners",
+  "partner",
+  "ventures",
+  "venture",
+  "vc",
+  "management",
+  "investments",
+  "investment",
+  "fund",
+  "funds",
+  "group",
+]);
+
+// Entries that stand for "no investor named"
+const PLACEHOLDERS = new Set([
+  "not specified",
+  "n a",
+  "na",
+  "none",
+  "unknown",
+  "undisclosed",
+  "undisclosed investors",
+  "others",
+  "other investors",
+  "existing investors",
+]);
+
+const LEAD_MARKER =
+  /\((?:co-?)?lead(?:s|er)?\)|\((?:co-?)?led\)|\blead investor\b/i;
+const LEADING_PHRASE =
+  /^(?:(?:and|with|plus)\s+)?(?:(?:co-?)?led by|with participation (?:from|by)|participation from|including|investors include|backed by)\s+/i;
+
+/**
+ * The comparable form of a firm name: a normalized company name without
+ * the fund words that spellings of one firm disagree on.
+ */
+export function normalizeFirmName(name: string): string {
+  const tokens = normalizeCompanyName(name).split(" ").filter(Boolean);
+
+  while (tokens.length > 1 && FIRM_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+
+  return tokens.join(" ");
+}
+
+/**
+ * Splits the uploaded investors text into firms, in the order written.
+ * Entries are separated by commas, semicolons, slashes between spaces,
+ * new lines or "and"; "(lead)" or "led by" marks the lead.
+ */
+export function parseInvestors(text: string): ParsedInvestor[] {
+  const investors: ParsedInvestor[] = [];
+  const seen = new Set<string>();
+  let leadPhrase = false;
+
+  for (const part of text.split(/[,;|\n]+|\s+\/\s+|\s+and\s+/i)) {
+    let name = part.trim();
+    if (!name) continue;
+
+    // "led by A and B, with participation from C" leads with A and B
+    const phrase = name.match(LEADING_PHRASE);
+    if (phrase) {
+      leadPhrase = /led by/i.test(phrase[0]);
+      name = name.slice(phrase[0].length);
+    }
+
+    const lead = leadPhrase || LEAD_MARKER.test(name);
+    name = name
+      .replace(LEAD_MARKER, "")
+      .replace(/\([^)]*\)/g, "")
+      .replace(/^["'\s]+|["'.\s]+$/g, "")
+      .trim();
+
+    const normalized = normalizeFirmName(name);
+    if (!normalized || PLACEHOLDERS.has(normalized)) continue;
+
+    if (seen.has(normalized)) {
+      const existing = investors.find(
+        (investor) => normalizeFirmName(investor.name) === normalized
+      );
+      if (existing && lead) existing.lead = true;
+      continue;
+    }
+
+    seen.add(normalized);
+    investors.push({ name, lead });
+  }
+
+  return investors;
+}
+
+const firmIdentity = (firm: CompanyIdentity): CompanyIdentity => ({
+  name: normalizeFirmName(firm.name),
+  aliases: (firm.aliases ?? []).map(normalizeFirmName),
+});
+
+/**
+ * Finds the firm each name refers to. Names that only match fuzzily become
+ * aliases of the firm; names without a match become new firms, with other
+ * spellings of the same new firm as its aliases.
+ */
+export function planFirmResolution<T extends CompanyIdentity>(
+  names: string[],
+  firms: T[]
+): FirmResolutionPlan<T> {
+  const plan: FirmResolutionPlan<T> = {
+    matched: new Map(),
+    newAliases: new Map(),
+    created: [],
+    createdFor: new Map(),
+  };
+  const identities = firms.map(firmIdentity);
+  const createdIdentities: CompanyIdentity[] = [];
+
+  for (const name of new Set(names.map((name) => name.trim()))) {
+    const normalized = normalizeFirmName(name);
+    if (!normalized) continue;
+
+    const known = findCompanyMatch(normalized, identities);
+    if (known) {
+      const firm = firms[identities.indexOf(known)];
+      plan.matched.set(name, firm);
+      if (companyMatchScore(known, normalized) < 1) {
+        plan.newAliases.set(firm, [...(plan.newAliases.get(firm) ?? []), name]);
+      }
+      continue;
+    }
+
+    const pending = findCompanyMatch(normalized, createdIdentities);
+    if (pending) {
+      const firm = plan.created[createdIdentities.indexOf(pending)];
+      plan.createdFor.set(name, firm.normalized_name);
+      if (companyMatchScore(pending, normalized) < 1) {
+        firm.aliases.push(name);
+        pending.aliases = [...(pending.aliases ?? []), normalized];
+      }
+      continue;
+    }
+
+    plan.created.push({ name, normalized_name: normalized, aliases: [] });
+    createdIdentities.push({ name: normalized, aliases: [] });
+    plan.createdFor.set(name, normalized);
+  }
+
+  return plan;
+}
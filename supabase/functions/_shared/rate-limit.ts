@@ -0,0 +1,94 @@
+import { supabaseAdmin } from "./supabase.ts";
+
+export type RateLimitedProvider = "google_cse" | "serpapi" | "groq" | "openai";
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Waits until the provider's shared token bucket grants a request. If the
+ * bucket cannot be reached the request goes ahead unthrottled rather than
+ * stalling the whole run.
+ */
+export async function acquireToken(
+  provider: RateLimitedProvider
+): Promise<void> {
+  for (;;) {
+    const { data: waitMs, error } = await supabaseAdmin.rpc(
+      "take_provider_token",
+      { p_provider: provider }
+    );
+
+    if (error) {
+      console.error(
+        `⚠️ Rate limiter unavailable for ${provider}:`,
+        error.message
+      );
+      return;
+    }
+    if (!waitMs) return;
+
+    await sleep(waitMs);
+  }
+}
+
+/**
+ * Milliseconds to wait after a 429/503: the server's Retry-After when given,
+ * otherwise exponential backoff with jitter.
+ */
+export function backoffDelay(response: Response, attempt: number): number {
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds))
+      return Math.round(Math.min(seconds * 1000, MAX_BACKOFF_MS));
+
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.min(Math.max(date - Date.now(), 0), MAX_BACKOFF_MS);
+    }
+  }
+
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.round(
+    Math.min(exponential + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS)
+  );
+}
+
+export const isRetryableStatus = (status: number) =>
+  status === 429 || status === 503;
+
+/**
+ * fetch() for a rate-limited provider API: takes a token before each request
+ * and backs off on 429/503, telling the other workers to back off as well.
+ * The last response is returned if retries run out.
+ */
+export async function rateLimitedFetch(
+  provider: RateLimitedProvider,
+  input: string,
+  init?: RequestInit
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(provider);
+    const response = await fetch(input, init);
+
+    if (!isRetryableStatus(response.status) || attempt >= MAX_RETRIES) {
+      return response;
+    }
+
+    const delay = backoffDelay(response, attempt);
+    console.log(
+      `⏳ ${provider} returned ${response.status}, backing off ${delay}ms (retry ${attempt + 1}/${MAX_RETRIES})`
+    );
+    await response.body?.cancel();
+    await supabaseAdmin
+      .rpc("block_provider", { p_provider: provider, p_milliseconds: delay })
+      .then(({ error }) => {
+        if (error) console.error("⚠️ Could not share backoff:", error.message);
+      });
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,42 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+export const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey);
+
+/**
+ * Calls another edge function of this project with the service role key.
+ * Pass a signal to give up waiting for the response.
+ */
+export async function invokeFunction<T = unknown>(
+  name: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: "POST",
+    signal,
+    headers: {
+      Authorization: `Bearer ${serviceRoleKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(
+      payload.error || `${name} responded with HTTP ${response.status}`
+    );
+  }
+
+  return payload as T;
+}
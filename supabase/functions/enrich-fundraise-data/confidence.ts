@@ -0,0 +1,179 @@
+// How far each enriched value can be trusted, from 0 to 1, and whether the
+// row should be checked by an analyst before it is used.
+
+import {
+  amountsDisagree,
+  normalizeAmount,
+  type NormalizedAmount,
+} from "../_shared/amounts.ts";
+import type {
+  FieldProvenance,
+  FieldProvenanceMap,
+  ProvenanceField,
+} from "./provenance.ts";
+
+// Values scoring below this send the row to the review queue
+export const REVIEW_THRESHOLD = 0.6;
+
+const WEIGHTS = { source: 0.35, extractor: 0.4, agreement: 0.25 };
+
+// Used when there was no other page to compare the value with
+const UNKNOWN_AGREEMENT = 0.5;
+
+const PRESS_WIRES =
+  /(^|\.)(businesswire|prnewswire|globenewswire|accesswire|einpresswire)\.com$/;
+const NEWS_OUTLETS =
+  /(^|\.)(techcrunch\.com|reuters\.com|bloomberg\.com|ft\.com|wsj\.com|cnbc\.com|forbes\.com|axios\.com|venturebeat\.com|spacenews\.com|sifted\.eu|finsmes\.com)$/;
+
+const MONEY_MENTIONS =
+  /(?:[$€£¥]|\b(?:usd|eur|gbp|cad|aud|chf|jpy|inr|cny|sgd|ils|sek|brl)\s?)\d[\d,.]*\s*(?:billion|million|thousand|bn|[mbk])?\b|\b\d[\d,.]*\s*(?:billion|million)\s+(?:dollars|euros|pounds)\b/gi;
+
+const FIELD_LABELS: Record<ProvenanceField, string> = {
+  press_url_1: "Press URL 1",
+  press_url_2: "Press URL 2",
+  press_url_3: "Press URL 3",
+  investor_contacts: "Investor contacts",
+  amount_extracted: "Amount",
+};
+
+const hostname = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * How much the site a value came from can be trusted to report a round:
+ * press wires and the company's own site first, then established outlets.
+ */
+export function sourceQuality(
+  url: string | null,
+  companyDomains: string[] = []
+): number {
+  const host = url ? hostname(url) : null;
+  if (!host) return 0.2;
+
+  const ownSite = companyDomains.some(
+    (domain) => host === domain || host.endsWith(`.${domain}`)
+  );
+  if (ownSite || PRESS_WIRES.test(host)) return 1;
+  if (NEWS_OUTLETS.test(host)) return 0.85;
+  return 0.6;
+}
+
+/**
+ * How much the way a value was produced can be trusted. Search indexes
+ * return real pages; a model whose quote is not in the page was probably
+ * answering from memory.
+ */
+export function extractorQuality(provenance: FieldProvenance): number {
+  if (provenance.extractor.startsWith("search:")) {
+    // Pages suggested by a model were fetched and checked, but the model
+    // may still have picked a story about another round
+    return provenance.provider === "llm" ? 0.8 : 1;
+  }
+  if (!provenance.verified) return 0.2;
+  return provenance.extractor === "extract_funding" ? 1 : 0.6;
+}
+
+/**
+ * True when the page states the amount, within the tolerance used to flag
+ * mismatched amounts.
+ */
+export function mentionsAmount(
+  content: string,
+  amount: NormalizedAmount,
+  dateRaised: string | null | undefined
+): boolean {
+  return (content.match(MONEY_MENTIONS) ?? []).some((text) => {
+    const mention = normalizeAmount(text, dateRaised);
+    if (!mention) return false;
+
+    const comparable =
+      mention.currency === amount.currency ||
+      (mention.usd_value !== null && amount.usd_value !== null);
+    return comparable && !amountsDisagree(mention, amount);
+  });
+}
+
+/**
+ * The share of `pages` that state the amount, or null without pages.
+ */
+export function amountAgreement(
+  pages: string[],
+  amount: NormalizedAmount,
+  dateRaised: string | null | undefined
+): number | null {
+  if (pages.length === 0) return null;
+  return (
+    pages.filter((page) => mentionsAmount(page, amount, dateRaised)).length /
+    pages.length
+  );
+}
+
+/**
+ * The share of names that appear in at least one of `pages`, or null when
+ * there is nothing to compare.
+ */
+export function namesAgreement(
+  names: string[],
+  pages: string[]
+): number | null {
+  if (names.length === 0 || pages.length === 0) return null;
+
+  const texts = pages.map(collapse);
+  return (
+    names.filter((name) => texts.some((text) => text.includes(collapse(name))))
+      .length / names.length
+  );
+}
+
+/**
+ * Combines the quality of the source, the extractor and how far other pages
+ * agree (null when nothing could be compared) into one score.
+ */
+export function scoreProvenance(
+  provenance: FieldProvenance,
+  agreement: number | null,
+  companyDomains: string[] = []
+): number {
+  const score =
+    WEIGHTS.source * sourceQuality(provenance.source_url, companyDomains) +
+    WEIGHTS.extractor * extractorQuality(provenance) +
+    WEIGHTS.agreement * (agreement ?? UNKNOWN_AGREEMENT);
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Why a row should be looked at before its values are used; empty when
+ * everything found scores at least REVIEW_THRESHOLD. Values an analyst has
+ * already confirmed are not questioned again.
+ */
+export function reviewReasons(
+  values: Record<ProvenanceField, boolean>,
+  provenance: FieldProvenanceMap
+): string[] {
+  const fields = Object.keys(values) as ProvenanceField[];
+  const found = fields.filter((field) => values[field]);
+  if (found.length === 0) return ["Nothing was found for this round"];
+
+  return found.flatMap((field) => {
+    const evidence = provenance[field];
+    const confidence = evidence?.confidence;
+    // Evidence saved before values were scored is not questioned either
+    if (!evidence || evidence.reviewed_at || confidence === undefined) {
+      return [];
+    }
+    if (confidence >= REVIEW_THRESHOLD) return [];
+
+    return [
+      evidence.verified
+        ? `${FIELD_LABELS[field]}: low confidence (${confidence})`
+        : `${FIELD_LABELS[field]}: not found in the source (${confidence})`,
+    ];
+  });
+}
@@ -1,5 +1,55 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  amountsDisagree,
+  normalizeAmount,
+  parseAmount,
+  type NormalizedAmount,
+} from "../_shared/amounts.ts";
+import { mentionsCompany, type CompanyIdentity } from "../_shared/companies.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { planFirmResolution } from "../_shared/investors.ts";
+import { backoffDelay, isRetryableStatus } from "../_shared/rate-limit.ts";
+import { supabaseAdmin } from "../_shared/supabase.ts";
+import {
+  completeStructured,
+  StructuredOutputError,
+  type StructuredFailure,
+} from "./llm/index.ts";
+import {
+  FundingExtractionSchema,
+  type Contact,
+  type FundingExtraction,
+} from "./schemas.ts";
+import {
+  amountAgreement,
+  mentionsAmount,
+  namesAgreement,
+  reviewReasons,
+  scoreProvenance,
+} from "./confidence.ts";
+import {
+  extractedProvenance,
+  type FieldProvenance,
+  type FieldProvenanceMap,
+  type ProvenanceField,
+} from "./provenance.ts";
+import {
+  findPressUrls,
+  resolveSearchProviders,
+  type CandidateCheck,
+  type SearchCandidate,
+  type SearchProviderId,
+} from "./search/index.ts";
+import {
+  createTrace,
+  recordStep,
+  traceCandidate,
+  traceModelCalls,
+  traceQuery,
+  traceStep,
+  type EnrichmentTrace,
+} from "./trace.ts";
 
 declare const Deno: {
   env: {
@@ -7,15 +57,10 @@ declare const Deno: {
   };
 };
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-};
-
 interface FundraiseData {
   id: string;
   company_name: string;
+  company_id?: string | null;
   date_raised: string;
   amount_raised: string;
   investors: string;
@@ -23,7 +68,120 @@ interface FundraiseData {
   press_url_2?: string;
   press_url_3?: string;
   investor_contacts?: string;
-  status: "pending" | "processing" | "completed" | "error";
+  // amount_raised is what the user uploaded; enrichment only fills these
+  amount_user?: NormalizedAmount | null;
+  amount_extracted?: NormalizedAmount | null;
+  amount_mismatch?: boolean;
+  extraction_errors?: ExtractionError[];
+  // Evidence for each enriched field, by field name
+  field_provenance?: FieldProvenanceMap;
+  // Why the row is waiting in the review queue
+  review_reasons?: string[];
+  // Columns corrected by hand, kept unless the run overwrites edits
+  locked_fields?: string[];
+  // What the last run did, step by step
+  enrichment_trace?: EnrichmentTrace | null;
+  status: "pending" | "processing" | "completed" | "needs_review" | "error";
+}
+
+interface ExtractionError extends StructuredFailure {
+  at: string;
+}
+
+type EnrichmentStage = "search" | "extract";
+
+interface EnrichmentOptions {
+  stages?: EnrichmentStage[];
+  searchProviders?: SearchProviderId[];
+  overwriteEdits?: boolean;
+}
+
+interface EnrichRequest {
+  record: FundraiseData;
+  options?: EnrichmentOptions;
+  // When the worker stops waiting (ms since the epoch) and retries the row
+  deadline?: number;
+}
+
+// No paid step starts this close to the deadline, so a run that stops still
+// records its failure while the worker is waiting for it
+const DEADLINE_MARGIN_MS = 15_000;
+
+const checkDeadline = (deadline: number | undefined) => {
+  if (deadline !== undefined && Date.now() > deadline - DEADLINE_MARGIN_MS) {
+    throw new Error("Out of time, leaving the row to a retry");
+  }
+};
+
+// Past its deadline a run has been given up, and a retry may own the row
+const isPastDeadline = (deadline: number | undefined) =>
+  deadline !== undefined && Date.now() >= deadline;
+
+/**
+ * Writes the row back to fundraise_data so results survive page reloads.
+ */
+async function saveRecord(
+  id: string,
+  changes: Partial<FundraiseData>
+): Promise<void> {
+  const { id: _id, ...fields } = changes;
+  const { error } = await supabaseAdmin
+    .from("fundraise_data")
+    .update(fields)
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to save ${id}: ${error.message}`);
+  }
+}
+
+/**
+ * The row as it is now. A hand edit made while the row was being enriched
+ * changes it, so the final write is checked against this rather than the
+ * record the run started from.
+ */
+async function loadRecord(id: string): Promise<FundraiseData> {
+  const { data, error } = await supabaseAdmin
+    .from("fundraise_data")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to reload ${id}: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * The company a round belongs to, with the aliases and domains that help
+ * recognise articles about it. Rows without a linked company fall back to
+ * the uploaded name.
+ */
+async function loadCompany(record: FundraiseData): Promise<CompanyIdentity> {
+  const uploaded: CompanyIdentity = { name: record.company_name };
+  if (!record.company_id) return uploaded;
+
+  const { data, error } = await supabaseAdmin
+    .from("companies")
+    .select("name, aliases, domains")
+    .eq("id", record.company_id)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.log(
+      "⚠️ Could not load company, matching on the uploaded name:",
+      error?.message ?? record.company_id
+    );
+    return uploaded;
+  }
+
+  return {
+    name: data.name,
+    aliases: [record.company_name, ...(data.aliases ?? [])],
+    domains: data.domains,
+  };
 }
 
 interface AnalyzedUrl {
@@ -32,37 +190,268 @@ interface AnalyzedUrl {
   keywords: string[];
 }
 
+interface InvestorContact extends Omit<Contact, "quote"> {
+  source_url: string | null;
+  source_snippet: string | null;
+  source_verified: boolean;
+}
+
 interface ExtractedData {
   investor_contacts: string;
+  contacts: InvestorContact[];
   amount_raised: string;
   urls: string[];
+  provenance: FieldProvenanceMap;
+  // Page text fetched while extracting, by URL
+  pages: Map<string, string>;
+}
+
+// Row changes plus, when extraction ran, the round's new contact list
+type EnrichedRecord = Partial<FundraiseData> & {
+  contacts?: InvestorContact[];
+};
+
+/**
+ * Finds or creates the investor_firms row for each firm name, the same way
+ * uploads do, and returns their ids by name.
+ */
+async function resolveFirmIds(names: string[]): Promise<Map<string, string>> {
+  if (names.length === 0) return new Map();
+
+  const { data: firms, error } = await supabaseAdmin
+    .from("investor_firms")
+    .select("id, name, aliases");
+  if (error) {
+    throw new Error(`Failed to load investor firms: ${error.message}`);
+  }
+
+  const plan = planFirmResolution(
+    names,
+    firms as { id: string; name: string; aliases: string[] }[]
+  );
+  const ids = new Map([...plan.matched].map(([name, firm]) => [name, firm.id]));
+
+  if (plan.created.length > 0) {
+    const { data: created, error: createError } = await supabaseAdmin
+      .from("investor_firms")
+      .upsert(plan.created, { onConflict: "normalized_name" })
+      .select("id, normalized_name");
+    if (createError) {
+      throw new Error(`Failed to save investor firms: ${createError.message}`);
+    }
+
+    const byNormalizedName = new Map(
+      (created as { id: string; normalized_name: string }[]).map((row) => [
+        row.normalized_name,
+        row.id,
+      ])
+    );
+    for (const [name, normalizedName] of plan.createdFor) {
+      const id = byNormalizedName.get(normalizedName);
+      if (id) ids.set(name, id);
+    }
+  }
+
+  for (const [firm, aliases] of plan.newAliases) {
+    const { error: aliasError } = await supabaseAdmin
+      .from("investor_firms")
+      .update({ aliases: [...new Set([...firm.aliases, ...aliases])] })
+      .eq("id", firm.id);
+    if (aliasError) {
+      console.log(`⚠️ Could not add aliases to ${firm.name}:`, aliasError);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Replaces the round's people in fundraise_contacts with a new extraction,
+ * linking each to its canonical firm and adding those firms to the round.
+ */
+async function saveContacts(
+  fundraiseId: string,
+  contacts: InvestorContact[]
+): Promise<void> {
+  const firmIds = await resolveFirmIds(
+    contacts.flatMap((contact) => (contact.firm ? [contact.firm.trim()] : []))
+  );
+  const linked = contacts.map((contact) => ({
+    ...contact,
+    firm_id: contact.firm ? (firmIds.get(contact.firm.trim()) ?? null) : null,
+  }));
+
+  const { error } = await supabaseAdmin.rpc("replace_fundraise_contacts", {
+    p_fundraise_id: fundraiseId,
+    p_contacts: linked,
+  });
+
+  if (error) {
+    throw new Error(
+      `Failed to save contacts for ${fundraiseId}: ${error.message}`
+    );
+  }
+
+  // Firms already linked from the uploaded investors text keep their role
+  const roles = new Map<string, InvestorContact["round_role"]>();
+  for (const contact of linked) {
+    if (!contact.firm_id) continue;
+    const role = roles.get(contact.firm_id);
+    if (!role || role === "unknown" || contact.round_role === "lead") {
+      roles.set(contact.firm_id, contact.round_role);
+    }
+  }
+  if (roles.size === 0) return;
+
+  const { error: linkError } = await supabaseAdmin
+    .from("fundraise_investors")
+    .upsert(
+      [...roles].map(([firmId, role]) => ({
+        fundraise_id: fundraiseId,
+        firm_id: firmId,
+        round_role: role,
+        source: "extraction",
+      })),
+      { onConflict: "fundraise_id,firm_id", ignoreDuplicates: true }
+    );
+
+  if (linkError) {
+    throw new Error(
+      `Failed to link firms for ${fundraiseId}: ${linkError.message}`
+    );
+  }
 }
 
+// The readable "Name (Title, Firm)" summary kept in investor_contacts
+const formatContacts = (contacts: InvestorContact[]): string =>
+  contacts.length === 0
+    ? "N/A"
+    : contacts
+        .map((contact) => {
+          const details = [contact.title, contact.firm].filter(Boolean);
+          return details.length
+            ? `${contact.name} (${details.join(", ")})`
+            : contact.name;
+        })
+        .join(", ");
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
-  try {
-    const record: FundraiseData = await req.json();
-    console.log("🔄 Processing record:", record.company_name);
+  let record: FundraiseData | undefined;
+  let deadline: number | undefined;
+  let trace: EnrichmentTrace | undefined;
+  // Model answers rejected during this run, saved with the row
+  const failures: StructuredFailure[] = [];
+  const extractionErrors = (): ExtractionError[] =>
+    failures.map((failure) => ({ ...failure, at: new Date().toISOString() }));
+  const finishedTrace = () =>
+    trace && { ...trace, finished_at: new Date().toISOString() };
 
-    // Search for press releases with SERP API first, then GPT fallback
-    const enrichedData = await enrichRecordData(record);
+  try {
+    const body: EnrichRequest = await req.json();
+    record = body.record;
+    deadline = body.deadline;
+    const stages = body.options?.stages ?? ["search", "extract"];
+    trace = createTrace(stages);
+    console.log("🔄 Processing record:", record.company_name, stages);
+
+    await saveRecord(record.id, { status: "processing" });
+
+    // Search for press releases with the configured providers, then extract
+    const found = await enrichRecordData(
+      record,
+      stages,
+      body.options?.searchProviders,
+      failures,
+      trace,
+      deadline
+    );
+    const current = await loadRecord(record.id);
+    const { contacts, ...enrichedData } = keepEdits(
+      found,
+      current,
+      trace,
+      body.options?.overwriteEdits
+    );
 
     console.log("✅ Final enriched data:", enrichedData);
 
-    const response: FundraiseData = {
-      ...record,
+    checkDeadline(deadline);
+    if (contacts) await saveContacts(record.id, contacts);
+
+    const amountUser = normalizeAmount(
+      current.amount_raised,
+      current.date_raised
+    );
+    const amountExtracted =
+      "amount_extracted" in enrichedData
+        ? enrichedData.amount_extracted
+        : current.amount_extracted;
+
+    const enriched = { ...current, ...enrichedData };
+    // Fields this run did not touch keep their earlier evidence
+    const provenance = {
+      ...current.field_provenance,
+      ...enrichedData.field_provenance,
+    };
+    const reasons = reviewReasons(
+      {
+        press_url_1: isFound(enriched.press_url_1 ?? "N/A"),
+        press_url_2: isFound(enriched.press_url_2 ?? "N/A"),
+        press_url_3: isFound(enriched.press_url_3 ?? "N/A"),
+        investor_contacts: isFound(enriched.investor_contacts ?? "N/A"),
+        amount_extracted: !!amountExtracted,
+      },
+      provenance
+    );
+    if (reasons.length > 0) {
+      console.log("🔍 Sending row to the review queue:", reasons);
+    }
+    recordStep(
+      trace,
+      "Review",
+      "ok",
+      reasons.length > 0
+        ? `Sent to the review queue: ${reasons.join("; ")}`
+        : "Every value is confident enough"
+    );
+
+    // Only the columns enrichment owns are written, so uploaded values and
+    // hand edits made during the run are left as they are
+    const changes: Partial<FundraiseData> = {
       ...enrichedData,
-      status: "completed",
+      field_provenance: provenance,
+      amount_user: amountUser,
+      amount_mismatch: amountsDisagree(amountUser, amountExtracted),
+      extraction_errors: extractionErrors(),
+      review_reasons: reasons,
+      status: reasons.length > 0 ? "needs_review" : "completed",
+      enrichment_trace: finishedTrace(),
     };
 
+    if (isPastDeadline(deadline)) {
+      throw new Error("Finished after the deadline, result dropped");
+    }
+    await saveRecord(record.id, changes);
+    const response: FundraiseData = { ...current, ...changes };
+
     return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
     console.error("💥 Error in enrich-fundraise-data function:", error);
+    if (record?.id && !isPastDeadline(deadline)) {
+      await saveRecord(record.id, {
+        status: "error",
+        extraction_errors: extractionErrors(),
+        enrichment_trace: finishedTrace(),
+      }).catch((saveError) =>
+        console.error("❌ Could not mark record as failed:", saveError)
+      );
+    }
     return new Response(
       JSON.stringify({
         error: error.message || "Unknown error occurred",
@@ -75,125 +464,298 @@ serve(async (req) => {
   }
 });
 
-const getUrls = async (record_arg: FundraiseData): Promise<string[]> => {
-  const record = { ...record_arg };
+/**
+ * Leaves the columns an analyst corrected by hand as they are, or, when the
+ * run was asked to overwrite them, unlocks the columns it replaced.
+ */
+function keepEdits(
+  enriched: EnrichedRecord,
+  record: FundraiseData,
+  trace: EnrichmentTrace,
+  overwrite = false
+): EnrichedRecord {
+  const locked = record.locked_fields ?? [];
+  const replaced = locked.filter((field) => field in enriched);
+  if (replaced.length === 0) return enriched;
+
+  recordStep(
+    trace,
+    "Hand corrections",
+    "ok",
+    `${overwrite ? "Overwrote" : "Kept"} ${replaced.join(", ")}`
+  );
 
-  if (record.investors === "Not specified") record.investors = "";
+  if (overwrite) {
+    console.log("✏️ Overwriting hand corrections:", replaced);
+    return {
+      ...enriched,
+      locked_fields: locked.filter((field) => !replaced.includes(field)),
+    };
+  }
 
-  // Step 0 :try google search
-  const urls_google = await searchFundingPressReleasesGoogle(record);
+  console.log("🔒 Keeping hand corrections:", replaced);
+  const kept: EnrichedRecord = {
+    ...enriched,
+    field_provenance: { ...enriched.field_provenance },
+  };
+  for (const field of replaced) {
+    delete kept[field as keyof EnrichedRecord];
+    delete kept.field_provenance?.[field as ProvenanceField];
+  }
+  // The round's contacts belong to the hand-written contacts text
+  if (locked.includes("investor_contacts")) delete kept.contacts;
 
-  if (urls_google.urls.length >= 3) return urls_google.urls;
+  return kept;
+}
 
-  // Step 1: Get initial URLs from GPT-4
-  console.log("\n🤖 STEP 1: Getting URLs from GPT-4");
-  console.log("----------------------------------------");
-  const gptResult = await tryGPT4Initial(record);
-  console.log(`Found ${gptResult.urls.length} URLs from GPT-4`);
-  // Step 2: Validate each URL from GPT-4
-  console.log("\n🔍 STEP 2: Validating GPT-4 URLs");
-  console.log("----------------------------------------");
-  const validUrls: string[] = [];
-
-  for (const url of gptResult.urls) {
-    console.log(`\nChecking URL: ${url}`);
-    const isValid = await validateSingleUrl(url, record.company_name);
-    if (isValid) {
-      console.log("✅ URL is valid and relevant");
-      validUrls.push(url);
-    } else {
-      console.log("❌ URL is invalid or irrelevant");
-    }
+const getUrls = async (
+  record: FundraiseData,
+  company: CompanyIdentity,
+  searchProviders: SearchProviderId[] | undefined,
+  failures: StructuredFailure[],
+  trace: EnrichmentTrace,
+  deadline: number | undefined
+): Promise<SearchCandidate[]> => {
+  const investors =
+    record.investors === "Not specified" ? "" : record.investors;
+
+  const providers = resolveSearchProviders(searchProviders);
+  if (providers.length === 0) {
+    throw new Error("No search providers are enabled and configured");
   }
-  console.log(
-    `\nValidation summary: ${validUrls.length}/${gptResult.urls.length} URLs valid`
+
+  const candidates = await findPressUrls(
+    {
+      companyName: record.company_name,
+      investors,
+      dateRaised: record.date_raised,
+      count: 3,
+      onQuery: (provider, query, results) =>
+        traceQuery(trace, provider, query, results),
+    },
+    providers,
+    (url) => {
+      checkDeadline(deadline);
+      return validateSingleUrl(url, company);
+    },
+    (error) => {
+      if (error instanceof StructuredOutputError) {
+        failures.push(...error.failures);
+        traceModelCalls(trace, error.task, error, null);
+      }
+    },
+    (candidate, check) => traceCandidate(trace, candidate, check)
   );
 
-  let finalUrls = validUrls;
+  console.log(`\nSearch summary: Found ${candidates.length} valid URLs`);
+  return candidates;
+};
 
-  // Step 3: If we don't have 3 valid URLs, try SERP
-  if (validUrls.length < 3) {
-    console.log("\n🔎 STEP 3: Getting additional URLs from SERP");
-    console.log("----------------------------------------");
-    const neededUrls = 3 - validUrls.length;
-    console.log(`Need ${neededUrls} more valid URLs`);
-
-    const serpUrls: string[] = [];
-    let retryCount = 0;
-    const maxRetries = 3;
-
-    while (serpUrls.length < neededUrls && retryCount < maxRetries) {
-      try {
-        const serpResult = await trySerpForRemaining(
-          record,
-          neededUrls * 2,
-          validUrls
-        );
-        console.log(
-          `Found ${serpResult.urls.length} URLs from SERP, validating...`
-        );
+// The search result each press URL was taken from
+const pressUrlProvenance = (
+  candidates: SearchCandidate[]
+): FieldProvenanceMap => {
+  const provenance: FieldProvenanceMap = {};
+  const fields = ["press_url_1", "press_url_2", "press_url_3"] as const;
+
+  // Fields left without a URL lose the evidence of an earlier run
+  fields.forEach((field, index) => {
+    const candidate = candidates[index];
+    provenance[field] = candidate && {
+      source_url: candidate.url,
+      snippet: candidate.snippet ?? candidate.title ?? null,
+      extractor: `search:${candidate.provider}`,
+      provider: candidate.provider,
+      model: null,
+      // Accepted URLs come from a search index or were fetched and checked
+      verified: true,
+      at: new Date().toISOString(),
+    };
+  });
 
-        // Validate each SERP URL
-        for (const url of serpResult.urls) {
-          if (serpUrls.length >= neededUrls) break;
-
-          console.log(`\nChecking SERP URL: ${url}`);
-          const isValid = await validateSingleUrl(url, record.company_name);
-          if (isValid && !validUrls.includes(url) && !serpUrls.includes(url)) {
-            console.log("✅ SERP URL is valid and relevant");
-            serpUrls.push(url);
-          } else {
-            console.log("❌ SERP URL is invalid, irrelevant, or duplicate");
-          }
-        }
+  return provenance;
+};
 
-        if (serpUrls.length >= neededUrls) break;
-        retryCount++;
+const storedUrls = (record: FundraiseData): string[] =>
+  [record.press_url_1, record.press_url_2, record.press_url_3].filter(
+    (url): url is string => !!url && url !== "N/A"
+  );
 
-        if (retryCount < maxRetries) {
-          console.log(
-            `\nNeed ${
-              neededUrls - serpUrls.length
-            } more URLs, retrying SERP (attempt ${
-              retryCount + 1
-            }/${maxRetries})...`
-          );
-          await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2s between retries
-        }
-      } catch (error) {
-        console.error(`SERP attempt ${retryCount + 1} failed:`, error);
-        retryCount++;
-        if (retryCount < maxRetries) {
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-        }
-      }
+/**
+ * Adds a confidence score to the evidence of each value this run produced.
+ * The press pages are compared with each other: an article stating the
+ * extracted amount, or other articles naming the same people, make a value
+ * more trustworthy. Pages extraction did not read are fetched here.
+ */
+async function scoreFields(
+  provenance: FieldProvenanceMap,
+  urls: string[],
+  extracted: Pick<ExtractedData, "contacts" | "pages"> | null,
+  amount: NormalizedAmount | null,
+  record: FundraiseData,
+  company: CompanyIdentity
+): Promise<FieldProvenanceMap> {
+  const pages = new Map(extracted?.pages);
+  if (extracted) {
+    for (const url of urls) {
+      if (!pages.has(url)) pages.set(url, await fetchUrlContent(url));
     }
+  }
+  const pagesOtherThan = (url: string | null) =>
+    urls
+      .filter((other) => other !== url)
+      .map((other) => pages.get(other) ?? "")
+      .filter(Boolean);
+
+  const agreement = (field: ProvenanceField, evidence: FieldProvenance) => {
+    if (field === "amount_extracted") {
+      return amount
+        ? amountAgreement(
+            pagesOtherThan(evidence.source_url),
+            amount,
+            record.date_raised
+          )
+        : null;
+    }
+    if (field === "investor_contacts") {
+      return namesAgreement(
+        extracted?.contacts.map((contact) => contact.name) ?? [],
+        pagesOtherThan(evidence.source_url)
+      );
+    }
+    // A press URL agrees when its page states the amount that was extracted
+    const page = evidence.source_url ? pages.get(evidence.source_url) : "";
+    return amount && page
+      ? Number(mentionsAmount(page, amount, record.date_raised))
+      : null;
+  };
 
-    finalUrls = [...validUrls, ...serpUrls];
-    console.log(
-      `\nSERP summary: Found ${serpUrls.length} additional valid URLs`
-    );
-
-    return finalUrls;
+  const scored: FieldProvenanceMap = { ...provenance };
+  for (const field of Object.keys(provenance) as ProvenanceField[]) {
+    const evidence = provenance[field];
+    if (!evidence) continue;
+    scored[field] = {
+      ...evidence,
+      confidence: scoreProvenance(
+        evidence,
+        agreement(field, evidence),
+        company.domains ?? []
+      ),
+    };
   }
-  return [];
-};
+  return scored;
+}
 
 /**
  * Main function to enrich fundraise data. The process follows these steps:
- * 1. Try GPT-4 first to get URLs, amount, and investor info
- * 2. Validate GPT-4 provided URLs by checking content
- * 3. If needed, use SERP to find additional URLs
+ * 1. Query the search providers in their configured order
+ * 2. Validate URLs from untrusted providers by checking content
+ * 3. Stop as soon as 3 valid URLs are found
  * 4. Extract and verify information from valid URLs
- * 5. Final GPT-4 attempt if any information is missing
+ *
+ * `stages` lets a re-run skip steps: "search" alone only refreshes the press
+ * URLs, "extract" alone re-reads the URLs already stored on the row.
  */
 async function enrichRecordData(
-  record: FundraiseData
-): Promise<Partial<FundraiseData>> {
+  record: FundraiseData,
+  stages: EnrichmentStage[],
+  searchProviders: SearchProviderId[] | undefined,
+  failures: StructuredFailure[],
+  trace: EnrichmentTrace,
+  deadline: number | undefined
+): Promise<EnrichedRecord> {
   console.log(`\n📋 Processing: ${record.company_name}`);
   console.log("----------------------------------------");
 
-  const finalUrls = await getUrls(record);
+  const company = await traceStep(
+    trace,
+    "Load company",
+    () => loadCompany(record),
+    // The names and domains articles are matched against
+    (identity) =>
+      [
+        ...new Set([
+          identity.name,
+          ...(identity.aliases ?? []),
+          ...(identity.domains ?? []),
+        ]),
+      ].join(", ")
+  );
+  const score = (
+    provenance: FieldProvenanceMap,
+    urls: string[],
+    extracted: ExtractedData | null,
+    amount: NormalizedAmount | null
+  ) =>
+    traceStep(
+      trace,
+      "Score",
+      () => scoreFields(provenance, urls, extracted, amount, record, company),
+      (scored) =>
+        Object.entries(scored)
+          .filter(([, evidence]) => evidence?.confidence !== undefined)
+          .map(
+            ([field, evidence]) =>
+              `${field} ${Math.round((evidence?.confidence ?? 0) * 100)}%`
+          )
+          .join(", ") || null
+    );
+  const extract = (urls: string[]) =>
+    traceStep(
+      trace,
+      "Extract",
+      () => extractDataFromUrls(urls, record, failures, trace, deadline),
+      (data) =>
+        data.contacts.length > 0
+          ? `${data.contacts.length} people and ${data.amount_raised}`
+          : "Nothing found on the pages"
+    );
+
+  if (!stages.includes("search")) {
+    recordStep(trace, "Search", "skipped", "Re-reading the stored URLs");
+    const urls = storedUrls(record);
+    if (urls.length === 0) {
+      throw new Error("No press URLs stored for this row, run search first");
+    }
+
+    console.log("\n📑 Extraction only: re-reading stored URLs");
+    const extractedData = await extract(urls);
+    const amount = normalizeAmount(
+      extractedData.amount_raised,
+      record.date_raised
+    );
+    return {
+      investor_contacts: extractedData.investor_contacts,
+      contacts: extractedData.contacts,
+      amount_extracted: amount,
+      field_provenance: await score(
+        extractedData.provenance,
+        urls,
+        extractedData,
+        amount
+      ),
+    };
+  }
+
+  const candidates = await traceStep(
+    trace,
+    "Search",
+    () => getUrls(record, company, searchProviders, failures, trace, deadline),
+    (accepted) => `Accepted ${accepted.length} of 3 press URLs`
+  );
+  const finalUrls = candidates.map((candidate) => candidate.url);
+  const searchProvenance = pressUrlProvenance(candidates);
+
+  if (!stages.includes("extract")) {
+    console.log("\n🔎 Search only: keeping existing extracted fields");
+    recordStep(trace, "Extract", "skipped", "Search only run");
+    return {
+      press_url_1: finalUrls[0] || "N/A",
+      press_url_2: finalUrls[1] || "N/A",
+      press_url_3: finalUrls[2] || "N/A",
+      field_provenance: await score(searchProvenance, finalUrls, null, null),
+    };
+  }
 
   // Step 4: Extract information from valid URLs
   if (finalUrls.length === 3) {
@@ -202,18 +764,29 @@ async function enrichRecordData(
     console.log("Processing URLs:");
     finalUrls.forEach((url, index) => console.log(`${index + 1}. ${url}`));
 
-    const extractedData = await extractDataFromUrls(finalUrls, record);
+    const extractedData = await extract(finalUrls);
 
     console.log("\nExtraction Results:");
     console.log(`Amount Raised: ${extractedData.amount_raised}`);
     console.log(`Investor Contacts: ${extractedData.investor_contacts}`);
 
+    const amount = normalizeAmount(
+      extractedData.amount_raised,
+      record.date_raised
+    );
     return {
       press_url_1: finalUrls[0],
       press_url_2: finalUrls[1],
       press_url_3: finalUrls[2],
       investor_contacts: extractedData.investor_contacts,
-      amount_raised: extractedData.amount_raised,
+      contacts: extractedData.contacts,
+      amount_extracted: amount,
+      field_provenance: await score(
+        { ...searchProvenance, ...extractedData.provenance },
+        finalUrls,
+        extractedData,
+        amount
+      ),
     };
   }
 
@@ -221,177 +794,51 @@ async function enrichRecordData(
   console.log("\n⚠️ Could not find 3 valid URLs");
   console.log("----------------------------------------");
   console.log(`Total valid URLs found: ${finalUrls.length}`);
+  recordStep(
+    trace,
+    "Extract",
+    "skipped",
+    `Needs 3 press URLs, only ${finalUrls.length} found`
+  );
 
   return {
     press_url_1: finalUrls[0] || "N/A",
     press_url_2: finalUrls[1] || "N/A",
     press_url_3: finalUrls[2] || "N/A",
     investor_contacts: "N/A",
-    amount_raised: "N/A",
+    contacts: [],
+    amount_extracted: null,
+    field_provenance: {
+      ...(await score(searchProvenance, finalUrls, null, null)),
+      investor_contacts: undefined,
+      amount_extracted: undefined,
+    },
   };
 }
 
-interface PressSearchOptions {
-  companyName: string;
-  investors?: string;
-}
-
-interface SearchResult {
-  urls: string[];
-}
-
-const getPromptForGoogleSearch = (
-  company_name: string,
-  investors?: string
-): string => {
-  const excludeFiles =
-    "-filetype:pdf -filetype:doc -filetype:docx -filetype:xls -filetype:ppt -filetype:txt -filetype:rtf";
-
-  // const topSources = [
-  //   "crunchbase.com",
-  //   "techcrunch.com",
-  //   "businesswire.com",
-  //   "prnewswire.com",
-  //   "reuters.com",
-  //   "globenewswire.com",
-  //   "venturebeat.com",
-  //   "forbes.com",
-  // ].join(" OR ");
-
-  const baseQuery = `"${company_name}" funding round ${
-    investors ? `${investors}` : ""
-  } press release`;
-
-  return `${baseQuery} ${excludeFiles}`.trim();
-};
-
-export async function searchFundingPressReleasesGoogle(
-  record: FundraiseData
-): Promise<SearchResult> {
-  const API_KEY = Deno.env.get("GOOGLE_API");
-  const CX = Deno.env.get("GOOGLE_CX");
-
-  const query = getPromptForGoogleSearch(record.company_name, record.investors);
-  const url = `https://www.googleapis.com/customsearch/v1?key=${API_KEY}&cx=${CX}&q=${encodeURIComponent(
-    query
-  )}&num=5`;
-
-  console.log("Google api trying : ", query);
-
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    const urls: string[] =
-      data.items?.map((item: any) => item.link).slice(0, 3) || [];
-
-    console.log("Found urls from google api ", urls);
-    return { urls };
-  } catch (error) {
-    console.error("Error fetching press releases:", error);
-    return { urls: [] };
-  }
-}
-
-/**
- * Initial GPT-4 attempt to get all required information.
- * Uses high confidence threshold to ensure quality results.
- */
-async function tryGPT4Initial(record: FundraiseData): Promise<{
-  urls: string[];
-  investor_contacts: string;
-  amount_raised: string;
-}> {
-  const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-  if (!openaiApiKey) {
-    console.error("❌ OPENAI_API_KEY not configured");
-    return { urls: [], investor_contacts: "N/A", amount_raised: "N/A" };
-  }
-
-  const prompt = `Find press release URLs for ${
-    record.company_name
-  }'s funding round.
-
-Company: ${record.company_name}
-Date: ${record.date_raised || "Recent"}
-Known Investors: ${record.investors || "Unknown"}
-
-Task:
-Find 3 most relevant press release URLs about this funding round.
-- Focus on official press releases and major news sites
-- Ensure URLs are specific to this company and this funding round
-- Prioritize: businesswire.com, prnewswire.com, globenewswire.com, techcrunch.com, reuters.com
-
-Return in JSON format:
-{
-  "urls": ["url1", "url2", "url3"]
-}`;
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert in finding accurate press releases about startup funding rounds.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 500,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const result = JSON.parse(data.choices[0]?.message?.content || "{}");
-
-    return {
-      urls: result.urls || [],
-      investor_contacts: "N/A", // We'll get this from URL content later
-      amount_raised: "N/A", // We'll get this from URL content later
-    };
-  } catch (error) {
-    console.error("❌ GPT-4 URL search failed:", error);
-    return { urls: [], investor_contacts: "N/A", amount_raised: "N/A" };
-  }
-}
-
 /**
  * Validates a single URL by checking its content
  */
 async function validateSingleUrl(
   url: string,
-  companyName: string
-): Promise<boolean> {
+  company: CompanyIdentity
+): Promise<CandidateCheck> {
   try {
     const content = await fetchUrlContent(url);
-    if (!content) return false;
+    if (!content) {
+      return { valid: false, score: null, reason: "Page could not be fetched" };
+    }
 
-    const companyNameLower = companyName.toLowerCase();
     const contentLower = content.toLowerCase();
 
-    // Must contain company name
-    if (!contentLower.includes(companyNameLower)) {
+    // Must mention the company, under any of its names or domains
+    if (!mentionsCompany(content, company, url)) {
       console.log("Company name not found in content");
-      return false;
+      return {
+        valid: false,
+        score: null,
+        reason: "Page does not mention the company",
+      };
     }
 
     // Must contain funding keywords
@@ -418,113 +865,160 @@ async function validateSingleUrl(
     if (!isValid) {
       console.log(`Not enough relevance indicators (score: ${score})`);
     }
-    return isValid;
+    return {
+      valid: isValid,
+      score,
+      reason: isValid
+        ? `Funding keywords: ${foundKeywords.join(", ") || "none"}`
+        : `Not enough relevance indicators (score ${score}, needs 2)`,
+    };
   } catch (error) {
-    console.log(
-      "Error fetching or processing URL:",
-      error instanceof Error ? error.message : "Unknown error"
-    );
-    return false;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.log("Error fetching or processing URL:", message);
+    return { valid: false, score: null, reason: message };
   }
 }
 
-/**
- * Uses SERP API to find additional URLs when GPT-4 results are insufficient.
- * Focuses on press releases and tech news sites.
- */
-async function trySerpForRemaining(
-  record: FundraiseData,
-  count: number,
-  existingUrls: string[]
-): Promise<{ urls: string[] }> {
-  const serpApiKey = Deno.env.get("SERP_API_KEY");
-  if (!serpApiKey) {
-    throw new Error("SERP_API_KEY not configured");
-  }
-
-  // Try different search queries for better results
-  const searchQueries = [
-    `"${record.company_name}" funding press release ${record.date_raised} site:businesswire.com OR site:prnewswire.com OR site:globenewswire.com`,
-    `"${record.company_name}" raises funding ${record.date_raised}`,
-    `"${record.company_name}" investment announcement ${record.date_raised} site:techcrunch.com OR site:reuters.com`,
-  ];
-
-  for (const query of searchQueries) {
-    console.log(`Trying SERP query: "${query}"`);
-
-    const response = await fetch(
-      `https://serpapi.com/search.json?` +
-        new URLSearchParams({
-          q: query,
-          api_key: serpApiKey,
-          hl: "en",
-          gl: "us",
-          num: count.toString(),
-        })
-    );
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        throw new Error("SERP API rate limit reached");
-      }
-      throw new Error(`SERP API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const results = data.organic_results || [];
-
-    // Filter out existing URLs
-    const newUrls = results
-      .map((result: any) => result.link)
-      .filter((url: string) => !existingUrls.includes(url));
-
-    if (newUrls.length > 0) {
-      return { urls: newUrls };
-    }
-  }
-
-  return { urls: [] };
-}
+const isFound = (value: string) => value.trim().toUpperCase() !== "N/A";
 
 /**
- * Update extractDataFromUrls to be more concise
+ * Reads the URLs one at a time until a model finds both the investors and the
+ * amount. Each URL goes down the extract_funding fallback chain; answers that
+ * fail the schema are added to `failures`.
  */
 async function extractDataFromUrls(
   urls: string[],
-  record: FundraiseData
+  record: FundraiseData,
+  failures: StructuredFailure[],
+  trace: EnrichmentTrace,
+  deadline: number | undefined
 ): Promise<ExtractedData> {
   console.log("\nAttempting data extraction...");
+  const pages = new Map<string, string>();
 
-  // First try with Groq
-  try {
-    console.log("Trying extraction with Groq...");
-    const groqResult = await extractWithGroq(urls, record);
-    if (
-      groqResult.investor_contacts !== "N/A" &&
-      groqResult.amount_raised !== "N/A"
-    ) {
-      console.log("✅ Groq extraction successful");
-      return groqResult;
+  for (const url of urls) {
+    checkDeadline(deadline);
+    console.log("trying with : ", url);
+    const content = await fetchUrlContent(url);
+    pages.set(url, content);
+    if (!content) {
+      recordStep(trace, "Fetch page", "failed", `Could not fetch ${url}`);
+      continue;
     }
-    console.log("⚠️ Groq extraction incomplete, falling back to GPT-4");
-  } catch (error) {
-    console.log("⚠️ Groq extraction failed, falling back to GPT-4");
-  }
 
-  // Fallback to GPT-4
-  console.log("Trying extraction with GPT-4...");
-  const gptResult = await extractWithGPT4(urls, record);
-  console.log(
-    gptResult.investor_contacts === "N/A" || gptResult.amount_raised === "N/A"
-      ? "⚠️ GPT-4 extraction incomplete"
-      : "✅ GPT-4 extraction successful"
-  );
-  return gptResult;
-}
-const createPromptForGroq = (
-  combinedContent: string,
-  record: FundraiseData
-) => {
+    try {
+      const result = await completeStructured(
+        "extract_funding",
+        FundingExtractionSchema,
+        {
+          messages: [
+            {
+              role: "system",
+              content:
+                "You are an expert at extracting precise funding information from press releases and only response in json.",
+            },
+            {
+              role: "user",
+              content: createExtractionPrompt(content, record),
+            },
+          ],
+          temperature: 0.1,
+          maxTokens: 1000,
+        },
+        isCompleteExtraction
+      );
+      failures.push(...result.failures);
+      traceModelCalls(
+        trace,
+        "extract_funding",
+        result,
+        url,
+        isCompleteExtraction(result.data)
+      );
+
+      if (isCompleteExtraction(result.data)) {
+        console.log(
+          `✅ Extraction successful with ${result.provider}/${result.model}`
+        );
+        const source = {
+          url,
+          task: "extract_funding",
+          provider: result.provider,
+          model: result.model,
+        };
+        const contactEvidence: FieldProvenance[] = [];
+        const contacts = result.data.contacts.map(({ quote, ...contact }) => {
+          const evidence = extractedProvenance(content, quote, source);
+          contactEvidence.push(evidence);
+          return {
+            ...contact,
+            source_url: url,
+            source_snippet: evidence.snippet,
+            source_verified: evidence.verified,
+          };
+        });
+        const unverified = contacts.filter(
+          (contact) => !contact.source_verified
+        );
+        if (unverified.length > 0) {
+          console.log(
+            `⚠️ ${unverified.length} contacts not quoted from ${url}:`,
+            unverified.map((contact) => contact.name).join(", ")
+          );
+        }
+
+        return {
+          investor_contacts: formatContacts(contacts),
+          contacts,
+          amount_raised: result.data.amount_raised,
+          urls,
+          pages,
+          provenance: {
+            // The field is as trustworthy as its least supported name
+            investor_contacts: {
+              ...(contactEvidence.find((evidence) => evidence.verified) ??
+                contactEvidence[0]),
+              verified: unverified.length === 0,
+            },
+            amount_extracted: extractedProvenance(
+              content,
+              result.data.amount_quote,
+              source
+            ),
+          },
+        };
+      }
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        failures.push(...error.failures);
+        traceModelCalls(trace, "extract_funding", error, url);
+      }
+      console.log(
+        "⚠️ Extraction failed for",
+        url,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  console.log("⚠️ Extraction incomplete");
+  return {
+    urls,
+    investor_contacts: "N/A",
+    contacts: [],
+    amount_raised: "N/A",
+    pages,
+    provenance: { investor_contacts: undefined, amount_extracted: undefined },
+  };
+}
+
+const isCompleteExtraction = (data: FundingExtraction) =>
+  data.contacts.length > 0 && parseAmount(data.amount_raised) !== null;
+
+const createExtractionPrompt = (
+  combinedContent: string,
+  record: FundraiseData
+) => {
   const prompt = `Extract funding information from these articles about ${
     record.company_name
   }.
@@ -536,178 +1030,27 @@ Content:
 ${combinedContent}
 
 Extract:
-1. Individual investors and their roles (format: "Name (Role, Firm)")
+1. Individual people who invested or represent the investing firms: their name, job title, firm, and whether the firm led the round ("lead") or joined it ("participant"); use "unknown" when the article does not say
 2. funding amount with currency
 
-if you dont find the data in the content search the internet for it
+For each person give a confidence between 0 and 1 that they really took part in this round.
+Do not include employees or executives of ${record.company_name}.
 
-Return in JSON format in a single line and not extra text other than the json :
+Only report what the content says. For every person and for the amount, copy the sentence from the content that supports it, word for word, into "quote"/"amount_quote"; the quotes are checked against the article.
+
+Return a single JSON object and no extra text other than the json :
 {
-  "investor_contacts": "Name1 (Role, Firm1), Name2 (Role, Firm2)",
-  "amount_raised": "$X million"
+  "contacts": [
+    {"name": "Jane Doe", "title": "Partner", "firm": "Acme Ventures", "round_role": "lead", "confidence": 0.9, "quote": "The round was led by Jane Doe of Acme Ventures."}
+  ],
+  "amount_raised": "$X million",
+  "amount_quote": "Acme Space today announced it has raised $X million."
 }
   do not send 0 million as its wrong instead send N/A as response in amount raised; 
-  if data is not found return {}`;
+  use an empty contacts list when no people are named`;
 
   return prompt;
 };
-const askGroq = async (
-  prompt: string
-): Promise<{
-  investor_contacts?: string;
-  amount_raised?: string;
-}> => {
-  const groqApiKey = Deno.env.get("GROQ_API_KEY");
-  if (!groqApiKey) throw new Error("No Groq API key");
-
-  const response = await fetch(
-    "https://api.groq.com/openai/v1/chat/completions",
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${groqApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "llama3-8b-8192",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert at extracting precise funding information from press releases and only response in json.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 500,
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    console.log(response.status, " groq response", await response.json());
-    if (response.status === 429) throw new Error("Rate limit");
-    throw new Error(`Groq API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  console.log("data", data);
-  try {
-    console.log("ai response ", data.choices[0]?.message?.content);
-    const result = JSON.parse(data.choices[0]?.message?.content || "{}");
-    return {
-      investor_contacts: result.investor_contacts || "",
-      amount_raised: result.amount_raised || "",
-    };
-  } catch (e) {
-    //
-  }
-
-  return {};
-};
-
-async function extractWithGroq(
-  urls: string[],
-  record: FundraiseData
-): Promise<ExtractedData> {
-  for (const url of urls) {
-    console.log("trying with : ", url);
-    try {
-      const content = await fetchUrlContent(url);
-      console.log("Got content from ", content);
-      if (content) {
-        const prompt = await createPromptForGroq(content, record);
-        const response = await askGroq(prompt);
-        if (response.amount_raised && response.investor_contacts)
-          return {
-            amount_raised: response.amount_raised || "N/A",
-            investor_contacts: response.investor_contacts || "N/A",
-            urls: urls,
-          };
-      }
-    } catch (error) {
-      continue;
-    }
-  }
-
-  throw new Error("No content could be extracted from URLs");
-}
-const askOpenAi = async (prompt: string) => {
-  const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-  if (!openaiApiKey) {
-    return { investor_contacts: "N/A", amount_raised: "N/A" };
-  }
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert at extracting precise funding information from press releases. and only response in json",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 500,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const result = JSON.parse(data.choices[0]?.message?.content || "{}");
-
-    return {
-      investor_contacts: result.investor_contacts || "N/A",
-      amount_raised: result.amount_raised || "N/A",
-    };
-  } catch (error) {
-    console.error("❌ GPT-4 extraction failed:", error);
-    return { investor_contacts: "N/A", amount_raised: "N/A" };
-  }
-};
-
-async function extractWithGPT4(
-  urls: string[],
-  record: FundraiseData
-): Promise<ExtractedData> {
-  for (const url of urls) {
-    console.log("trying with : ", url);
-    try {
-      const content = await fetchUrlContent(url);
-      console.log("Got content from ", content);
-      if (content) {
-        const prompt = await createPromptForGroq(content, record);
-        const response = await askOpenAi(prompt);
-        if (response.amount_raised && response.investor_contacts)
-          return {
-            amount_raised: response.amount_raised || "N/A",
-            investor_contacts: response.investor_contacts || "N/A",
-            urls: urls,
-          };
-      }
-    } catch (error) {
-      continue;
-    }
-  }
-
-  return { urls, investor_contacts: "N/A", amount_raised: "N/A" };
-}
 
 export async function fetchUrlContent(url: string): Promise<string> {
   const userAgents = [
@@ -764,6 +1107,13 @@ export async function fetchUrlContent(url: string): Promise<string> {
           `❌ Failed [${response.status}] for ${url}`,
           await response.text()
         );
+        // Only wait when the site asks us to slow down; other failures are
+        // retried straight away with a different User-Agent.
+        if (isRetryableStatus(response.status) && attempt < 3) {
+          const delay = backoffDelay(response, attempt - 1);
+          console.log(`⏳ Backing off ${delay}ms before retrying ${url}`);
+          await new Promise((res) => setTimeout(res, delay));
+        }
         throw new Error(`HTTP ${response.status}`);
       }
 
@@ -778,7 +1128,6 @@ export async function fetchUrlContent(url: string): Promise<string> {
       }
     } catch (err) {
       console.log(`🚫 Attempt ${attempt} error: ${(err as Error).message}`);
-      if (attempt < 3) await new Promise((res) => setTimeout(res, 1000));
     }
   }
 
@@ -823,636 +1172,6 @@ function extractTextFromHTML(html: string): string {
   return text;
 }
 
-async function extractInvestorNamesWithLLM(
-  text: string,
-  companyName: string,
-  knownInvestors: string
-): Promise<string> {
-  const groqApiKey = Deno.env.get("GROQ_API_KEY");
-  const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-
-  if (!groqApiKey && !openaiApiKey) {
-    console.error("❌ Neither GROQ_API_KEY nor OPENAI_API_KEY configured");
-    return "N/A";
-  }
-
-  // Try multiple approaches in sequence
-  let result = "N/A";
-
-  // 1. Try Groq first if available
-  if (groqApiKey) {
-    try {
-      result = await tryGroqExtraction(
-        text,
-        companyName,
-        knownInvestors,
-        groqApiKey
-      );
-      if (result !== "N/A") {
-        console.log("✅ Successfully extracted investors using Groq");
-        return result;
-      }
-    } catch (error) {
-      if (error.message === "Rate limit" && openaiApiKey) {
-        console.log("⚠️ Groq API rate limit hit, trying OpenAI");
-      } else {
-        console.error("❌ Groq extraction failed:", error);
-      }
-    }
-  }
-
-  // 2. Try OpenAI if available
-  if (openaiApiKey) {
-    try {
-      result = await tryOpenAIExtraction(
-        text,
-        companyName,
-        knownInvestors,
-        openaiApiKey
-      );
-      if (result !== "N/A") {
-        console.log("✅ Successfully extracted investors using OpenAI");
-        return result;
-      }
-    } catch (error) {
-      console.error("❌ OpenAI extraction failed:", error);
-    }
-  }
-
-  // 3. If still no results, try direct investor lookup
-  if (openaiApiKey && knownInvestors) {
-    try {
-      result = await tryInvestorLookup(
-        companyName,
-        knownInvestors,
-        openaiApiKey
-      );
-      if (result !== "N/A") {
-        console.log("✅ Successfully found investors through direct lookup");
-        return result;
-      }
-    } catch (error) {
-      console.error("❌ Investor lookup failed:", error);
-    }
-  }
-
-  return "N/A";
-}
-
-async function tryGroqExtraction(
-  text: string,
-  companyName: string,
-  knownInvestors: string,
-  apiKey: string
-): Promise<string> {
-  const prompt = `Extract investor information from this press release about ${companyName}'s funding round.
-
-CONTEXT:
-Company: ${companyName}
-Known Investors: ${knownInvestors}
-
-TASK:
-1. Find INDIVIDUAL PEOPLE who are investors or represent investment firms
-2. Include their full names and associated firms
-3. Focus on lead investors, partners, managing directors, and key decision-makers
-4. DO NOT include employees or executives of ${companyName}
-
-FORMAT:
-- Return names as: "Full Name (Firm Name)"
-- Separate multiple investors with commas
-- Example: "John Smith (Acme Ventures), Jane Doe (XYZ Capital)"
-- If no individual names found, return "N/A"
-
-PRESS RELEASE TEXT:
-${text.slice(0, 6000)}
-
-Return ONLY the formatted investor names:`;
-
-  const response = await fetch(
-    "https://api.groq.com/openai/v1/chat/completions",
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "llama3-8b-8192",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a precise extractor of investor information from press releases. Return only properly formatted investor names or 'N/A'.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 300,
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    if (response.status === 429) {
-      throw new Error("Rate limit");
-    }
-    throw new Error(`Groq API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const result = data.choices[0]?.message?.content || "N/A";
-
-  if (
-    result.toLowerCase().includes("n/a") ||
-    result.toLowerCase().includes("no individual") ||
-    result.toLowerCase().includes("not found") ||
-    !result.includes("(") ||
-    result.trim().length < 5
-  ) {
-    return "N/A";
-  }
-
-  return result.trim();
-}
-
-async function tryOpenAIExtraction(
-  text: string,
-  companyName: string,
-  knownInvestors: string,
-  apiKey: string
-): Promise<string> {
-  const prompt = `Extract investor information from this press release about ${companyName}'s funding round.
-
-CONTEXT:
-Company: ${companyName}
-Known Investors: ${knownInvestors}
-
-TASK:
-1. Find INDIVIDUAL PEOPLE who are investors or represent investment firms
-2. Include their full names and associated firms
-3. Focus on lead investors, partners, managing directors, and key decision-makers
-4. DO NOT include employees or executives of ${companyName}
-
-FORMAT:
-- Return names as: "Full Name (Firm Name)"
-- Separate multiple investors with commas
-- Example: "John Smith (Acme Ventures), Jane Doe (XYZ Capital)"
-- If no individual names found, return "N/A"
-
-PRESS RELEASE TEXT:
-${text.slice(0, 6000)}
-
-Return ONLY the formatted investor names:`;
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a precise extractor of investor information from press releases. Return only properly formatted investor names or 'N/A'.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.1,
-      max_tokens: 300,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const result = data.choices[0]?.message?.content || "N/A";
-
-  if (
-    result.toLowerCase().includes("n/a") ||
-    result.toLowerCase().includes("no individual") ||
-    result.toLowerCase().includes("not found") ||
-    !result.includes("(") ||
-    result.trim().length < 5
-  ) {
-    return "N/A";
-  }
-
-  return result.trim();
-}
-
-async function tryInvestorLookup(
-  companyName: string,
-  knownInvestors: string,
-  apiKey: string
-): Promise<string> {
-  const prompt = `Find the names of individual investors or investment firm representatives for ${companyName}.
-
-Company: ${companyName}
-Known Investment Firms/Investors: ${knownInvestors}
-Date: ${new Date().getFullYear()}
-
-Task:
-1. Based on the known investors/firms provided, identify specific individuals who are likely to be involved
-2. Focus on partners, managing directors, or key decision-makers at the mentioned firms
-3. Use your knowledge of the venture capital industry
-4. If multiple people from the same firm, prioritize the most senior/relevant ones
-
-Format your response as: "Full Name (Firm Name)" with multiple names separated by commas
-Example: "John Smith (Acme Ventures), Jane Doe (XYZ Capital)"
-
-Return ONLY the formatted names, or "N/A" if no confident matches:`;
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an expert in venture capital and startup investments. Return only properly formatted investor names or 'N/A'.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.1,
-      max_tokens: 300,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const result = data.choices[0]?.message?.content || "N/A";
-
-  if (
-    result.toLowerCase().includes("n/a") ||
-    result.toLowerCase().includes("no individual") ||
-    result.toLowerCase().includes("not found") ||
-    !result.includes("(") ||
-    result.trim().length < 5
-  ) {
-    return "N/A";
-  }
-
-  return result.trim();
-}
-
-async function extractAmountWithLLM(
-  content: string,
-  companyName: string
-): Promise<string> {
-  const groqApiKey = Deno.env.get("GROQ_API_KEY");
-  const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-
-  if (!groqApiKey && !openaiApiKey) {
-    console.error("❌ Neither GROQ_API_KEY nor OPENAI_API_KEY configured");
-    return "N/A";
-  }
-
-  const prompt = `Extract the funding amount from this press release about ${companyName}.
-  
-CONTENT:
-${content}
-
-TASK:
-1. Find the specific funding amount mentioned
-2. Include the currency symbol/code (e.g., $, €, £)
-3. Return in format like "$100 million" or "€50M"
-4. If multiple amounts found, return the main funding round amount
-5. If no clear amount found, return "N/A"
-
-FORMAT:
-Return ONLY the amount, nothing else.`;
-
-  // Try Groq first if available
-  if (groqApiKey) {
-    try {
-      const response = await fetch(
-        "https://api.groq.com/openai/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${groqApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "mixtral-8x7b-32768",
-            messages: [
-              {
-                role: "user",
-                content: prompt,
-              },
-            ],
-            temperature: 0.1,
-            max_tokens: 50,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        if (response.status === 429) {
-          console.log("⚠️ Groq API rate limit hit, falling back to OpenAI");
-          throw new Error("Rate limit");
-        }
-        throw new Error(`Groq API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const amount = data.choices[0].message.content.trim();
-      return amount === "N/A" ? "N/A" : amount;
-    } catch (error) {
-      // If it's not a rate limit error and we don't have OpenAI as fallback, return N/A
-      if (error.message !== "Rate limit" || !openaiApiKey) {
-        console.error(
-          "❌ Error extracting amount:",
-          error instanceof Error ? error.message : "Unknown error"
-        );
-        return "N/A";
-      }
-    }
-  }
-
-  // OpenAI fallback
-  if (openaiApiKey) {
-    try {
-      const response = await fetch(
-        "https://api.openai.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${openaiApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "gpt-3.5-turbo",
-            messages: [
-              {
-                role: "system",
-                content:
-                  "You are a precise extractor of funding amounts from press releases. Return only the amount or 'N/A'.",
-              },
-              {
-                role: "user",
-                content: prompt,
-              },
-            ],
-            temperature: 0.1,
-            max_tokens: 50,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const amount = data.choices[0].message.content.trim();
-      return amount === "N/A" ? "N/A" : amount;
-    } catch (error) {
-      console.error(
-        "❌ Error extracting amount with OpenAI:",
-        error instanceof Error ? error.message : "Unknown error"
-      );
-      return "N/A";
-    }
-  }
-
-  return "N/A";
-}
-
-async function tryGPTFallback(record: FundraiseData): Promise<{
-  urls: string[];
-  investor_contacts: string;
-  amount_raised: string;
-}> {
-  const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-  if (!openaiApiKey) {
-    console.error("❌ OPENAI_API_KEY not configured for fallback");
-    return {
-      urls: [],
-      investor_contacts: "N/A",
-      amount_raised: "N/A",
-    };
-  }
-
-  const prompt = `Find press release URLs and extract funding information for ${record.company_name}.
-
-Company: ${record.company_name}
-Known Investors: ${record.investors}
-Date Raised: ${record.date_raised}
-
-Please provide:
-1. 3 press release URLs about their funding
-2. Individual investor names in format "Name (Firm)"
-3. Amount raised
-
-Return in JSON format:
-{
-  "urls": ["url1", "url2", "url3"],
-  "investor_contacts": "Name (Firm), Name (Firm)",
-  "amount_raised": "$X million"
-}`;
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a research assistant. Find press releases and extract funding information. Return valid JSON only.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 500,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const result = data.choices[0]?.message?.content || "";
-
-    console.log("🤖 GPT Fallback Result:", result);
-
-    try {
-      const parsed = JSON.parse(result);
-      return {
-        urls: parsed.urls || [],
-        investor_contacts: parsed.investor_contacts || "N/A",
-        amount_raised: parsed.amount_raised || "N/A",
-      };
-    } catch (parseError) {
-      console.error("❌ Failed to parse GPT response:", parseError);
-      return {
-        urls: [],
-        investor_contacts: "N/A",
-        amount_raised: "N/A",
-      };
-    }
-  } catch (error) {
-    console.error("💥 GPT fallback failed:", error);
-    return {
-      urls: [],
-      investor_contacts: "N/A",
-      amount_raised: "N/A",
-    };
-  }
-}
-
-async function tryAlternativeSearchQueries(
-  record: FundraiseData
-): Promise<string[]> {
-  const serpApiKey = Deno.env.get("SERP_API_KEY");
-  if (!serpApiKey) return [];
-
-  // Alternative search queries to try
-  const queries = [
-    `${record.company_name} announces ${record.amount_raised} funding`,
-    `${record.company_name} secures investment ${record.investors || ""}`,
-    `${record.company_name} investment news ${record.date_raised}`,
-    `${record.company_name} financing round announcement`,
-    `${record.company_name} raises capital press release`,
-  ];
-
-  console.log("\n🔄 Trying alternative search queries...");
-
-  const allUrls: AnalyzedUrl[] = [];
-
-  for (const query of queries) {
-    try {
-      console.log(`\n🔍 Trying query: "${query}"`);
-
-      const response = await fetch(
-        `https://serpapi.com/search.json?` +
-          new URLSearchParams({
-            q: query,
-            api_key: serpApiKey,
-            hl: "en",
-            gl: "us",
-            num: "5",
-          })
-      );
-
-      if (!response.ok) continue;
-
-      const data = await response.json();
-      const results = data.organic_results || [];
-
-      for (const result of results) {
-        const url = result.link;
-        const content = await fetchUrlContent(url);
-
-        if (!content) continue;
-
-        // Check for company name and funding keywords
-        const companyNameLower = record.company_name.toLowerCase();
-        const contentLower = content.toLowerCase();
-
-        if (!contentLower.includes(companyNameLower)) continue;
-
-        const foundKeywords = fundingKeywords.filter((keyword) =>
-          contentLower.includes(keyword.toLowerCase())
-        );
-
-        if (foundKeywords.length >= 2) {
-          // More lenient keyword requirement for fallback
-          allUrls.push({
-            url,
-            keywordCount: foundKeywords.length,
-            keywords: foundKeywords,
-          });
-        }
-      }
-    } catch (error) {
-      console.log(
-        `  ⚠️ Error with query "${query}": ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
-      continue;
-    }
-  }
-
-  // Remove duplicates and sort by keyword count
-  const uniqueUrls = Array.from(new Set(allUrls.map((item) => item.url)))
-    .map((url) => allUrls.find((item) => item.url === url)!)
-    .sort((a, b) => b.keywordCount - a.keywordCount)
-    .map((item) => item.url);
-
-  console.log(
-    `\n📊 Found ${uniqueUrls.length} additional URLs from alternative queries`
-  );
-  return uniqueUrls;
-}
-
-async function tryNewsAPIs(record: FundraiseData): Promise<string[]> {
-  console.log("\n📰 Trying news API sources...");
-
-  // This is where you could integrate with other news APIs
-  // For now, we'll use a simple web search with news-specific terms
-  const serpApiKey = Deno.env.get("SERP_API_KEY");
-  if (!serpApiKey) return [];
-
-  try {
-    const query = `${record.company_name} funding news site:techcrunch.com OR site:bloomberg.com OR site:reuters.com OR site:businesswire.com OR site:prnewswire.com`;
-
-    const response = await fetch(
-      `https://serpapi.com/search.json?` +
-        new URLSearchParams({
-          q: query,
-          api_key: serpApiKey,
-          hl: "en",
-          gl: "us",
-          num: "5",
-        })
-    );
-
-    if (!response.ok) return [];
-
-    const data = await response.json();
-    return (data.organic_results || [])
-      .map((result: any) => result.link)
-      .filter((url: string) => url);
-  } catch (error) {
-    console.log("  ⚠️ News API search failed");
-    return [];
-  }
-}
-
 // Common keywords to look for in content
 const fundingKeywords = [
   "raised",
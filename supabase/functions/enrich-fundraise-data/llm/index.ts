@@ -0,0 +1,238 @@
+import type { ZodType } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import {
+  groqProvider,
+  localProvider,
+  openAiProvider,
+} from "./openai-compatible.ts";
+import type {
+  ChatRequest,
+  LlmCompletion,
+  LlmProvider,
+  LlmProviderId,
+  LlmTask,
+  ModelRoute,
+  StructuredCompletion,
+  StructuredFailure,
+} from "./types.ts";
+
+export type {
+  ChatMessage,
+  ChatRequest,
+  LlmCompletion,
+  LlmProviderId,
+  LlmTask,
+  ModelRoute,
+  StructuredCompletion,
+  StructuredFailure,
+} from "./types.ts";
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  openai: openAiProvider,
+  groq: groqProvider,
+  local: localProvider,
+};
+
+// Used for any task LLM_ROUTES does not mention
+const DEFAULT_ROUTES: Record<LlmTask, string[]> = {
+  find_urls: ["openai:gpt-4o"],
+  extract_funding: ["groq:llama3-8b-8192", "openai:gpt-4o"],
+  extract_investors: ["groq:llama3-8b-8192", "openai:gpt-3.5-turbo"],
+  lookup_investors: ["openai:gpt-4o"],
+  extract_amount: ["groq:mixtral-8x7b-32768", "openai:gpt-3.5-turbo"],
+  research_fallback: ["openai:gpt-4o-mini"],
+};
+
+const parseRoute = (value: string): ModelRoute | null => {
+  const separator = value.indexOf(":");
+  if (separator < 1) return null;
+
+  const provider = value.slice(0, separator).trim();
+  const model = value.slice(separator + 1).trim();
+  if (!(provider in LLM_PROVIDERS) || !model) return null;
+
+  return { provider: provider as LlmProviderId, model };
+};
+
+/**
+ * The fallback chain for a task. LLM_ROUTES holds a JSON object of task to
+ * "provider:model" lists, e.g.
+ * {"extract_funding": ["local:llama3.1", "groq:llama-3.1-8b-instant"]}.
+ */
+export function resolveRoutes(task: LlmTask): ModelRoute[] {
+  let configured: string[] | undefined;
+  const raw = Deno.env.get("LLM_ROUTES");
+
+  if (raw) {
+    try {
+      const routes = JSON.parse(raw);
+      if (Array.isArray(routes[task])) configured = routes[task];
+    } catch (error) {
+      console.error("⚠️ Ignoring invalid LLM_ROUTES:", error);
+    }
+  }
+
+  return (configured ?? DEFAULT_ROUTES[task])
+    .map((value) => parseRoute(String(value)))
+    .filter((route): route is ModelRoute => {
+      if (!route) return false;
+      return LLM_PROVIDERS[route.provider].isConfigured();
+    });
+}
+
+export const hasLlmRoute = (task: LlmTask): boolean =>
+  resolveRoutes(task).length > 0;
+
+/**
+ * Runs a chat request down the task's fallback chain. A model that errors, or
+ * whose answer `accept` rejects, hands over to the next one.
+ */
+export async function completeWithFallback(
+  task: LlmTask,
+  request: ChatRequest,
+  accept: (text: string) => boolean = (text) => text.trim().length > 0
+): Promise<LlmCompletion> {
+  const routes = resolveRoutes(task);
+  if (routes.length === 0) {
+    throw new Error(`No configured LLM provider for ${task}`);
+  }
+
+  const failures: string[] = [];
+
+  for (const { provider, model } of routes) {
+    try {
+      console.log(`🤖 ${task}: trying ${provider}/${model}`);
+      const text = await LLM_PROVIDERS[provider].chat(model, request);
+
+      if (accept(text)) {
+        return { text, provider, model };
+      }
+      failures.push(`${provider}/${model}: unusable answer`);
+      console.log(`⚠️ ${provider}/${model} gave an unusable answer`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`${provider}/${model}: ${message}`);
+      console.error(`❌ ${provider}/${model} failed:`, message);
+    }
+  }
+
+  throw new Error(`All models failed for ${task} (${failures.join("; ")})`);
+}
+
+// Each model gets one chance to fix an answer that failed validation
+const MAX_REPAIRS = 1;
+
+/**
+ * Thrown when no model in the chain produced an answer matching the schema.
+ * The individual failures are kept so they can be recorded on the row.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public task: LlmTask,
+    public failures: StructuredFailure[]
+  ) {
+    super(
+      `No valid ${task} answer (${failures
+        .map(
+          (failure) =>
+            `${failure.provider}/${failure.model}: ${failure.message}`
+        )
+        .join("; ")})`
+    );
+    this.name = "StructuredOutputError";
+  }
+}
+
+// Models in JSON mode still sometimes wrap the object in prose or fences
+const parseJsonAnswer = (text: string): unknown => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("Answer contains no JSON object");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+/**
+ * Like completeWithFallback, but the answer must be JSON matching `schema`.
+ * JSON mode is requested from the provider, the answer is validated, and a
+ * failing answer is sent back once with the validation errors for repair
+ * before the next model in the chain is tried. An answer can be valid yet
+ * unhelpful (e.g. every field "N/A"); `accept` lets the next model try then.
+ */
+export async function completeStructured<T>(
+  task: LlmTask,
+  schema: ZodType<T>,
+  request: ChatRequest,
+  accept: (data: T) => boolean = () => true
+): Promise<StructuredCompletion<T>> {
+  const routes = resolveRoutes(task);
+  if (routes.length === 0) {
+    throw new Error(`No configured LLM provider for ${task}`);
+  }
+
+  const failures: StructuredFailure[] = [];
+  let unaccepted: StructuredCompletion<T> | null = null;
+
+  for (const { provider, model } of routes) {
+    let messages = request.messages;
+
+    for (let attempt = 0; attempt <= MAX_REPAIRS; attempt++) {
+      let text: string;
+      try {
+        console.log(`🤖 ${task}: trying ${provider}/${model}`);
+        text = await LLM_PROVIDERS[provider].chat(model, {
+          ...request,
+          messages,
+          json: true,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ ${provider}/${model} failed:`, message);
+        failures.push({ task, provider, model, message });
+        break;
+      }
+
+      let problem: string;
+      try {
+        const result = schema.safeParse(parseJsonAnswer(text));
+        if (result.success) {
+          const completion = { data: result.data, provider, model, failures };
+          if (accept(result.data)) return completion;
+
+          console.log(`⚠️ ${provider}/${model} found nothing usable`);
+          unaccepted ??= completion;
+          break;
+        }
+        problem = result.error.issues
+          .map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+          .join(", ");
+      } catch (error) {
+        problem = error instanceof Error ? error.message : String(error);
+      }
+
+      failures.push({ task, provider, model, message: problem });
+      console.log(
+        `⚠️ ${provider}/${model} answer failed validation: ${problem}`
+      );
+
+      messages = [
+        ...messages,
+        { role: "assistant", content: text },
+        {
+          role: "user",
+          content: `Your reply did not match the required JSON format (${problem}). Reply again with only the corrected JSON object.`,
+        },
+      ];
+    }
+  }
+
+  // A valid "nothing found" is still a better answer than an error
+  if (unaccepted) return unaccepted;
+  throw new StructuredOutputError(task, failures);
+}
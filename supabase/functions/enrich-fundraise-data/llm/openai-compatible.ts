@@ -0,0 +1,98 @@
+import {
+  rateLimitedFetch,
+  type RateLimitedProvider,
+} from "../../_shared/rate-limit.ts";
+import type { ChatRequest, LlmProvider, LlmProviderId } from "./types.ts";
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+interface OpenAICompatibleConfig {
+  id: LlmProviderId;
+  // Base URL up to and including /v1
+  baseUrl: () => string | undefined;
+  apiKey: () => string | undefined;
+  // Local servers work without a key
+  requiresApiKey: boolean;
+  // Shared token bucket for hosted APIs; local servers are not throttled
+  rateLimit?: RateLimitedProvider;
+}
+
+/**
+ * A provider for any server that speaks the OpenAI chat completions API:
+ * OpenAI itself, Groq, or a local Ollama / llama.cpp server.
+ */
+export function createOpenAICompatibleProvider(
+  config: OpenAICompatibleConfig
+): LlmProvider {
+  return {
+    id: config.id,
+
+    isConfigured: () =>
+      !!config.baseUrl() && (!config.requiresApiKey || !!config.apiKey()),
+
+    async chat(model: string, request: ChatRequest): Promise<string> {
+      const baseUrl = config.baseUrl()?.replace(/\/+$/, "");
+      if (!baseUrl) throw new Error(`${config.id} has no base URL configured`);
+
+      const apiKey = config.apiKey();
+      const url = `${baseUrl}/chat/completions`;
+      const init: RequestInit = {
+        method: "POST",
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.1,
+          max_tokens: request.maxTokens ?? 500,
+          ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        }),
+      };
+
+      const response = config.rateLimit
+        ? await rateLimitedFetch(config.rateLimit, url, init)
+        : await fetch(url, init);
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(
+          `${config.id} API error: ${response.status} ${detail.slice(0, 200)}`.trim()
+        );
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
+
+export const openAiProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  baseUrl: () => Deno.env.get("OPENAI_BASE_URL") ?? "https://api.openai.com/v1",
+  apiKey: () => Deno.env.get("OPENAI_API_KEY"),
+  requiresApiKey: true,
+  rateLimit: "openai",
+});
+
+export const groqProvider = createOpenAICompatibleProvider({
+  id: "groq",
+  baseUrl: () => "https://api.groq.com/openai/v1",
+  apiKey: () => Deno.env.get("GROQ_API_KEY"),
+  requiresApiKey: true,
+  rateLimit: "groq",
+});
+
+// e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for
+// llama.cpp's server
+export const localProvider = createOpenAICompatibleProvider({
+  id: "local",
+  baseUrl: () => Deno.env.get("LOCAL_LLM_BASE_URL"),
+  apiKey: () => Deno.env.get("LOCAL_LLM_API_KEY"),
+  requiresApiKey: false,
+});
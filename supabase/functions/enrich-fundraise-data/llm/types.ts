@@ -0,0 +1,61 @@
+export type LlmProviderId = "openai" | "groq" | "local";
+
+/**
+ * The jobs we hand to a model. Each task has its own route, so a cheap model
+ * can do bulk extraction while a stronger one handles lookups.
+ */
+export type LlmTask =
+  | "find_urls"
+  | "extract_funding"
+  | "extract_investors"
+  | "lookup_investors"
+  | "extract_amount"
+  | "research_fallback";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider to constrain the answer to a JSON object
+  json?: boolean;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  // False when the provider is missing credentials or an endpoint
+  isConfigured(): boolean;
+  chat(model: string, request: ChatRequest): Promise<string>;
+}
+
+// One step of a task's fallback chain
+export interface ModelRoute {
+  provider: LlmProviderId;
+  model: string;
+}
+
+export interface LlmCompletion {
+  text: string;
+  provider: LlmProviderId;
+  model: string;
+}
+
+// A structured answer that could not be parsed or failed its schema
+export interface StructuredFailure {
+  task: LlmTask;
+  provider: LlmProviderId;
+  model: string;
+  message: string;
+}
+
+export interface StructuredCompletion<T> {
+  data: T;
+  provider: LlmProviderId;
+  model: string;
+  // Rejected answers from earlier attempts, even when a later one succeeded
+  failures: StructuredFailure[];
+}
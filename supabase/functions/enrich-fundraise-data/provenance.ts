@@ -0,0 +1,82 @@
+// Where each enriched value came from, saved with the row so reviewers can
+// see the evidence behind it.
+
+export type ProvenanceField =
+  | "press_url_1"
+  | "press_url_2"
+  | "press_url_3"
+  | "investor_contacts"
+  | "amount_extracted";
+
+export type FieldProvenance = {
+  source_url: string | null;
+  // Text from the source that supports the value
+  snippet: string | null;
+  // The search provider or LLM task that produced the value
+  extractor: string;
+  provider: string | null;
+  model: string | null;
+  // The snippet was found in the fetched page. A model quote that is not in
+  // the page suggests the value came from the model's memory.
+  verified: boolean;
+  // Trust in the value from 0 to 1, see confidence.ts
+  confidence?: number;
+  // Set when an analyst accepted or entered the value in the review queue
+  reviewed_at?: string | null;
+  at: string;
+};
+
+export type FieldProvenanceMap = Partial<
+  Record<ProvenanceField, FieldProvenance>
+>;
+
+const MAX_SNIPPET_LENGTH = 400;
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const truncate = (text: string) =>
+  text.length > MAX_SNIPPET_LENGTH
+    ? `${text.slice(0, MAX_SNIPPET_LENGTH - 1)}…`
+    : text;
+
+/**
+ * The passage of `content` a model quoted, or null when the quote is not in
+ * it. Whitespace and case are ignored, and so are quotes the model trimmed
+ * with an ellipsis, as long as the first part is found.
+ */
+export function findQuote(
+  content: string,
+  quote: string | null | undefined
+): string | null {
+  const wanted = collapse(quote ?? "")
+    .replace(/^["'“”]+|["'“”]+$/g, "")
+    .split(/\s*(?:\.\.\.|…)\s*/)[0];
+  if (wanted.length < 8) return null;
+
+  const text = collapse(content);
+  const index = text.toLowerCase().indexOf(wanted.toLowerCase());
+  return index === -1
+    ? null
+    : truncate(text.slice(index, index + wanted.length));
+}
+
+/**
+ * Provenance for a value a model extracted from a page, checking the quote
+ * it gave against the page text.
+ */
+export function extractedProvenance(
+  content: string,
+  quote: string | null | undefined,
+  source: { url: string; task: string; provider: string; model: string }
+): FieldProvenance {
+  const found = findQuote(content, quote);
+  return {
+    source_url: source.url,
+    snippet: found ?? (quote ? truncate(collapse(quote)) : null),
+    extractor: source.task,
+    provider: source.provider,
+    model: source.model,
+    verified: found !== null,
+    at: new Date().toISOString(),
+  };
+}
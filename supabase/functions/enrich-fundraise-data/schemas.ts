@@ -0,0 +1,27 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+
+// Shapes every model answer must match before anything is written to a row.
+// Fields the model could not find are "N/A" rather than missing.
+
+export const PressUrlsSchema = z.object({
+  urls: z.array(z.string()),
+});
+
+export const ContactSchema = z.object({
+  name: z.string().min(1),
+  title: z.string().nullish(),
+  firm: z.string().nullish(),
+  round_role: z.enum(["lead", "participant", "unknown"]).default("unknown"),
+  confidence: z.number().min(0).max(1),
+  // The sentence naming the person, copied from the article
+  quote: z.string().nullish(),
+});
+
+export const FundingExtractionSchema = z.object({
+  contacts: z.array(ContactSchema),
+  amount_raised: z.string().min(1),
+  amount_quote: z.string().nullish(),
+});
+
+export type Contact = z.infer<typeof ContactSchema>;
+export type FundingExtraction = z.infer<typeof FundingExtractionSchema>;
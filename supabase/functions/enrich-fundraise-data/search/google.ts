@@ -0,0 +1,72 @@
+import { rateLimitedFetch } from "../../_shared/rate-limit.ts";
+import type { SearchCandidate, SearchProvider, SearchQuery } from "./types.ts";
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+interface GoogleSearchItem {
+  link: string;
+  title?: string;
+  snippet?: string;
+  pagemap?: { metatags?: Record<string, string>[] };
+}
+
+const getPromptForGoogleSearch = (
+  company_name: string,
+  investors?: string
+): string => {
+  const excludeFiles =
+    "-filetype:pdf -filetype:doc -filetype:docx -filetype:xls -filetype:ppt -filetype:txt -filetype:rtf";
+
+  const baseQuery = `"${company_name}" funding round ${
+    investors ? `${investors}` : ""
+  } press release`;
+
+  return `${baseQuery} ${excludeFiles}`.trim();
+};
+
+/**
+ * Google Programmable Search (Custom Search JSON API).
+ */
+export const googleSearchProvider: SearchProvider = {
+  id: "google_cse",
+  trusted: true,
+
+  isConfigured: () =>
+    !!Deno.env.get("GOOGLE_API") && !!Deno.env.get("GOOGLE_CX"),
+
+  async search(query: SearchQuery): Promise<SearchCandidate[]> {
+    const API_KEY = Deno.env.get("GOOGLE_API");
+    const CX = Deno.env.get("GOOGLE_CX");
+
+    const q = getPromptForGoogleSearch(query.companyName, query.investors);
+    const url = `https://www.googleapis.com/customsearch/v1?key=${API_KEY}&cx=${CX}&q=${encodeURIComponent(
+      q
+    )}&num=${Math.min(Math.max(query.count, 1), 10)}`;
+
+    console.log("Google api trying : ", q);
+
+    const response = await rateLimitedFetch("google_cse", url);
+    if (!response.ok) {
+      throw new Error(`Google CSE error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const items: GoogleSearchItem[] = data.items ?? [];
+    query.onQuery?.("google_cse", q, items.length);
+
+    return items
+      .filter((item) => !query.excludeUrls.includes(item.link))
+      .map((item, index) => ({
+        url: item.link,
+        title: item.title,
+        snippet: item.snippet,
+        publishedAt: item.pagemap?.metatags?.[0]?.["article:published_time"],
+        rank: index + 1,
+        provider: "google_cse" as const,
+      }));
+  },
+};
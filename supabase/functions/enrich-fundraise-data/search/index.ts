@@ -0,0 +1,155 @@
+import { googleSearchProvider } from "./google.ts";
+import { llmSearchProvider } from "./llm.ts";
+import { serpApiSearchProvider } from "./serpapi.ts";
+import type {
+  CandidateCheck,
+  SearchCandidate,
+  SearchProvider,
+  SearchProviderId,
+  SearchQuery,
+} from "./types.ts";
+
+export type {
+  CandidateCheck,
+  SearchCandidate,
+  SearchProvider,
+  SearchProviderId,
+  SearchQuery,
+} from "./types.ts";
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const SEARCH_PROVIDERS: Record<SearchProviderId, SearchProvider> = {
+  google_cse: googleSearchProvider,
+  llm: llmSearchProvider,
+  serpapi: serpApiSearchProvider,
+};
+
+const DEFAULT_PROVIDER_ORDER: SearchProviderId[] = [
+  "google_cse",
+  "llm",
+  "serpapi",
+];
+
+// A failing provider is retried a few times before moving on to the next one
+const MAX_SEARCH_ATTEMPTS = 3;
+
+const isProviderId = (value: string): value is SearchProviderId =>
+  value in SEARCH_PROVIDERS;
+
+/**
+ * Providers to query, in order. A job can pass its own list; otherwise the
+ * SEARCH_PROVIDERS env var (e.g. "serpapi,google_cse") is used. Leaving a
+ * provider out of the list disables it.
+ */
+export function resolveSearchProviders(override?: string[]): SearchProvider[] {
+  const configured = Deno.env
+    .get("SEARCH_PROVIDERS")
+    ?.split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const order = override?.length
+    ? override
+    : configured?.length
+      ? configured
+      : DEFAULT_PROVIDER_ORDER;
+
+  return [...new Set(order)]
+    .filter(isProviderId)
+    .map((id) => SEARCH_PROVIDERS[id])
+    .filter((provider) => {
+      if (provider.isConfigured()) return true;
+      console.log(`⚠️ Search provider ${provider.id} is not configured`);
+      return false;
+    });
+}
+
+/**
+ * Walks the providers in order until `query.count` URLs are accepted.
+ * Candidates from untrusted providers must pass `validate` first. Provider
+ * errors are retried and then skipped; `onError` sees each one, and
+ * `onCandidate` each accept or reject decision. Accepted candidates keep the
+ * provider, title and snippet they were found with.
+ */
+export async function findPressUrls(
+  query: Omit<SearchQuery, "excludeUrls">,
+  providers: SearchProvider[],
+  validate: (url: string) => Promise<CandidateCheck>,
+  onError: (error: unknown, provider: SearchProvider) => void = () => {},
+  onCandidate: (
+    candidate: SearchCandidate,
+    check: CandidateCheck
+  ) => void = () => {}
+): Promise<SearchCandidate[]> {
+  const accepted: SearchCandidate[] = [];
+  const rejected = new Set<string>();
+  const isAccepted = (url: string) =>
+    accepted.some((candidate) => candidate.url === url);
+
+  for (const provider of providers) {
+    if (accepted.length >= query.count) break;
+
+    console.log(`\n🔎 Searching with ${provider.id}`);
+    console.log("----------------------------------------");
+
+    for (let attempt = 1; attempt <= MAX_SEARCH_ATTEMPTS; attempt++) {
+      let candidates: SearchCandidate[];
+      try {
+        candidates = await provider.search({
+          ...query,
+          count: (query.count - accepted.length) * 2,
+          excludeUrls: [...accepted.map(({ url }) => url), ...rejected],
+        });
+      } catch (error) {
+        console.error(
+          `${provider.id} attempt ${attempt}/${MAX_SEARCH_ATTEMPTS} failed:`,
+          error
+        );
+        onError(error, provider);
+        continue;
+      }
+
+      console.log(`Found ${candidates.length} candidates from ${provider.id}`);
+
+      for (const candidate of candidates) {
+        if (accepted.length >= query.count) break;
+        if (isAccepted(candidate.url) || rejected.has(candidate.url)) {
+          continue;
+        }
+
+        if (provider.trusted) {
+          accepted.push(candidate);
+          onCandidate(candidate, {
+            valid: true,
+            score: null,
+            reason: "Trusted provider, page not checked",
+          });
+          continue;
+        }
+
+        console.log(`\nChecking URL: ${candidate.url}`);
+        const check = await validate(candidate.url);
+        onCandidate(candidate, check);
+        if (check.valid) {
+          console.log("✅ URL is valid and relevant");
+          accepted.push(candidate);
+        } else {
+          console.log("❌ URL is invalid or irrelevant");
+          rejected.add(candidate.url);
+        }
+      }
+      break;
+    }
+
+    console.log(
+      `\n${provider.id} summary: ${accepted.length}/${query.count} URLs so far`
+    );
+  }
+
+  return accepted;
+}
@@ -0,0 +1,69 @@
+import { completeStructured, hasLlmRoute } from "../llm/index.ts";
+import { PressUrlsSchema } from "../schemas.ts";
+import type { SearchCandidate, SearchProvider, SearchQuery } from "./types.ts";
+
+/**
+ * Asks a language model to recall press release URLs. Models often guess, so
+ * the answers are never trusted without checking the page.
+ */
+export const llmSearchProvider: SearchProvider = {
+  id: "llm",
+  trusted: false,
+
+  isConfigured: () => hasLlmRoute("find_urls"),
+
+  async search(query: SearchQuery): Promise<SearchCandidate[]> {
+    const prompt = `Find press release URLs for ${
+      query.companyName
+    }'s funding round.
+
+Company: ${query.companyName}
+Date: ${query.dateRaised || "Recent"}
+Known Investors: ${query.investors || "Unknown"}
+
+Task:
+Find ${query.count} most relevant press release URLs about this funding round.
+- Focus on official press releases and major news sites
+- Ensure URLs are specific to this company and this funding round
+- Prioritize: businesswire.com, prnewswire.com, globenewswire.com, techcrunch.com, reuters.com
+
+Return in JSON format:
+{
+  "urls": ["url1", "url2", "url3"]
+}`;
+
+    const { data, provider, model } = await completeStructured(
+      "find_urls",
+      PressUrlsSchema,
+      {
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an expert in finding accurate press releases about startup funding rounds.",
+          },
+          {
+            role: "user",
+            content: prompt,
+          },
+        ],
+        temperature: 0.1,
+        maxTokens: 500,
+      }
+    );
+    query.onQuery?.(
+      "llm",
+      `Press release URLs recalled by ${provider}/${model}`,
+      data.urls.length
+    );
+
+    return data.urls
+      .filter((url) => url.startsWith("http"))
+      .filter((url) => !query.excludeUrls.includes(url))
+      .map((url, index) => ({
+        url,
+        rank: index + 1,
+        provider: "llm" as const,
+      }));
+  },
+};
@@ -0,0 +1,84 @@
+import { rateLimitedFetch } from "../../_shared/rate-limit.ts";
+import type { SearchCandidate, SearchProvider, SearchQuery } from "./types.ts";
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+interface SerpOrganicResult {
+  link: string;
+  title?: string;
+  snippet?: string;
+  date?: string;
+}
+
+/**
+ * SerpAPI Google results. Focuses on press releases and tech news sites.
+ */
+export const serpApiSearchProvider: SearchProvider = {
+  id: "serpapi",
+  trusted: false,
+
+  isConfigured: () => !!Deno.env.get("SERP_API_KEY"),
+
+  async search(query: SearchQuery): Promise<SearchCandidate[]> {
+    const serpApiKey = Deno.env.get("SERP_API_KEY");
+    if (!serpApiKey) {
+      throw new Error("SERP_API_KEY not configured");
+    }
+
+    // Try different search queries for better results
+    const searchQueries = [
+      `"${query.companyName}" funding press release ${query.dateRaised} site:businesswire.com OR site:prnewswire.com OR site:globenewswire.com`,
+      `"${query.companyName}" raises funding ${query.dateRaised}`,
+      `"${query.companyName}" investment announcement ${query.dateRaised} site:techcrunch.com OR site:reuters.com`,
+    ];
+
+    for (const q of searchQueries) {
+      console.log(`Trying SERP query: "${q}"`);
+
+      const response = await rateLimitedFetch(
+        "serpapi",
+        `https://serpapi.com/search.json?` +
+          new URLSearchParams({
+            q,
+            api_key: serpApiKey,
+            hl: "en",
+            gl: "us",
+            num: query.count.toString(),
+          })
+      );
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw new Error("SERP API rate limit reached");
+        }
+        throw new Error(`SERP API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const results: SerpOrganicResult[] = data.organic_results || [];
+      query.onQuery?.("serpapi", q, results.length);
+
+      // Filter out existing URLs
+      const candidates = results
+        .filter((result) => !query.excludeUrls.includes(result.link))
+        .map((result, index) => ({
+          url: result.link,
+          title: result.title,
+          snippet: result.snippet,
+          publishedAt: result.date,
+          rank: index + 1,
+          provider: "serpapi" as const,
+        }));
+
+      if (candidates.length > 0) {
+        return candidates;
+      }
+    }
+
+    return [];
+  },
+};
@@ -0,0 +1,48 @@
+export type SearchProviderId = "google_cse" | "llm" | "serpapi";
+
+export interface SearchQuery {
+  companyName: string;
+  investors?: string;
+  dateRaised?: string;
+  // How many candidates the caller would like back
+  count: number;
+  // URLs already accepted for this row; providers should not return them
+  excludeUrls: string[];
+  // Told about each query sent and how many results it returned
+  onQuery?: (
+    provider: SearchProviderId,
+    query: string,
+    results: number
+  ) => void;
+}
+
+export interface SearchCandidate {
+  url: string;
+  title?: string;
+  snippet?: string;
+  publishedAt?: string;
+  // 1-based position in the provider's own ranking
+  rank: number;
+  provider: SearchProviderId;
+}
+
+// Whether a candidate page is about the round, and why not
+export interface CandidateCheck {
+  valid: boolean;
+  // Relevance score from checking the page; null when it was not checked
+  score: number | null;
+  reason: string | null;
+}
+
+/**
+ * A source of press-release candidates. Providers only find URLs; checking
+ * that a page is really about the round is left to the orchestrator.
+ */
+export interface SearchProvider {
+  id: SearchProviderId;
+  // Results are taken as-is instead of being fetched and checked first
+  trusted: boolean;
+  // False when the provider is missing credentials
+  isConfigured(): boolean;
+  search(query: SearchQuery): Promise<SearchCandidate[]>;
+}
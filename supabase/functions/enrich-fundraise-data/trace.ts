@@ -0,0 +1,196 @@
+import type {
+  LlmProviderId,
+  LlmTask,
+  StructuredCompletion,
+  StructuredFailure,
+} from "./llm/index.ts";
+import type {
+  CandidateCheck,
+  SearchCandidate,
+  SearchProviderId,
+} from "./search/index.ts";
+
+export type TraceStepStatus = "ok" | "skipped" | "failed";
+
+// One stage of a run, e.g. searching or extracting
+export interface TraceStep {
+  name: string;
+  status: TraceStepStatus;
+  detail: string | null;
+  started_at: string;
+  finished_at: string;
+}
+
+// A query a search provider sent, and how many results came back
+export interface TraceQuery {
+  provider: SearchProviderId;
+  query: string;
+  results: number;
+  at: string;
+}
+
+// A URL a provider suggested, and whether it was kept
+export interface TraceCandidate {
+  url: string;
+  provider: SearchProviderId;
+  rank: number;
+  title: string | null;
+  accepted: boolean;
+  score: number | null;
+  reason: string | null;
+}
+
+// One model answer: used, valid but unhelpful, or rejected
+export type TraceModelOutcome = "accepted" | "unaccepted" | "failed";
+
+export interface TraceModelCall {
+  task: LlmTask;
+  provider: LlmProviderId;
+  model: string;
+  outcome: TraceModelOutcome;
+  message: string | null;
+  // The page the model was reading, when there was one
+  url: string | null;
+  at: string;
+}
+
+/**
+ * What a run did for one row, saved in fundraise_data.enrichment_trace so a
+ * value that ended up "N/A" can be explained.
+ */
+export interface EnrichmentTrace {
+  stages: string[];
+  started_at: string;
+  finished_at: string | null;
+  steps: TraceStep[];
+  queries: TraceQuery[];
+  candidates: TraceCandidate[];
+  model_calls: TraceModelCall[];
+}
+
+export const createTrace = (stages: string[]): EnrichmentTrace => ({
+  stages,
+  started_at: new Date().toISOString(),
+  finished_at: null,
+  steps: [],
+  queries: [],
+  candidates: [],
+  model_calls: [],
+});
+
+/**
+ * Runs one stage of the run and records it, with `describe` summarising the
+ * result. A stage that throws is recorded as failed and the error rethrown.
+ */
+export async function traceStep<T>(
+  trace: EnrichmentTrace,
+  name: string,
+  run: () => Promise<T>,
+  describe: (result: T) => string | null = () => null
+): Promise<T> {
+  const started_at = new Date().toISOString();
+  try {
+    const result = await run();
+    trace.steps.push({
+      name,
+      status: "ok",
+      detail: describe(result),
+      started_at,
+      finished_at: new Date().toISOString(),
+    });
+    return result;
+  } catch (error) {
+    trace.steps.push({
+      name,
+      status: "failed",
+      detail: error instanceof Error ? error.message : String(error),
+      started_at,
+      finished_at: new Date().toISOString(),
+    });
+    throw error;
+  }
+}
+
+// Records a stage that did not need timing, such as one that was skipped
+export const recordStep = (
+  trace: EnrichmentTrace,
+  name: string,
+  status: TraceStepStatus,
+  detail: string | null
+) => {
+  const at = new Date().toISOString();
+  trace.steps.push({
+    name,
+    status,
+    detail,
+    started_at: at,
+    finished_at: at,
+  });
+};
+
+export const traceQuery = (
+  trace: EnrichmentTrace,
+  provider: SearchProviderId,
+  query: string,
+  results: number
+) => {
+  trace.queries.push({
+    provider,
+    query,
+    results,
+    at: new Date().toISOString(),
+  });
+};
+
+export const traceCandidate = (
+  trace: EnrichmentTrace,
+  candidate: SearchCandidate,
+  check: CandidateCheck
+) => {
+  trace.candidates.push({
+    url: candidate.url,
+    provider: candidate.provider,
+    rank: candidate.rank,
+    title: candidate.title ?? null,
+    accepted: check.valid,
+    score: check.score,
+    reason: check.reason,
+  });
+};
+
+/**
+ * Records the model answers behind a structured completion: the rejected
+ * ones first, then the answer that was returned. Pass the failures alone
+ * when no model produced a valid answer.
+ */
+export const traceModelCalls = (
+  trace: EnrichmentTrace,
+  task: LlmTask,
+  result: StructuredCompletion<unknown> | { failures: StructuredFailure[] },
+  url: string | null,
+  accepted = true
+) => {
+  const at = new Date().toISOString();
+  for (const failure of result.failures) {
+    trace.model_calls.push({
+      task: failure.task,
+      provider: failure.provider,
+      model: failure.model,
+      outcome: "failed",
+      message: failure.message,
+      url,
+      at,
+    });
+  }
+  if ("data" in result) {
+    trace.model_calls.push({
+      task,
+      provider: result.provider,
+      model: result.model,
+      outcome: accepted ? "accepted" : "unaccepted",
+      message: accepted ? null : "Valid answer, but nothing usable was found",
+      url,
+      at,
+    });
+  }
+};
@@ -0,0 +1,237 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { invokeFunction, supabaseAdmin } from "../_shared/supabase.ts";
+
+type JobAction = "start" | "pause" | "resume" | "cancel";
+
+type EnrichmentStage = "search" | "extract";
+
+type SearchProviderId = "google_cse" | "llm" | "serpapi";
+
+interface EnrichmentOptions {
+  stages?: EnrichmentStage[];
+  concurrency?: number;
+  searchProviders?: SearchProviderId[];
+  overwriteEdits?: boolean;
+}
+
+interface JobRequest {
+  action: JobAction;
+  job_id?: string;
+  project_id?: string;
+  row_ids?: string[];
+  options?: EnrichmentOptions;
+}
+
+const ALL_STAGES: EnrichmentStage[] = ["search", "extract"];
+const SEARCH_PROVIDER_IDS: SearchProviderId[] = [
+  "google_cse",
+  "llm",
+  "serpapi",
+];
+
+const ACTIVE_STATUSES = ["queued", "running"];
+const OPEN_STATUSES = [...ACTIVE_STATUSES, "paused"];
+const ID_CHUNK_SIZE = 200;
+// Postgres error code for a broken unique index
+const UNIQUE_VIOLATION = "23505";
+const PAGE_SIZE = 1000;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body: JobRequest = await req.json();
+
+    if (body.action !== "start" && !body.job_id) {
+      return jsonResponse({ error: "job_id is required" }, 400);
+    }
+    if (body.action === "start" && !body.project_id) {
+      return jsonResponse({ error: "project_id is required" }, 400);
+    }
+
+    switch (body.action) {
+      case "start":
+        return await startJob(body.project_id, body.row_ids, body.options);
+      case "pause":
+        return await stopJob("pause_enrichment_job", body.job_id);
+      case "resume":
+        return await resumeJob(body.job_id);
+      case "cancel":
+        return await stopJob("cancel_enrichment_job", body.job_id);
+      default:
+        return jsonResponse({ error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    console.error("💥 Error in enrichment-jobs function:", error);
+    return jsonResponse(
+      { error: error.message || "Unknown error occurred" },
+      500
+    );
+  }
+});
+
+/**
+ * Queues the given rows (or every pending row) of a project as a new job and
+ * wakes a worker. Explicitly chosen rows are reset to pending, which is how
+ * failed and completed rows get enriched again. The job and its items are
+ * created in one transaction. Each project runs at most one job at a time,
+ * which a unique index enforces; jobs of different projects share the
+ * provider limits.
+ */
+async function startJob(
+  projectId: string,
+  rowIds?: string[],
+  options: EnrichmentOptions = {}
+): Promise<Response> {
+  const stages = (options.stages ?? ALL_STAGES).filter((stage) =>
+    ALL_STAGES.includes(stage)
+  );
+  if (stages.length === 0) {
+    return jsonResponse({ error: "At least one stage is required" }, 400);
+  }
+
+  if (options.searchProviders) {
+    const unknown = options.searchProviders.filter(
+      (id) => !SEARCH_PROVIDER_IDS.includes(id)
+    );
+    if (unknown.length > 0) {
+      return jsonResponse(
+        { error: `Unknown search providers: ${unknown.join(", ")}` },
+        400
+      );
+    }
+    if (stages.includes("search") && options.searchProviders.length === 0) {
+      return jsonResponse(
+        { error: "At least one search provider is required" },
+        400
+      );
+    }
+  }
+
+  const { data: activeJob } = await supabaseAdmin
+    .from("enrichment_jobs")
+    .select("id")
+    .eq("project_id", projectId)
+    .in("status", OPEN_STATUSES)
+    .limit(1)
+    .maybeSingle();
+
+  if (activeJob) {
+    return jsonResponse(
+      {
+        error: "An enrichment job is already running for this project",
+        job_id: activeJob.id,
+      },
+      409
+    );
+  }
+
+  const fundraiseIds = await findRowsToEnrich(projectId, rowIds);
+  if (fundraiseIds.length === 0) {
+    return jsonResponse({ error: "No rows to enrich" }, 400);
+  }
+
+  const { data: job, error: jobError } = await supabaseAdmin.rpc(
+    "start_enrichment_job",
+    {
+      p_project_id: projectId,
+      p_fundraise_ids: fundraiseIds,
+      p_options: { ...options, stages },
+      p_reset: !!rowIds?.length,
+    }
+  );
+
+  // A start racing this one got its job in first
+  if (jobError?.code === UNIQUE_VIOLATION) {
+    return jsonResponse(
+      { error: "An enrichment job is already running for this project" },
+      409
+    );
+  }
+  if (jobError) throw new Error(`Failed to create job: ${jobError.message}`);
+
+  console.log(`🚀 Queued job ${job.id} with ${fundraiseIds.length} rows`);
+  await invokeFunction("enrichment-worker", { job_id: job.id });
+
+  return jsonResponse(job, 201);
+}
+
+/**
+ * Pauses or cancels a job. Both run as database functions so resetting the
+ * interrupted rows happens atomically with the status change.
+ */
+async function stopJob(
+  fn: "pause_enrichment_job" | "cancel_enrichment_job",
+  jobId: string
+): Promise<Response> {
+  const { data: job, error } = await supabaseAdmin.rpc(fn, {
+    p_job_id: jobId,
+  });
+
+  if (error) return jsonResponse({ error: error.message }, 409);
+
+  console.log(`⏸️ ${fn} applied to job ${jobId}`);
+  return jsonResponse(job);
+}
+
+/**
+ * Continues a paused job, or starts a new worker for a job whose previous
+ * worker died mid-run. The job gets a new run number, so lanes of an earlier
+ * worker stop claiming rows instead of running next to the new one.
+ */
+async function resumeJob(jobId: string): Promise<Response> {
+  const { data: job, error } = await supabaseAdmin.rpc(
+    "resume_enrichment_job",
+    { p_job_id: jobId }
+  );
+
+  if (error) return jsonResponse({ error: error.message }, 409);
+
+  console.log(`▶️ Resuming job ${jobId} as run ${job.run}`);
+  await invokeFunction("enrichment-worker", { job_id: jobId });
+
+  return jsonResponse(job);
+}
+
+// Chosen rows that belong to another project are left out
+async function findRowsToEnrich(
+  projectId: string,
+  rowIds?: string[]
+): Promise<string[]> {
+  if (!rowIds?.length) {
+    const ids: string[] = [];
+
+    // PostgREST caps each response, so pending rows are read page by page
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from("fundraise_data")
+        .select("id")
+        .eq("project_id", projectId)
+        .eq("status", "pending")
+        .order("created_at", { ascending: true })
+        .order("source_row", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load rows: ${error.message}`);
+      ids.push(...data.map((row: { id: string }) => row.id));
+      if (data.length < PAGE_SIZE) return ids;
+    }
+  }
+
+  const ids: string[] = [];
+  for (let i = 0; i < rowIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from("fundraise_data")
+      .select("id")
+      .eq("project_id", projectId)
+      .in("id", rowIds.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) throw new Error(`Failed to load rows: ${error.message}`);
+    ids.push(...data.map((row: { id: string }) => row.id));
+  }
+
+  return ids;
+}
@@ -0,0 +1,286 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { invokeFunction, supabaseAdmin } from "../_shared/supabase.ts";
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+interface EnrichmentJobItem {
+  id: string;
+  job_id: string;
+  fundraise_id: string;
+  status: "queued" | "processing" | "completed" | "error" | "skipped";
+  attempts: number;
+}
+
+interface EnrichmentJob {
+  id: string;
+  status:
+    "queued" | "running" | "paused" | "cancelled" | "completed" | "failed";
+  // Bumped by every pause and resume
+  run: number;
+  options: Record<string, unknown>;
+}
+
+const MAX_ATTEMPTS = 3;
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+
+// Every row must be done well before the edge function wall-clock limit;
+// the rest of the queue is handed to a fresh invocation.
+const TIME_BUDGET_MS = 135_000;
+
+// The longest the worker waits for one row. Rows are only claimed while
+// there is this much budget left. The enrich function gets the same deadline:
+// it stops itself before it, and drops a result that comes in after it, since
+// the row has been requeued by then.
+const ROW_TIMEOUT_MS = 75_000;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { job_id: jobId } = await req.json();
+    if (!jobId) {
+      return jsonResponse({ error: "job_id is required" }, 400);
+    }
+
+    // Respond right away; the queue is drained in the background.
+    EdgeRuntime.waitUntil(drainJob(jobId));
+
+    return jsonResponse({ job_id: jobId, accepted: true }, 202);
+  } catch (error) {
+    console.error("💥 Error in enrichment-worker function:", error);
+    return jsonResponse(
+      { error: error.message || "Unknown error occurred" },
+      500
+    );
+  }
+});
+
+async function drainJob(jobId: string): Promise<void> {
+  const startedAt = Date.now();
+
+  try {
+    const job = await loadJob(jobId);
+    if (!job || (job.status !== "queued" && job.status !== "running")) {
+      console.log(
+        `⏹️ Job ${jobId} is ${job?.status ?? "missing"}, nothing to do`
+      );
+      return;
+    }
+
+    if (job.status === "queued") {
+      await updateJob(jobId, {
+        status: "running",
+        started_at: new Date().toISOString(),
+      });
+    }
+
+    const concurrency = clampConcurrency(job.options.concurrency);
+    let queueEmpty = false;
+    let stopped = false;
+
+    // Each lane claims one row at a time, so a pause or cancel takes effect
+    // as soon as the rows already in flight finish. Claims are tied to the
+    // run this worker started in; after a pause nothing more is handed out,
+    // even once the job is resumed under a new run.
+    const isOurs = (current: EnrichmentJob) =>
+      current.status === "running" && current.run === job.run;
+
+    const lane = async () => {
+      while (
+        !stopped &&
+        Date.now() - startedAt + ROW_TIMEOUT_MS <= TIME_BUDGET_MS
+      ) {
+        const [item] = await claimItems(jobId, job.run);
+        // Drained, or the run is no longer ours
+        if (!item) {
+          queueEmpty = true;
+          return;
+        }
+
+        await processItem(item, job.options);
+
+        const refreshed = await refreshJob(jobId);
+        if (!isOurs(refreshed)) stopped = true;
+      }
+    };
+
+    console.log(`🏁 Draining job ${jobId} with ${concurrency} parallel rows`);
+    await Promise.all(Array.from({ length: concurrency }, lane));
+    if (stopped) return;
+
+    const refreshed = await refreshJob(jobId);
+    if (!queueEmpty && isOurs(refreshed)) {
+      console.log(
+        `🔁 Time budget used, continuing job ${jobId} in a new worker`
+      );
+      await invokeFunction("enrichment-worker", { job_id: jobId });
+    }
+  } catch (error) {
+    console.error(`💥 Worker for job ${jobId} stopped:`, error);
+    await updateJob(jobId, {
+      last_error: error instanceof Error ? error.message : String(error),
+    }).catch(() => undefined);
+  }
+}
+
+function clampConcurrency(value: unknown): number {
+  const concurrency = Math.floor(Number(value));
+  if (!Number.isFinite(concurrency) || concurrency < 1) {
+    return DEFAULT_CONCURRENCY;
+  }
+  return Math.min(concurrency, MAX_CONCURRENCY);
+}
+
+async function processItem(
+  item: EnrichmentJobItem,
+  options: EnrichmentJob["options"]
+): Promise<void> {
+  if (item.attempts > MAX_ATTEMPTS) {
+    await finishItem(item, "error", `Gave up after ${MAX_ATTEMPTS} attempts`);
+    return;
+  }
+
+  try {
+    const { data: record, error } = await supabaseAdmin
+      .from("fundraise_data")
+      .select("*")
+      .eq("id", item.fundraise_id)
+      .single();
+
+    if (error) throw new Error(`Row not found: ${error.message}`);
+
+    console.log(
+      `📋 Job ${item.job_id}: enriching ${record.company_name} (attempt ${item.attempts}/${MAX_ATTEMPTS})`
+    );
+    await invokeFunction(
+      "enrich-fundraise-data",
+      { record, options, deadline: Date.now() + ROW_TIMEOUT_MS },
+      AbortSignal.timeout(ROW_TIMEOUT_MS)
+    );
+    await finishItem(item, "completed");
+  } catch (error) {
+    const timedOut =
+      error instanceof DOMException && error.name === "TimeoutError";
+    const message = timedOut
+      ? `Timed out after ${Math.round(ROW_TIMEOUT_MS / 1000)} s`
+      : error instanceof Error
+        ? error.message
+        : String(error);
+    console.error(`❌ Item ${item.id} failed:`, message);
+
+    if (item.attempts < MAX_ATTEMPTS) {
+      await requeueItem(item, message);
+    } else {
+      await finishItem(item, "error", message);
+      // A run that timed out never got to mark its row as failed
+      if (timedOut) {
+        await supabaseAdmin
+          .from("fundraise_data")
+          .update({ status: "error" })
+          .eq("id", item.fundraise_id)
+          .eq("status", "processing");
+      }
+    }
+  }
+}
+
+async function loadJob(jobId: string): Promise<EnrichmentJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from("enrichment_jobs")
+    .select("id, status, run, options")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load job: ${error.message}`);
+  return data;
+}
+
+async function updateJob(
+  jobId: string,
+  changes: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("enrichment_jobs")
+    .update(changes)
+    .eq("id", jobId);
+
+  if (error) throw new Error(`Failed to update job: ${error.message}`);
+}
+
+async function refreshJob(jobId: string): Promise<EnrichmentJob> {
+  const { data, error } = await supabaseAdmin.rpc("refresh_enrichment_job", {
+    p_job_id: jobId,
+  });
+
+  if (error) throw new Error(`Failed to refresh job: ${error.message}`);
+  return data;
+}
+
+async function claimItems(
+  jobId: string,
+  run: number
+): Promise<EnrichmentJobItem[]> {
+  const { data, error } = await supabaseAdmin.rpc("claim_enrichment_items", {
+    p_job_id: jobId,
+    p_run: run,
+    p_limit: 1,
+  });
+
+  if (error) throw new Error(`Failed to claim items: ${error.message}`);
+  return data ?? [];
+}
+
+/**
+ * Records the outcome of an item. A successful enrichment is always recorded,
+ * even if the job was paused or cancelled meanwhile, so the row is not sent
+ * to the APIs again. Failures only count while the item is still ours; a
+ * cancel has already marked it as skipped.
+ */
+async function finishItem(
+  item: EnrichmentJobItem,
+  status: "completed" | "error",
+  lastError: string | null = null
+): Promise<void> {
+  let query = supabaseAdmin
+    .from("enrichment_job_items")
+    .update({
+      status,
+      last_error: lastError,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", item.id);
+
+  if (status === "error") query = query.eq("status", "processing");
+
+  const { error } = await query;
+  if (error) throw new Error(`Failed to update item: ${error.message}`);
+}
+
+/**
+ * Puts a failed row back in the queue so a later claim retries it.
+ */
+async function requeueItem(
+  item: EnrichmentJobItem,
+  lastError: string
+): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from("enrichment_job_items")
+    .update({ status: "queued", last_error: lastError })
+    .eq("id", item.id)
+    .eq("status", "processing")
+    .select("id");
+
+  if (error) throw new Error(`Failed to requeue item: ${error.message}`);
+  if (!data?.length) return;
+
+  await supabaseAdmin
+    .from("fundraise_data")
+    .update({ status: "pending" })
+    .eq("id", item.fundraise_id);
+}
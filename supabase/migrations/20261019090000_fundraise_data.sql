@@ -0,0 +1,44 @@
+-- Uploaded fundraise rounds and their enrichment results.
+create table if not exists public.fundraise_data (
+  id uuid primary key default gen_random_uuid(),
+  company_name text not null,
+  date_raised text not null,
+  amount_raised text not null,
+  investors text not null,
+  press_url_1 text,
+  press_url_2 text,
+  press_url_3 text,
+  investor_contacts text,
+  status text default 'pending',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Keeps rows in the order they appeared in the uploaded file.
+alter table public.fundraise_data
+  add column if not exists source_row integer;
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists fundraise_data_set_updated_at on public.fundraise_data;
+create trigger fundraise_data_set_updated_at
+  before update on public.fundraise_data
+  for each row execute function public.set_updated_at();
+
+alter table public.fundraise_data enable row level security;
+
+-- The app has no sign-in yet, so the whole team shares one dataset.
+drop policy if exists "Public access to fundraise data" on public.fundraise_data;
+create policy "Public access to fundraise data"
+  on public.fundraise_data
+  for all
+  using (true)
+  with check (true);
@@ -0,0 +1,142 @@
+-- Server-side enrichment runs. A job owns one queue item per fundraise row and
+-- is drained by the enrichment-worker function, so runs survive closed tabs.
+create table if not exists public.enrichment_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'failed')),
+  total_items integer not null default 0,
+  completed_items integer not null default 0,
+  failed_items integer not null default 0,
+  last_error text,
+  heartbeat_at timestamptz,
+  started_at timestamptz,
+  finished_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.enrichment_job_items (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.enrichment_jobs (id) on delete cascade,
+  fundraise_id uuid not null references public.fundraise_data (id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'processing', 'completed', 'error')),
+  attempts integer not null default 0,
+  last_error text,
+  started_at timestamptz,
+  finished_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists enrichment_job_items_job_status_idx
+  on public.enrichment_job_items (job_id, status);
+
+drop trigger if exists enrichment_jobs_set_updated_at on public.enrichment_jobs;
+create trigger enrichment_jobs_set_updated_at
+  before update on public.enrichment_jobs
+  for each row execute function public.set_updated_at();
+
+-- Hands out the next queued items to a worker. Items left in 'processing' by a
+-- worker that died are reclaimed once they are older than p_stale_after.
+create or replace function public.claim_enrichment_items(
+  p_job_id uuid,
+  p_limit integer default 1,
+  p_stale_after interval default interval '10 minutes'
+)
+returns setof public.enrichment_job_items
+language plpgsql
+as $$
+begin
+  return query
+  update public.enrichment_job_items as item
+  set status = 'processing',
+      attempts = item.attempts + 1,
+      started_at = now()
+  where item.id in (
+    select candidate.id
+    from public.enrichment_job_items as candidate
+    where candidate.job_id = p_job_id
+      and (
+        candidate.status = 'queued'
+        or (candidate.status = 'processing' and candidate.started_at < now() - p_stale_after)
+      )
+    order by candidate.created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning item.*;
+end;
+$$;
+
+-- Recomputes job counters from its items and closes the job once drained.
+create or replace function public.refresh_enrichment_job(p_job_id uuid)
+returns public.enrichment_jobs
+language plpgsql
+as $$
+declare
+  job public.enrichment_jobs;
+begin
+  update public.enrichment_jobs as j
+  set completed_items = counts.completed,
+      failed_items = counts.failed,
+      heartbeat_at = now(),
+      status = case
+        when counts.open = 0 and j.status in ('queued', 'running') then 'completed'
+        else j.status
+      end,
+      finished_at = case
+        when counts.open = 0 and j.finished_at is null then now()
+        else j.finished_at
+      end
+  from (
+    select
+      count(*) filter (where status = 'completed') as completed,
+      count(*) filter (where status = 'error') as failed,
+      count(*) filter (where status in ('queued', 'processing')) as open
+    from public.enrichment_job_items
+    where job_id = p_job_id
+  ) as counts
+  where j.id = p_job_id
+  returning j.* into job;
+
+  return job;
+end;
+$$;
+
+alter table public.enrichment_jobs enable row level security;
+alter table public.enrichment_job_items enable row level security;
+
+-- Jobs are created and advanced by edge functions; the browser only reads them.
+drop policy if exists "Public read access to enrichment jobs" on public.enrichment_jobs;
+create policy "Public read access to enrichment jobs"
+  on public.enrichment_jobs
+  for select
+  using (true);
+
+drop policy if exists "Public read access to enrichment job items" on public.enrichment_job_items;
+create policy "Public read access to enrichment job items"
+  on public.enrichment_job_items
+  for select
+  using (true);
+
+-- Guarded, since adding a table twice fails
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'enrichment_jobs'
+  ) then
+    alter publication supabase_realtime add table public.enrichment_jobs;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'fundraise_data'
+  ) then
+    alter publication supabase_realtime add table public.fundraise_data;
+  end if;
+end $$;
@@ -0,0 +1,179 @@
+-- Lets analysts pause, resume and cancel a run. Cancelled runs keep their
+-- undispatched rows as 'skipped' items so the UI can list them.
+alter table public.enrichment_jobs
+  drop constraint if exists enrichment_jobs_status_check;
+alter table public.enrichment_jobs
+  add constraint enrichment_jobs_status_check
+  check (status in ('queued', 'running', 'paused', 'cancelled', 'completed', 'failed'));
+
+alter table public.enrichment_jobs
+  add column if not exists skipped_items integer not null default 0;
+
+-- Bumped on every pause and resume. A worker claims rows for the run it
+-- started in, so lanes left over from before a pause stop claiming even if
+-- the job was resumed meanwhile.
+alter table public.enrichment_jobs
+  add column if not exists run integer not null default 0;
+
+alter table public.enrichment_job_items
+  drop constraint if exists enrichment_job_items_status_check;
+alter table public.enrichment_job_items
+  add constraint enrichment_job_items_status_check
+  check (status in ('queued', 'processing', 'completed', 'error', 'skipped'));
+
+create or replace function public.refresh_enrichment_job(p_job_id uuid)
+returns public.enrichment_jobs
+language plpgsql
+as $$
+declare
+  job public.enrichment_jobs;
+begin
+  update public.enrichment_jobs as j
+  set completed_items = counts.completed,
+      failed_items = counts.failed,
+      skipped_items = counts.skipped,
+      heartbeat_at = now(),
+      status = case
+        when counts.open = 0 and j.status in ('queued', 'running') then 'completed'
+        else j.status
+      end,
+      finished_at = case
+        when counts.open = 0 and j.finished_at is null then now()
+        else j.finished_at
+      end
+  from (
+    select
+      count(*) filter (where status = 'completed') as completed,
+      count(*) filter (where status = 'error') as failed,
+      count(*) filter (where status = 'skipped') as skipped,
+      count(*) filter (where status in ('queued', 'processing')) as open
+    from public.enrichment_job_items
+    where job_id = p_job_id
+  ) as counts
+  where j.id = p_job_id
+  returning j.* into job;
+
+  return job;
+end;
+$$;
+
+-- Hands out the next queued items to a worker of the given run, and nothing
+-- once the job is no longer running that run. Items left in 'processing' by
+-- a worker that died are reclaimed once they are older than p_stale_after.
+drop function if exists public.claim_enrichment_items(uuid, integer, interval);
+create or replace function public.claim_enrichment_items(
+  p_job_id uuid,
+  p_run integer,
+  p_limit integer default 1,
+  p_stale_after interval default interval '10 minutes'
+)
+returns setof public.enrichment_job_items
+language plpgsql
+as $$
+begin
+  -- Locked so a pause cannot slip in between this check and the claim
+  perform 1
+  from public.enrichment_jobs
+  where id = p_job_id and status = 'running' and run = p_run
+  for share;
+  if not found then
+    return;
+  end if;
+
+  return query
+  update public.enrichment_job_items as item
+  set status = 'processing',
+      attempts = item.attempts + 1,
+      started_at = now()
+  where item.id in (
+    select candidate.id
+    from public.enrichment_job_items as candidate
+    where candidate.job_id = p_job_id
+      and (
+        candidate.status = 'queued'
+        or (candidate.status = 'processing' and candidate.started_at < now() - p_stale_after)
+      )
+    order by candidate.created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning item.*;
+end;
+$$;
+
+-- Stops dispatching. Rows already in flight are finished by the worker that
+-- claimed them, so a resumed run does not enrich them a second time.
+create or replace function public.pause_enrichment_job(p_job_id uuid)
+returns public.enrichment_jobs
+language plpgsql
+as $$
+declare
+  job public.enrichment_jobs;
+begin
+  update public.enrichment_jobs
+  set status = 'paused', run = run + 1
+  where id = p_job_id and status in ('queued', 'running')
+  returning * into job;
+
+  if job.id is null then
+    raise exception 'Only queued or running jobs can be paused';
+  end if;
+
+  return public.refresh_enrichment_job(p_job_id);
+end;
+$$;
+
+-- Continues a paused job under a new run. Open jobs get a new run as well,
+-- so the worker started for it is the only one claiming rows.
+create or replace function public.resume_enrichment_job(p_job_id uuid)
+returns public.enrichment_jobs
+language plpgsql
+as $$
+declare
+  job public.enrichment_jobs;
+begin
+  update public.enrichment_jobs
+  set status = case when status = 'paused' then 'running' else status end,
+      run = run + 1
+  where id = p_job_id and status in ('queued', 'running', 'paused')
+  returning * into job;
+
+  if job.id is null then
+    raise exception 'Only queued, running or paused jobs can be resumed';
+  end if;
+
+  return job;
+end;
+$$;
+
+-- Stops the run for good. Rows that never finished are marked as skipped and
+-- left retryable ('pending') on the fundraise_data side.
+create or replace function public.cancel_enrichment_job(p_job_id uuid)
+returns public.enrichment_jobs
+language plpgsql
+as $$
+declare
+  job public.enrichment_jobs;
+begin
+  update public.enrichment_jobs
+  set status = 'cancelled', finished_at = now()
+  where id = p_job_id and status in ('queued', 'running', 'paused')
+  returning * into job;
+
+  if job.id is null then
+    raise exception 'Only queued, running or paused jobs can be cancelled';
+  end if;
+
+  with skipped as (
+    update public.enrichment_job_items
+    set status = 'skipped', finished_at = now()
+    where job_id = p_job_id and status in ('queued', 'processing')
+    returning fundraise_id
+  )
+  update public.fundraise_data
+  set status = 'pending'
+  where id in (select fundraise_id from skipped) and status = 'processing';
+
+  return public.refresh_enrichment_job(p_job_id);
+end;
+$$;
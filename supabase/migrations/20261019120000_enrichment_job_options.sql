@@ -0,0 +1,3 @@
+-- Per-run options, e.g. {"stages": ["extract"]} to re-run extraction only.
+alter table public.enrichment_jobs
+  add column if not exists options jsonb not null default '{}'::jsonb;
@@ -0,0 +1,121 @@
+-- Token buckets shared by every enrichment invocation, so parallel workers
+-- stay inside each provider's quota. Tune capacity/refill per API plan.
+create table if not exists public.provider_rate_limits (
+  provider text primary key,
+  capacity numeric not null,
+  refill_per_second numeric not null,
+  tokens numeric not null,
+  blocked_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.provider_rate_limits (provider, capacity, refill_per_second, tokens)
+values
+  ('google_cse', 5, 1.5, 5),
+  ('serpapi', 3, 0.5, 3),
+  ('groq', 5, 0.5, 5),
+  ('openai', 10, 2, 10)
+on conflict (provider) do nothing;
+
+alter table public.provider_rate_limits enable row level security;
+
+-- Takes one token. Returns 0 when granted, otherwise how many milliseconds
+-- the caller should wait before asking again.
+create or replace function public.take_provider_token(p_provider text)
+returns integer
+language plpgsql
+as $$
+declare
+  bucket public.provider_rate_limits;
+  available numeric;
+begin
+  select * into bucket
+  from public.provider_rate_limits
+  where provider = p_provider
+  for update;
+
+  if bucket.provider is null then
+    return 0;
+  end if;
+
+  if bucket.blocked_until is not null and bucket.blocked_until > now() then
+    return ceil(extract(epoch from bucket.blocked_until - now()) * 1000);
+  end if;
+
+  available := least(
+    bucket.capacity,
+    bucket.tokens + extract(epoch from now() - bucket.updated_at) * bucket.refill_per_second
+  );
+
+  if available >= 1 then
+    update public.provider_rate_limits
+    set tokens = available - 1, updated_at = now()
+    where provider = p_provider;
+    return 0;
+  end if;
+
+  update public.provider_rate_limits
+  set tokens = available, updated_at = now()
+  where provider = p_provider;
+
+  return ceil((1 - available) / bucket.refill_per_second * 1000);
+end;
+$$;
+
+-- Called after a 429 so every worker backs off, not just the one that was
+-- rejected.
+create or replace function public.block_provider(p_provider text, p_milliseconds integer)
+returns void
+language sql
+as $$
+  update public.provider_rate_limits
+  set blocked_until = greatest(
+    coalesce(blocked_until, now()),
+    now() + make_interval(secs => p_milliseconds / 1000.0)
+  )
+  where provider = p_provider;
+$$;
+
+alter table public.enrichment_jobs
+  add column if not exists rows_per_minute numeric not null default 0;
+
+create or replace function public.refresh_enrichment_job(p_job_id uuid)
+returns public.enrichment_jobs
+language plpgsql
+as $$
+declare
+  job public.enrichment_jobs;
+begin
+  update public.enrichment_jobs as j
+  set completed_items = counts.completed,
+      failed_items = counts.failed,
+      skipped_items = counts.skipped,
+      rows_per_minute = round(counts.recent / 5.0, 1),
+      heartbeat_at = now(),
+      status = case
+        when counts.open = 0 and j.status in ('queued', 'running') then 'completed'
+        else j.status
+      end,
+      finished_at = case
+        when counts.open = 0 and j.finished_at is null then now()
+        else j.finished_at
+      end
+  from (
+    select
+      count(*) filter (where status = 'completed') as completed,
+      count(*) filter (where status = 'error') as failed,
+      count(*) filter (where status = 'skipped') as skipped,
+      count(*) filter (where status in ('queued', 'processing')) as open,
+      count(*) filter (
+        where status in ('completed', 'error')
+          and finished_at > now() - interval '5 minutes'
+      ) as recent
+    from public.enrichment_job_items
+    where job_id = p_job_id
+  ) as counts
+  where j.id = p_job_id
+  returning j.* into job;
+
+  return job;
+end;
+$$;
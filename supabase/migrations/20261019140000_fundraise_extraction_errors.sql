@@ -0,0 +1,5 @@
+-- Model answers that failed their JSON schema during the last enrichment of
+-- the row, e.g. [{"task": "extract_funding", "provider": "groq",
+-- "model": "llama3-8b-8192", "message": "amount_raised: Required", "at": "..."}]
+alter table public.fundraise_data
+  add column if not exists extraction_errors jsonb not null default '[]'::jsonb;
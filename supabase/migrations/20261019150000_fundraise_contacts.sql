@@ -0,0 +1,68 @@
+-- People found for a round, one row each, replacing the free-text
+-- investor_contacts string as the source of truth. investor_contacts is kept
+-- as a readable summary for older rows and CSV exports.
+create table if not exists public.fundraise_contacts (
+  id uuid primary key default gen_random_uuid(),
+  fundraise_id uuid not null references public.fundraise_data (id) on delete cascade,
+  name text not null,
+  title text,
+  firm text,
+  round_role text not null default 'unknown'
+    check (round_role in ('lead', 'participant', 'unknown')),
+  source_url text,
+  confidence real not null default 0
+    check (confidence between 0 and 1),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fundraise_contacts_fundraise_id_idx
+  on public.fundraise_contacts (fundraise_id);
+
+-- Swaps a round's contacts for a freshly extracted set in one transaction, so
+-- readers never see a half-replaced list.
+create or replace function public.replace_fundraise_contacts(
+  p_fundraise_id uuid,
+  p_contacts jsonb
+)
+returns setof public.fundraise_contacts
+language plpgsql
+as $$
+begin
+  delete from public.fundraise_contacts where fundraise_id = p_fundraise_id;
+
+  return query
+  insert into public.fundraise_contacts
+    (fundraise_id, name, title, firm, round_role, source_url, confidence)
+  select
+    p_fundraise_id,
+    contact->>'name',
+    nullif(contact->>'title', ''),
+    nullif(contact->>'firm', ''),
+    coalesce(contact->>'round_role', 'unknown'),
+    contact->>'source_url',
+    coalesce((contact->>'confidence')::real, 0)
+  from jsonb_array_elements(p_contacts) as contact
+  returning *;
+end;
+$$;
+
+alter table public.fundraise_contacts enable row level security;
+
+drop policy if exists "Public access to fundraise contacts" on public.fundraise_contacts;
+create policy "Public access to fundraise contacts"
+  on public.fundraise_contacts
+  for all
+  using (true)
+  with check (true);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'fundraise_contacts'
+  ) then
+    alter publication supabase_realtime add table public.fundraise_contacts;
+  end if;
+end $$;
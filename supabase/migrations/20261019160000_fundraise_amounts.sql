@@ -0,0 +1,8 @@
+-- Parsed funding amounts. amount_raised keeps the text the user uploaded and
+-- is no longer overwritten by enrichment; the extracted amount lives next to
+-- it. Both are {value, currency, original_text, usd_value, fx_rate, fx_year}.
+alter table public.fundraise_data
+  add column if not exists amount_user jsonb,
+  add column if not exists amount_extracted jsonb,
+  -- Set when the user's and the extracted amount differ by more than 10%
+  add column if not exists amount_mismatch boolean not null default false;
@@ -0,0 +1,25 @@
+-- Saved column mappings for recurring upload layouts ("Crunchbase export",
+-- "PitchBook export", ...). source_columns is the header row the profile was
+-- built from and is what later uploads are matched against.
+create table if not exists public.column_mapping_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  source_columns text[] not null default '{}',
+  mapping jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists column_mapping_profiles_set_updated_at on public.column_mapping_profiles;
+create trigger column_mapping_profiles_set_updated_at
+  before update on public.column_mapping_profiles
+  for each row execute function public.set_updated_at();
+
+alter table public.column_mapping_profiles enable row level security;
+
+drop policy if exists "Public access to column mapping profiles" on public.column_mapping_profiles;
+create policy "Public access to column mapping profiles"
+  on public.column_mapping_profiles
+  for all
+  using (true)
+  with check (true);
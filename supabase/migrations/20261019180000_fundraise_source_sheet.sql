@@ -0,0 +1,5 @@
+-- Worksheet an uploaded row came from, for workbooks with one sheet per
+-- quarter or sector. Null for CSV uploads. source_row keeps counting across
+-- the sheets of one upload so rows stay in workbook order.
+alter table public.fundraise_data
+  add column if not exists source_sheet text;
@@ -0,0 +1,35 @@
+-- One row per company, so differently spelled uploads ("Rocket Lab USA,
+-- Inc.", "Rocket Lab") resolve to the same entity. normalized_name is the
+-- canonical name without punctuation or legal suffixes; aliases collect other
+-- spellings seen in uploads, and domains are the company's own sites, which
+-- enrichment uses to recognise articles about it.
+create table if not exists public.companies (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  normalized_name text not null unique,
+  aliases text[] not null default '{}',
+  domains text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists companies_set_updated_at on public.companies;
+create trigger companies_set_updated_at
+  before update on public.companies
+  for each row execute function public.set_updated_at();
+
+alter table public.fundraise_data
+  add column if not exists company_id uuid
+    references public.companies (id) on delete set null;
+
+create index if not exists fundraise_data_company_id_idx
+  on public.fundraise_data (company_id);
+
+alter table public.companies enable row level security;
+
+drop policy if exists "Public access to companies" on public.companies;
+create policy "Public access to companies"
+  on public.companies
+  for all
+  using (true)
+  with check (true);
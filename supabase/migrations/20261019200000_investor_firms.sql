@@ -0,0 +1,167 @@
+-- Canonical investor firms. The uploaded investors text and the firms named
+-- on extracted contacts resolve to these rows, so "a16z" and "Andreessen
+-- Horowitz" count as one firm across rounds. normalized_name is the name
+-- without punctuation, legal suffixes or fund words ("Capital", "Ventures").
+create table if not exists public.investor_firms (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  normalized_name text not null unique,
+  aliases text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists investor_firms_set_updated_at on public.investor_firms;
+create trigger investor_firms_set_updated_at
+  before update on public.investor_firms
+  for each row execute function public.set_updated_at();
+
+-- Short names that fuzzy matching cannot connect to the full name
+insert into public.investor_firms (name, normalized_name, aliases)
+values
+  ('Andreessen Horowitz', 'andreessen horowitz', '{a16z}'),
+  ('Kleiner Perkins', 'kleiner perkins', '{KPCB,"Kleiner Perkins Caufield & Byers"}'),
+  ('Lightspeed Venture Partners', 'lightspeed', '{LSVP}'),
+  ('New Enterprise Associates', 'new enterprise associates', '{NEA}'),
+  ('Y Combinator', 'y combinator', '{YC}')
+on conflict (normalized_name) do nothing;
+
+-- The firms in each round. Links from the uploaded investors text are
+-- rebuilt on every upload; links found during extraction are only added.
+create table if not exists public.fundraise_investors (
+  fundraise_id uuid not null references public.fundraise_data (id) on delete cascade,
+  firm_id uuid not null references public.investor_firms (id) on delete cascade,
+  round_role text not null default 'unknown'
+    check (round_role in ('lead', 'participant', 'unknown')),
+  source text not null default 'upload'
+    check (source in ('upload', 'extraction')),
+  created_at timestamptz not null default now(),
+  primary key (fundraise_id, firm_id)
+);
+
+create index if not exists fundraise_investors_firm_id_idx
+  on public.fundraise_investors (firm_id);
+
+alter table public.fundraise_contacts
+  add column if not exists firm_id uuid
+    references public.investor_firms (id) on delete set null;
+
+create index if not exists fundraise_contacts_firm_id_idx
+  on public.fundraise_contacts (firm_id);
+
+create or replace function public.replace_fundraise_contacts(
+  p_fundraise_id uuid,
+  p_contacts jsonb
+)
+returns setof public.fundraise_contacts
+language plpgsql
+as $$
+begin
+  delete from public.fundraise_contacts where fundraise_id = p_fundraise_id;
+
+  return query
+  insert into public.fundraise_contacts
+    (fundraise_id, name, title, firm, firm_id, round_role, source_url, confidence)
+  select
+    p_fundraise_id,
+    contact->>'name',
+    nullif(contact->>'title', ''),
+    nullif(contact->>'firm', ''),
+    nullif(contact->>'firm_id', '')::uuid,
+    coalesce(contact->>'round_role', 'unknown'),
+    contact->>'source_url',
+    coalesce((contact->>'confidence')::real, 0)
+  from jsonb_array_elements(p_contacts) as contact
+  returning *;
+end;
+$$;
+
+-- Folds a duplicate firm into another: its rounds, contacts, name and
+-- aliases move over and the duplicate is removed.
+create or replace function public.merge_investor_firms(
+  p_source_id uuid,
+  p_target_id uuid
+)
+returns public.investor_firms
+language plpgsql
+as $$
+declare
+  v_source public.investor_firms;
+  v_target public.investor_firms;
+begin
+  if p_source_id = p_target_id then
+    raise exception 'Cannot merge a firm into itself';
+  end if;
+
+  select * into v_source from public.investor_firms where id = p_source_id;
+  if not found then
+    raise exception 'Investor firm % not found', p_source_id;
+  end if;
+
+  insert into public.fundraise_investors
+    (fundraise_id, firm_id, round_role, source, created_at)
+  select fundraise_id, p_target_id, round_role, source, created_at
+  from public.fundraise_investors
+  where firm_id = p_source_id
+  on conflict (fundraise_id, firm_id) do nothing;
+
+  update public.fundraise_contacts
+  set firm_id = p_target_id
+  where firm_id = p_source_id;
+
+  delete from public.investor_firms where id = p_source_id;
+
+  update public.investor_firms
+  set aliases = array(
+    select distinct alias
+    from unnest(aliases || v_source.name || v_source.aliases) as alias
+    where alias <> name
+  )
+  where id = p_target_id
+  returning * into v_target;
+
+  if not found then
+    raise exception 'Investor firm % not found', p_target_id;
+  end if;
+
+  return v_target;
+end;
+$$;
+
+alter table public.investor_firms enable row level security;
+alter table public.fundraise_investors enable row level security;
+
+drop policy if exists "Public access to investor firms" on public.investor_firms;
+create policy "Public access to investor firms"
+  on public.investor_firms
+  for all
+  using (true)
+  with check (true);
+
+drop policy if exists "Public access to fundraise investors" on public.fundraise_investors;
+create policy "Public access to fundraise investors"
+  on public.fundraise_investors
+  for all
+  using (true)
+  with check (true);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'investor_firms'
+  ) then
+    alter publication supabase_realtime add table public.investor_firms;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'fundraise_investors'
+  ) then
+    alter publication supabase_realtime add table public.fundraise_investors;
+  end if;
+end $$;
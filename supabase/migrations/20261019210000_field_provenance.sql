@@ -0,0 +1,42 @@
+-- Evidence for enriched values. field_provenance maps a field name
+-- (press_url_1..3, investor_contacts, amount_extracted) to the source URL,
+-- supporting snippet, extractor and model that produced it, and whether the
+-- snippet was found in the page.
+alter table public.fundraise_data
+  add column if not exists field_provenance jsonb not null default '{}'::jsonb;
+
+-- The sentence naming each contact, and whether it was found in the article
+-- rather than only claimed by the model
+alter table public.fundraise_contacts
+  add column if not exists source_snippet text,
+  add column if not exists source_verified boolean not null default false;
+
+create or replace function public.replace_fundraise_contacts(
+  p_fundraise_id uuid,
+  p_contacts jsonb
+)
+returns setof public.fundraise_contacts
+language plpgsql
+as $$
+begin
+  delete from public.fundraise_contacts where fundraise_id = p_fundraise_id;
+
+  return query
+  insert into public.fundraise_contacts
+    (fundraise_id, name, title, firm, firm_id, round_role, source_url,
+     source_snippet, source_verified, confidence)
+  select
+    p_fundraise_id,
+    contact->>'name',
+    nullif(contact->>'title', ''),
+    nullif(contact->>'firm', ''),
+    nullif(contact->>'firm_id', '')::uuid,
+    coalesce(contact->>'round_role', 'unknown'),
+    contact->>'source_url',
+    nullif(contact->>'source_snippet', ''),
+    coalesce((contact->>'source_verified')::boolean, false),
+    coalesce((contact->>'confidence')::real, 0)
+  from jsonb_array_elements(p_contacts) as contact
+  returning *;
+end;
+$$;
@@ -0,0 +1,10 @@
+-- Rows whose enriched values are missing or weakly supported are marked
+-- 'needs_review' instead of 'completed'. review_reasons says why; each
+-- value's score is kept in field_provenance under "confidence".
+alter table public.fundraise_data
+  add column if not exists review_reasons text[] not null default '{}',
+  add column if not exists reviewed_at timestamptz;
+
+create index if not exists fundraise_data_needs_review_idx
+  on public.fundraise_data (created_at)
+  where status = 'needs_review';
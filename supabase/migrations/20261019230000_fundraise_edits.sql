@@ -0,0 +1,141 @@
+-- Manual corrections. Every change an analyst makes to a row is logged in
+-- fundraise_edits, and the edited columns are listed in locked_fields so
+-- re-enrichment keeps them unless asked to overwrite them.
+alter table public.fundraise_data
+  add column if not exists locked_fields text[] not null default '{}';
+
+create table if not exists public.fundraise_edits (
+  id uuid primary key default gen_random_uuid(),
+  fundraise_id uuid not null references public.fundraise_data (id) on delete cascade,
+  field text not null,
+  -- Column values as json, so amounts keep their parsed form
+  old_value jsonb,
+  new_value jsonb,
+  edited_by text,
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists fundraise_edits_fundraise_id_idx
+  on public.fundraise_edits (fundraise_id, edited_at desc);
+
+-- Applies an analyst's changes to a row and logs them in one transaction.
+-- p_changes holds the columns the analyst edited; p_derived holds columns
+-- recomputed from them (USD amounts, the company link, evidence, review
+-- state), which are saved but neither logged nor locked. Rewriting the
+-- contacts text drops the contacts extracted for the round with it.
+create or replace function public.edit_fundraise_data(
+  p_fundraise_id uuid,
+  p_changes jsonb,
+  p_derived jsonb default '{}'::jsonb,
+  p_edited_by text default null
+)
+returns public.fundraise_data
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_editable constant text[] := array[
+    'company_name', 'date_raised', 'amount_raised', 'investors',
+    'press_url_1', 'press_url_2', 'press_url_3', 'investor_contacts',
+    'amount_extracted'
+  ];
+  v_derivable constant text[] := array[
+    'company_id', 'amount_user', 'amount_mismatch', 'field_provenance',
+    'status', 'review_reasons', 'reviewed_at'
+  ];
+  v_field text;
+  v_changed text[];
+  v_old public.fundraise_data;
+  v_new public.fundraise_data;
+begin
+  select key into v_field
+  from jsonb_object_keys(p_changes) as key
+  where key <> all (v_editable)
+  limit 1;
+  if v_field is not null then
+    raise exception 'Column % cannot be edited', v_field;
+  end if;
+
+  select key into v_field
+  from jsonb_object_keys(p_derived) as key
+  where key <> all (v_derivable)
+  limit 1;
+  if v_field is not null then
+    raise exception 'Column % cannot be derived from an edit', v_field;
+  end if;
+
+  select * into v_old
+  from public.fundraise_data
+  where id = p_fundraise_id
+  for update;
+  if not found then
+    raise exception 'Fundraise row % not found', p_fundraise_id;
+  end if;
+
+  v_new := jsonb_populate_record(v_old, p_derived || p_changes);
+
+  -- Saving a value unchanged neither locks nor logs it
+  v_changed := array(
+    select change.key
+    from jsonb_object_keys(p_changes) as change(key)
+    where (to_jsonb(v_old) -> change.key)
+      is distinct from (to_jsonb(v_new) -> change.key)
+  );
+
+  update public.fundraise_data
+  set
+    company_name = v_new.company_name,
+    company_id = v_new.company_id,
+    date_raised = v_new.date_raised,
+    amount_raised = v_new.amount_raised,
+    amount_user = v_new.amount_user,
+    investors = v_new.investors,
+    press_url_1 = v_new.press_url_1,
+    press_url_2 = v_new.press_url_2,
+    press_url_3 = v_new.press_url_3,
+    investor_contacts = v_new.investor_contacts,
+    amount_extracted = v_new.amount_extracted,
+    amount_mismatch = v_new.amount_mismatch,
+    field_provenance = v_new.field_provenance,
+    status = v_new.status,
+    review_reasons = v_new.review_reasons,
+    reviewed_at = v_new.reviewed_at,
+    locked_fields = array(
+      select distinct field
+      from unnest(
+        v_old.locked_fields || v_changed
+      ) as field
+      order by field
+    )
+  where id = p_fundraise_id
+  returning * into v_new;
+
+  insert into public.fundraise_edits
+    (fundraise_id, field, old_value, new_value, edited_by)
+  select
+    p_fundraise_id,
+    change.key,
+    to_jsonb(v_old) -> change.key,
+    to_jsonb(v_new) -> change.key,
+    nullif(trim(p_edited_by), '')
+  from unnest(v_changed) as change(key);
+
+  if 'investor_contacts' = any (v_changed) then
+    delete from public.fundraise_contacts
+    where fundraise_id = p_fundraise_id;
+  end if;
+
+  return v_new;
+end;
+$$;
+
+alter table public.fundraise_edits enable row level security;
+
+-- The log is written only by edit_fundraise_data; the browser only reads it.
+drop policy if exists "Public access to fundraise edits" on public.fundraise_edits;
+drop policy if exists "Public read access to fundraise edits" on public.fundraise_edits;
+create policy "Public read access to fundraise edits"
+  on public.fundraise_edits
+  for select
+  using (true);
@@ -0,0 +1,5 @@
+-- What the last enrichment run did for a row: its steps, the search queries
+-- it sent, every candidate URL with its score or the reason it was rejected,
+-- and the model calls it made. Written by the enrich-fundraise-data function.
+alter table public.fundraise_data
+  add column if not exists enrichment_trace jsonb;
@@ -0,0 +1,117 @@
+-- Named projects, each holding its own list of rounds. enrichment_settings
+-- are the enrichment options the project's runs start with; enrichment jobs
+-- belong to a project, which gives every project its own history and lets
+-- projects be enriched side by side. Rows saved before projects existed are
+-- moved into a "Default" project.
+create table if not exists public.projects (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  enrichment_settings jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists projects_set_updated_at on public.projects;
+create trigger projects_set_updated_at
+  before update on public.projects
+  for each row execute function public.set_updated_at();
+
+alter table public.fundraise_data
+  add column if not exists project_id uuid
+    references public.projects (id) on delete cascade;
+
+alter table public.enrichment_jobs
+  add column if not exists project_id uuid
+    references public.projects (id) on delete cascade;
+
+do $$
+declare
+  default_project uuid;
+begin
+  if exists (select 1 from public.fundraise_data where project_id is null)
+    or exists (select 1 from public.enrichment_jobs where project_id is null)
+  then
+    insert into public.projects (name)
+    values ('Default')
+    returning id into default_project;
+
+    update public.fundraise_data
+    set project_id = default_project
+    where project_id is null;
+
+    update public.enrichment_jobs
+    set project_id = default_project
+    where project_id is null;
+  end if;
+end $$;
+
+alter table public.fundraise_data alter column project_id set not null;
+alter table public.enrichment_jobs alter column project_id set not null;
+
+create index if not exists fundraise_data_project_id_idx
+  on public.fundraise_data (project_id);
+
+create index if not exists enrichment_jobs_project_id_idx
+  on public.enrichment_jobs (project_id, created_at desc);
+
+-- Each project runs at most one job at a time
+create unique index if not exists enrichment_jobs_one_open_per_project_idx
+  on public.enrichment_jobs (project_id)
+  where status in ('queued', 'running', 'paused');
+
+-- Queues rows of a project as a new job, items included, in one transaction,
+-- so a start that fails leaves no empty job behind. p_reset puts the rows
+-- back to pending, which is how failed and completed rows are enriched again.
+create or replace function public.start_enrichment_job(
+  p_project_id uuid,
+  p_fundraise_ids uuid[],
+  p_options jsonb default '{}'::jsonb,
+  p_reset boolean default false
+)
+returns public.enrichment_jobs
+language plpgsql
+as $$
+declare
+  job public.enrichment_jobs;
+begin
+  insert into public.enrichment_jobs (project_id, status, total_items, options)
+  values (p_project_id, 'queued', cardinality(p_fundraise_ids), p_options)
+  returning * into job;
+
+  -- Rows are claimed by created_at, so they keep the order they came in
+  insert into public.enrichment_job_items (job_id, fundraise_id, created_at)
+  select job.id, ids.fundraise_id, clock_timestamp()
+  from unnest(p_fundraise_ids) with ordinality as ids(fundraise_id, position)
+  order by ids.position;
+
+  if p_reset then
+    update public.fundraise_data
+    set status = 'pending'
+    where id = any (p_fundraise_ids);
+  end if;
+
+  return job;
+end;
+$$;
+
+alter table public.projects enable row level security;
+
+drop policy if exists "Public access to projects" on public.projects;
+create policy "Public access to projects"
+  on public.projects
+  for all
+  using (true)
+  with check (true);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'projects'
+  ) then
+    alter publication supabase_realtime add table public.projects;
+  end if;
+end $$;